@@ -0,0 +1,230 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains the board model. A board is the set of Gerber and drill
+ * files from a fabrication archive, parsed and classified by side and layer.
+ */
+
+import * as JSZip from "jszip";
+import {
+    ExcellonToPolygons,
+    GerberToPolygons,
+    Init,
+    PolygonConverterResult} from "./converters";
+import {BoardStackup, GerberJobParser} from "./gerberjob";
+import {
+    BoardFileType,
+    BoardLayer,
+    BoardSide,
+    GerberUtils,
+    LayerInfo} from "./gerberutils";
+import {CoordinateUnits, GraphicsPrimitive, ImageTransform, SimpleBounds} from "./primitives";
+
+export class BoardLayerFile {
+    constructor(
+        readonly fileName:string,
+        readonly info:LayerInfo,
+        readonly image:PolygonConverterResult) {
+    }
+
+    get side():BoardSide {
+        return this.info.side;
+    }
+
+    get layer():BoardLayer {
+        return this.info.layer;
+    }
+
+    get primitives():Array<GraphicsPrimitive> {
+        return this.image.primitives;
+    }
+
+    /**
+     * Transformation of the deprecated image commands, the primitives are
+     * not transformed.
+     */
+    get imageTransform():ImageTransform {
+        return this.image.imageTransform;
+    }
+}
+
+export class UnrecognizedFile {
+    constructor(readonly fileName:string, readonly reason:string) {
+    }
+}
+
+export class Board {
+    readonly layers:Array<BoardLayerFile> = [];
+    readonly drills:Array<BoardLayerFile> = [];
+    readonly unrecognized:Array<UnrecognizedFile> = [];
+    stackup:BoardStackup;
+
+    /**
+     * Returns all layers of the given side and type. Copper layers are
+     * sorted by their copper layer index when it is known.
+     */
+    getLayers(side:BoardSide, layer:BoardLayer):Array<BoardLayerFile> {
+        let result = this.layers.filter(l => l.side == side && l.layer == layer);
+        if (layer == BoardLayer.Copper) {
+            result.sort((a, b) => {
+                let ia = (a.info.copperIndex != undefined) ? a.info.copperIndex : 0;
+                let ib = (b.info.copperIndex != undefined) ? b.info.copperIndex : 0;
+                return ia - ib;
+            });
+        }
+        return result;
+    }
+
+    getLayer(side:BoardSide, layer:BoardLayer):BoardLayerFile {
+        return this.getLayers(side, layer)[0];
+    }
+
+    /**
+     * The board profile layer, CAM tools without an outline layer usually
+     * draw the profile on the milling layer.
+     */
+    get outline():BoardLayerFile {
+        let result = this.layers.find(l => l.layer == BoardLayer.Outline);
+        if (!result) {
+            result = this.layers.find(l => l.layer == BoardLayer.Mill);
+        }
+        return result;
+    }
+
+    /**
+     * Bounds of the outline if there is one, otherwise of all layers.
+     */
+    get bounds():SimpleBounds {
+        let outline = this.outline;
+        let layers = (outline) ? [outline] : this.layers.concat(this.drills);
+        let result:SimpleBounds;
+        layers
+            .map(l => l.image.bounds)
+            .filter(b => b != undefined)
+            .forEach(b => {
+                if (!result) {
+                    result = b;
+                } else {
+                    result = {
+                        minx:Math.min(result.minx, b.minx),
+                        miny:Math.min(result.miny, b.miny),
+                        maxx:Math.max(result.maxx, b.maxx),
+                        maxy:Math.max(result.maxy, b.maxy)
+                    };
+                }
+            });
+        return result;
+    }
+}
+
+interface BoardFile {
+    readonly fileName:string;
+    readonly fileType:BoardFileType;
+    readonly info:LayerInfo;
+    readonly content:string;
+}
+
+function convertBoardFile(
+    file:BoardFile,
+    union:boolean,
+    outputUnits?:CoordinateUnits):PolygonConverterResult {
+    return (file.fileType == BoardFileType.Drill)
+        ? ExcellonToPolygons(file.content, union, {outputUnits:outputUnits})
+        : GerberToPolygons(file.content, union, {outputUnits:outputUnits});
+}
+
+/**
+ * With output units every layer is converted to the same units, so layers
+ * in millimeters and inches line up. Without output units a board with files
+ * in both millimeters and inches is converted to millimeters.
+ */
+export async function loadBoardFromZip(
+    data:ArrayBuffer|Uint8Array,
+    union:boolean = false,
+    outputUnits?:CoordinateUnits):Promise<Board> {
+    await Init;
+    let zip = await new JSZip().loadAsync(data);
+    let board = new Board();
+    let fileNames = Object.keys(zip.files).filter(fileName => !zip.files[fileName].dir);
+    let jobFiles = fileNames.filter(
+        fileName => GerberUtils.getFileExt(fileName.toLowerCase()) == "gbrjob");
+    for (let fileName of jobFiles) {
+        try {
+            board.stackup = GerberJobParser.parse(await zip.files[fileName].async("text"));
+            break;
+        } catch (e) {
+            board.unrecognized.push(new UnrecognizedFile(fileName, `Invalid job file: ${e.message}`));
+        }
+    }
+    let files:Array<BoardFile> = [];
+    for (let fileName of fileNames) {
+        if (GerberUtils.isIgnoredFile(fileName) || jobFiles.indexOf(fileName) >= 0) {
+            continue;
+        }
+        let content = await zip.files[fileName].async("text");
+        let fileType = GerberUtils.boardFileType(fileName, content);
+        if (fileType == BoardFileType.Unsupported) {
+            board.unrecognized.push(new UnrecognizedFile(fileName, "Not a Gerber or drill file"));
+            continue;
+        }
+        let binding = (board.stackup) ? board.stackup.getFile(fileName) : undefined;
+        let info = (binding && binding.layer != BoardLayer.Unknown)
+            ? binding.layerInfo
+            : GerberUtils.determineLayerInfo(fileName, content);
+        if (fileType == BoardFileType.Drill
+            && info.layer != BoardLayer.Drill
+            && info.layer != BoardLayer.Mill) {
+            info = {
+                side:BoardSide.Both,
+                layer:BoardLayer.Drill,
+                plated:info.plated,
+                drillSpan:info.drillSpan,
+                polarity:info.polarity,
+                source:info.source,
+                confidence:info.confidence
+            };
+        }
+        if (info.layer == BoardLayer.Unknown || info.side == BoardSide.Unknown) {
+            board.unrecognized.push(new UnrecognizedFile(fileName, "Unknown layer"));
+            continue;
+        }
+        files.push({fileName:fileName, fileType:fileType, info:info, content:content});
+    }
+    let images = new Map<BoardFile, PolygonConverterResult>();
+    for (let file of files) {
+        try {
+            images.set(file, convertBoardFile(file, union, outputUnits));
+        } catch (e) {
+            board.unrecognized.push(new UnrecognizedFile(file.fileName, `Parse error: ${e.message}`));
+        }
+    }
+    let units = new Set<CoordinateUnits>();
+    images.forEach(image => units.add(image.units));
+    if (units.size > 1) {
+        images.forEach((image, file) => {
+            if (image.units != CoordinateUnits.MILIMETERS) {
+                images.set(file, convertBoardFile(file, union, CoordinateUnits.MILIMETERS));
+            }
+        });
+    }
+    for (let file of files) {
+        let image = images.get(file);
+        if (!image) {
+            continue;
+        }
+        let layerFile = new BoardLayerFile(file.fileName, file.info, image);
+        if (file.fileType == BoardFileType.Drill || file.info.layer == BoardLayer.Drill) {
+            board.drills.push(layerFile);
+        } else {
+            board.layers.push(layerFile);
+        }
+    }
+    return board;
+}
@@ -0,0 +1,178 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains the composite board renderer. It combines the copper,
+ * soldermask, silkscreen, paste, drill and outline layers of a board into
+ * a realistic looking top or bottom view SVG.
+ */
+
+import {Board, BoardLayerFile} from "./board";
+import {SVGConverter} from "./converters";
+import {BoardLayer, BoardSide, FilePolarity} from "./gerberutils";
+import {Point} from "./point";
+import {Polygon, PolygonSet, polygonArea, unionPolygonSet} from "./polygonSet";
+import {SimpleBounds} from "./primitives";
+
+export class BoardRenderer {
+    public scale = 100;
+    public margin = 10;
+    public precision:number = 3;
+    public substrateColor = 0x6b5d2c;
+    public copperColor = 0xc89436;
+    public maskColor = 0x0b4d1e;
+    public maskOpacity = 0.8;
+    public silkColor = 0xf5f5f5;
+    public pasteColor = 0xa8a8a8;
+    public showPaste = false;
+    private bounds_:SimpleBounds;
+    private width_:number;
+    private height_:number;
+    private offset_:Point;
+
+    renderTop(board:Board):string {
+        return this.render(board, BoardSide.Top);
+    }
+
+    renderBottom(board:Board):string {
+        return this.render(board, BoardSide.Bottom);
+    }
+
+    render(board:Board, side:BoardSide):string {
+        this.bounds_ = board.bounds;
+        if (!this.bounds_) {
+            this.bounds_ = {minx:0, miny:0, maxx:0, maxy:0};
+        }
+        this.width_ = (this.bounds_.maxx - this.bounds_.minx) * this.scale + this.margin * 2;
+        this.height_ = (this.bounds_.maxy - this.bounds_.miny) * this.scale + this.margin * 2;
+        this.offset_ = new Point(
+            -this.bounds_.minx * this.scale + this.margin,
+            -this.bounds_.miny * this.scale + this.margin);
+        let prefix = BoardSide[side].toLowerCase();
+        let boardId = `${prefix}-board`;
+        let maskId = `${prefix}-soldermask`;
+        let fullRect = `<rect x="0" y="0" width="${this.width_}" height="${this.height_}"`;
+
+        let holes:PolygonSet = [];
+        board.drills.forEach(d => holes.push(...d.image.solids));
+        let shape = this.boardShape(board);
+        let copper = board.getLayer(side, BoardLayer.Copper);
+        let soldermask = board.getLayer(side, BoardLayer.SolderMask);
+        let silk = board.getLayer(side, BoardLayer.Silk);
+        let paste = board.getLayer(side, BoardLayer.Paste);
+
+        let result = [
+            '<?xml version="1.0" standalone="no"?>',
+            '<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.0//EN" "http://www.w3.org/TR/2001/REC-SVG-20010904/DTD/svg10.dtd">',
+            `<svg width="100%" height="100%" viewBox="0 0 ${this.width_} ${this.height_}"
+                  version="1.1" xmlns="http://www.w3.org/2000/svg">`,
+            '<defs>',
+            `<mask id="${boardId}">`,
+            `${fullRect} fill="#000000"/>`,
+            this.path(shape, 0xffffff),
+            this.path(holes, 0x000000),
+            '</mask>'];
+        // The soldermask layer image shows the openings, unless the file
+        // says it is a positive image of the mask material.
+        let maskIsMaterial = soldermask && soldermask.info.polarity == FilePolarity.Positive;
+        if (soldermask) {
+            result.push(
+                `<mask id="${maskId}">`,
+                `${fullRect} fill="${(maskIsMaterial) ? "#000000" : "#ffffff"}"/>`,
+                this.layerPath(soldermask, (maskIsMaterial) ? 0xffffff : 0x000000),
+                '</mask>');
+        }
+        result.push('</defs>');
+        if (side == BoardSide.Bottom) {
+            result.push(
+                `<g mask="url(#${boardId})" transform="translate(${this.width_}, 0) scale(-1, 1)">`);
+        } else {
+            result.push(`<g mask="url(#${boardId})">`);
+        }
+        result.push(`${fullRect} fill="${SVGConverter.colorToHtml(this.substrateColor)}"/>`);
+        if (copper) {
+            result.push(this.layerPath(copper, this.copperColor));
+        }
+        if (soldermask) {
+            result.push(
+                `<g mask="url(#${maskId})">`,
+                `${fullRect} fill="${SVGConverter.colorToHtml(this.maskColor)}" fill-opacity="${this.maskOpacity}"/>`,
+                '</g>');
+        }
+        if (paste && this.showPaste) {
+            result.push(this.layerPath(paste, this.pasteColor));
+        }
+        if (silk) {
+            // Silkscreen is not printed over the soldermask openings.
+            if (soldermask) {
+                result.push(`<g mask="url(#${maskId})">`, this.layerPath(silk, this.silkColor), '</g>');
+            } else {
+                result.push(this.layerPath(silk, this.silkColor));
+            }
+        }
+        result.push('</g>', '</svg>');
+        return result.filter(s => s.length > 0).join('\n');
+    }
+
+    /**
+     * The substrate shape is the largest contour of the outline layer, when
+     * there is no outline the board bounds are used.
+     */
+    private boardShape(board:Board):PolygonSet {
+        let outline = board.outline;
+        let largest:Polygon;
+        let largestArea = 0;
+        if (outline && (outline.image.solids.length > 0 || outline.image.thins.length > 0)) {
+            let contours = unionPolygonSet(outline.image.solids, []).polygonSet
+                .concat(outline.image.thins);
+            for (let contour of contours) {
+                let area = Math.abs(polygonArea(contour));
+                if (area > largestArea) {
+                    largest = contour;
+                    largestArea = area;
+                }
+            }
+        }
+        if (!largest) {
+            largest = Float64Array.of(
+                this.bounds_.minx, this.bounds_.miny,
+                this.bounds_.maxx, this.bounds_.miny,
+                this.bounds_.maxx, this.bounds_.maxy,
+                this.bounds_.minx, this.bounds_.maxy);
+        }
+        return [largest];
+    }
+
+    private layerPath(layer:BoardLayerFile, color:number):string {
+        return this.path(layer.image.solids, color);
+    }
+
+    private path(polySet:PolygonSet, color:number):string {
+        let data = "";
+        polySet
+            .filter(polygon => polygon.length > 1)
+            .forEach(polygon => {
+                let startx = polygon[0] * this.scale + this.offset_.x;
+                let starty = polygon[1] * this.scale + this.offset_.y;
+                data += ` M ${startx.toFixed(this.precision)} `
+                    + `${(this.height_ - starty).toFixed(this.precision)}`;
+                for (let idx = 2; idx < polygon.length; idx += 2) {
+                    let pointx = polygon[idx] * this.scale + this.offset_.x;
+                    let pointy = polygon[idx + 1] * this.scale + this.offset_.y;
+                    data += ` L ${pointx.toFixed(this.precision)} `
+                        + `${(this.height_ - pointy).toFixed(this.precision)}`;
+                }
+                data += ' z';
+            });
+        if (data.length == 0) {
+            return "";
+        }
+        return `<path d="${data}" fill="${SVGConverter.colorToHtml(color)}" fill-rule="nonzero"/>`;
+    }
+}
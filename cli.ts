@@ -2,8 +2,14 @@ import * as cvt from "./converters";
 import * as fs from "fs-extra-promise";
 import * as JSZip from "jszip";
 import * as ut from "./gerberutils";
+import * as gj from "./gerberjob";
 
-import {GerberToPolygons, Init} from "./converters";
+import {GerberToPolygons, ExcellonToPolygons, Init} from "./converters";
+import {FormatConverter} from "./formatconverter";
+import {IsolationRouter} from "./gcode";
+import {CopperReport} from "./copperarea";
+import {loadBoardFromZip} from "./board";
+import {CoordinateUnits} from "./primitives";
 
 let results = [];
 
@@ -11,11 +17,29 @@ async function parseGerber(zipFileName:string, fileName:string, content:string)
     try {
         await Init;
         //console.log(`Parsing '${fileName}'`);
-        GerberToPolygons(content);
+        if (ut.GerberUtils.boardFileType(fileName, content) == ut.BoardFileType.Drill) {
+            ExcellonToPolygons(content);
+        } else {
+            GerberToPolygons(content);
+        }
         results.push({zipFileName: zipFileName, gerber:fileName, status:"success"});
     } catch (e) {
         //console.log(`Parsing '${fileName}' - error ${e}`);
-        results.push({zipFileName: zipFileName, gerber:fileName, status:"parse error", err:e});
+        if (ut.GerberUtils.boardFileType(fileName, content) != ut.BoardFileType.Drill
+            && recoverGerber(content)) {
+            results.push({zipFileName: zipFileName, gerber:fileName, status:"recovered", err:e});
+        } else {
+            results.push({zipFileName: zipFileName, gerber:fileName, status:"parse error", err:e});
+        }
+    }
+}
+
+function recoverGerber(content:string):boolean {
+    try {
+        GerberToPolygons(content, false, {recoveryMode:true});
+        return true;
+    } catch (e) {
+        return false;
     }
 }
 
@@ -35,33 +59,42 @@ async function processZipFile(zipFileName:string) {
         results.push({zipFileName: zipFileName, status:"unzip error", err:err});
         return;
     }
+    let stackup:gj.BoardStackup;
+    for (let fileName in zip.files) {
+        let file = zip.files[fileName];
+        if (file.dir || ut.GerberUtils.getFileExt(fileName.toLowerCase()) != "gbrjob") {
+            continue;
+        }
+        try {
+            stackup = gj.GerberJobParser.parse(await file.async("text"));
+            results.push({zipFileName: zipFileName, gerber:fileName, status:"success"});
+        } catch (err) {
+            results.push({zipFileName: zipFileName, gerber:fileName, status:"parse error", err:err});
+        }
+        break;
+    }
     for (let fileName in zip.files) {
         let file = zip.files[fileName];
         if (file.dir) {
             //console.log(`Folder ${fileName}`);
         } else {
-            if (fileName.endsWith('.DS_Store')
-                || fileName.toLowerCase().endsWith('.drl')
-                || fileName.toLowerCase().endsWith('.drill')) {
-                continue;
-            }
-            if (fileName.indexOf('__MACOSX') >= 0) {
-                continue;
-            }
             let fileExt = ut.GerberUtils.getFileExt(fileName.toLowerCase());
-            if (ut.GerberUtils.bannedExtensions.indexOf(fileExt) >= 0) {
+            if (ut.GerberUtils.isIgnoredFile(fileName) || fileExt == "gbrjob") {
                 continue;
             }
-            let info = ut.GerberUtils.determineSideAndLayer(fileName);
+            let content:string;
+            try {
+                content = await file.async("text");
+            } catch (err) {
+                results.push({zipFileName: zipFileName, gerber:fileName, status:"unzip error", err:err});
+                return;
+            }
+            let binding = (stackup) ? stackup.getFile(fileName) : undefined;
+            let info = (binding && binding.layer != ut.BoardLayer.Unknown)
+                ? binding.layerInfo
+                : ut.GerberUtils.determineLayerInfo(fileName, content);
             //console.log(`File: ${fileName} ${ut.BoardSide[info.side]} ${ut.BoardLayer[info.layer]}`);
             if (info.layer != ut.BoardLayer.Unknown && info.side != ut.BoardSide.Unknown) {
-                let content:string;
-                try {
-                    content = await file.async("text");
-                } catch (err) {
-                    results.push({zipFileName: zipFileName, gerber:fileName, status:"unzip error", err:err});
-                    return;
-                }
                 let result = await parseGerber(zipFileName, fileName, content);
             } else {
                 results.push({zipFileName: zipFileName, gerber:fileName, status:"skip"});
@@ -87,6 +120,7 @@ function percent(n:number):string {
 function analyze(result:Array<any>):any {
     let totalCount = result.length;
     let successCount = result.filter(r => r.status == "success").length;
+    let recoveredCount = result.filter(r => r.status == "recovered").length;
     let parseErrorCount = result.filter(r => r.status == "parse error").length;
     let ioErrorCount = result.filter(r => r.status == "io error").length;
     let unzipErrorCount = result.filter(r => r.status == "unzip error").length;
@@ -95,12 +129,14 @@ function analyze(result:Array<any>):any {
     console.log(`Total results ${totalCount}`);
     console.log(`Skipped       ${skipCount}\t${percent(skipCount / totalCount)}`);
     console.log(`Success       ${successCount}\t${percent(successCount / gerbersTried)}`);
+    console.log(`Recovered     ${recoveredCount}\t${percent(recoveredCount / gerbersTried)}`);
     console.log(`Parse Error   ${parseErrorCount}\t${percent(parseErrorCount / gerbersTried)}`);
     console.log(`I/O Error     ${ioErrorCount}`);
     console.log(`Unzip Error   ${unzipErrorCount}`);
     return {
         totalCount:totalCount,
         successCount:successCount,
+        recoveredCount:recoveredCount,
         parseErrorCount:parseErrorCount,
         ioErrorCount:ioErrorCount,
         unzipErrorCount:unzipErrorCount,
@@ -115,6 +151,7 @@ function compare(oldResult:any, newResult:any) {
     console.log(`Total results ${oldResult.totalCount}\t\t\t${newResult.totalCount}`);
     console.log(`Skipped       ${oldResult.skipCount}\t${percent(oldResult.skipCount / oldResult.totalCount)}\t\t${newResult.skipCount}\t${percent(newResult.skipCount / newResult.totalCount)}`);
     console.log(`Success       ${oldResult.successCount}\t${percent(oldResult.successCount / oldResult.gerbersTried)}\t\t${newResult.successCount}\t${percent(newResult.successCount / newResult.gerbersTried)}`);
+    console.log(`Recovered     ${oldResult.recoveredCount}\t${percent(oldResult.recoveredCount / oldResult.gerbersTried)}\t\t${newResult.recoveredCount}\t${percent(newResult.recoveredCount / newResult.gerbersTried)}`);
     console.log(`Parse Error   ${oldResult.parseErrorCount}\t${percent(oldResult.parseErrorCount / oldResult.gerbersTried)}\t\t${newResult.parseErrorCount}\t${percent(newResult.parseErrorCount / newResult.gerbersTried)}`);
     console.log(`I/O Error     ${oldResult.ioErrorCount}\t\t\t\t${newResult.ioErrorCount}`);
     console.log(`Unzip Error   ${oldResult.unzipErrorCount}\t\t\t\t${newResult.unzipErrorCount}`);
@@ -136,6 +173,76 @@ async function main () {
     compare(oldStats, newStats);
 }
 
-main()
+/**
+ * Rewrites a gerber file in other units and coordinate format:
+ * convert <input> <output> <mm|in> <integer.decimal digits> [threshold]
+ * for example "convert board.gtl board-mm.gtl mm 4.6".
+ */
+async function convertFormat(args:Array<string>) {
+    let format = /^(\d)\.(\d)$/.exec(args[3] || "");
+    if (args.length < 4 || (args[2] != "mm" && args[2] != "in") || !format) {
+        throw new Error("Usage: convert <input> <output> <mm|in> <integer.decimal digits> [threshold]");
+    }
+    let converter = new FormatConverter();
+    converter.units = (args[2] == "mm") ? CoordinateUnits.MILIMETERS : CoordinateUnits.INCHES;
+    converter.integerDigits = Number.parseInt(format[1]);
+    converter.decimalDigits = Number.parseInt(format[2]);
+    if (args[4] != undefined) {
+        converter.threshold = Number.parseFloat(args[4]);
+    }
+    let content = await fs.readFileAsync(args[0]);
+    await fs.writeFileAsync(args[1], converter.convert(content.toString()));
+    let warnings = converter.diagnostics.warnings;
+    console.log(`Maximum rounding error ${converter.maxError} ${args[2]}`);
+    if (warnings.length > 0) {
+        console.log(`${warnings.length} commands lost precision above ${converter.threshold} ${args[2]}`);
+        warnings.slice(0, 10).forEach(w => console.log(w.toString()));
+    }
+}
+
+/**
+ * Writes the isolation milling G-code of a board:
+ * gcode <copper> <output> [drill] [outline]
+ */
+async function millingGCode(args:Array<string>) {
+    if (args.length < 2) {
+        throw new Error("Usage: gcode <copper> <output> [drill] [outline]");
+    }
+    await Init;
+    let copper = await fs.readFileAsync(args[0]);
+    let drill = (args[2]) ? (await fs.readFileAsync(args[2])).toString() : undefined;
+    let outline = (args[3]) ? (await fs.readFileAsync(args[3])).toString() : undefined;
+    await fs.writeFileAsync(args[1], IsolationRouter.GerberToGCode(copper.toString(), drill, outline));
+}
+
+/**
+ * Prints the copper area of the board layers:
+ * copper <board.zip> [tile size in mm]
+ */
+async function copperReport(args:Array<string>) {
+    if (args.length < 1) {
+        throw new Error("Usage: copper <board.zip> [tile size in mm]");
+    }
+    let data = await fs.readFileAsync(args[0]);
+    let board = await loadBoardFromZip(new Uint8Array(data), false, CoordinateUnits.MILIMETERS);
+    let tileSize = (args[1] != undefined) ? Number.parseFloat(args[1]) : undefined;
+    console.log(CopperReport.FromBoard(board, tileSize).toString());
+}
+
+let command:Promise<void>;
+switch (process.argv[2]) {
+    case "convert":
+        command = convertFormat(process.argv.slice(3));
+        break;
+    case "gcode":
+        command = millingGCode(process.argv.slice(3));
+        break;
+    case "copper":
+        command = copperReport(process.argv.slice(3));
+        break;
+    default:
+        command = main();
+}
+command
     .then(() => console.log('done'))
     .catch(error => console.error(error));
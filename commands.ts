@@ -42,8 +42,11 @@ import {
     CoordinateSkipZeros,
     CoordinateType,
     CoordinateMode,
+    ImagePolarity,
+    AxisSelect,
 } from './primitives';
 import {Point} from "./point";
+import {DiagnosticCode} from "./diagnostics";
 import {
     vectorLength,
     scaleVector,
@@ -693,7 +696,7 @@ export class D01Command implements GerberCommand {
                     let centerY = startPointY + targetJ;
                     ctx.circle(new Point(centerX, centerY), radius, this);
                 } else {
-                    ctx.warning("D01 arc radius too small.");
+                    ctx.warning("D01 arc radius too small.", DiagnosticCode.INVALID_ARC);
                 }
                 return;
             }
@@ -739,7 +742,7 @@ export class D01Command implements GerberCommand {
             let d2 = radius * radius - v2len * v2len;
             // We consider everything in (-Epsilon, +Epsion) to be 0
             if (d2 < -Epsilon) {
-                ctx.warning("D01 Invalid arc, radius too small");
+                ctx.warning("D01 Invalid arc, radius too small", DiagnosticCode.INVALID_ARC);
             }
             // Fix values (-Epsion, 0) to be 0, so Math.sqrt does not complain.
             if (d2 < 0) {
@@ -1159,6 +1162,202 @@ export class LSCommand implements GerberCommand {
     }
 }
 
+export class IPCommand implements GerberCommand {
+    readonly name = "IP";
+    readonly isAdvanced = true;
+    readonly polarity:ImagePolarity;
+    private static matchExp = /^IP(POS|NEG)\*$/;
+
+    constructor(cmd:string, readonly lineNo?:number) {
+        let match = IPCommand.matchExp.exec(cmd);
+        if (!match) {
+            throw new GerberParseException(`Invalid IP command format ${cmd}`);
+        }
+        this.polarity = (match[1] == "NEG") ? ImagePolarity.NEGATIVE : ImagePolarity.POSITIVE;
+    }
+
+    formatOutput():string {
+        return "IP" + ((this.polarity == ImagePolarity.NEGATIVE) ? "NEG" : "POS") + "*";
+    }
+
+    execute(ctx:GerberState) {
+        ctx.imageTransform.polarity = this.polarity;
+    }
+}
+
+export class IRCommand implements GerberCommand {
+    readonly name = "IR";
+    readonly isAdvanced = true;
+    readonly rotation:number;
+    private static matchExp = /^IR(0|90|180|270)\*$/;
+
+    constructor(cmd:string, readonly lineNo?:number) {
+        let match = IRCommand.matchExp.exec(cmd);
+        if (!match) {
+            throw new GerberParseException(`Invalid IR command format ${cmd}`);
+        }
+        this.rotation = Number.parseInt(match[1]);
+    }
+
+    formatOutput():string {
+        return "IR" + this.rotation + "*";
+    }
+
+    execute(ctx:GerberState) {
+        ctx.imageTransform.rotation = this.rotation;
+    }
+}
+
+export class MICommand implements GerberCommand {
+    readonly name = "MI";
+    readonly isAdvanced = true;
+    readonly mirrorA:boolean;
+    readonly mirrorB:boolean;
+    private static matchExp = /^MI(?:A([01]))?(?:B([01]))?\*$/;
+
+    constructor(cmd:string, readonly lineNo?:number) {
+        let match = MICommand.matchExp.exec(cmd);
+        if (!match) {
+            throw new GerberParseException(`Invalid MI command format ${cmd}`);
+        }
+        this.mirrorA = match[1] == "1";
+        this.mirrorB = match[2] == "1";
+    }
+
+    formatOutput():string {
+        return "MIA" + (this.mirrorA ? "1" : "0") + "B" + (this.mirrorB ? "1" : "0") + "*";
+    }
+
+    execute(ctx:GerberState) {
+        ctx.imageTransform.mirrorA = this.mirrorA;
+        ctx.imageTransform.mirrorB = this.mirrorB;
+    }
+}
+
+export class OFCommand implements GerberCommand {
+    readonly name = "OF";
+    readonly isAdvanced = true;
+    readonly offsetA:number;
+    readonly offsetB:number;
+    private static matchExp = /^OF(?:A([\+\-]?(?:\d*\.\d+|\d+)))?(?:B([\+\-]?(?:\d*\.\d+|\d+)))?\*$/;
+
+    constructor(cmd:string, readonly lineNo?:number) {
+        let match = OFCommand.matchExp.exec(cmd);
+        if (!match) {
+            throw new GerberParseException(`Invalid OF command format ${cmd}`);
+        }
+        this.offsetA = (match[1] != undefined) ? Number.parseFloat(match[1]) : 0;
+        this.offsetB = (match[2] != undefined) ? Number.parseFloat(match[2]) : 0;
+    }
+
+    formatOutput():string {
+        return "OFA" + this.offsetA + "B" + this.offsetB + "*";
+    }
+
+    execute(ctx:GerberState) {
+        ctx.imageTransform.offsetA = this.offsetA;
+        ctx.imageTransform.offsetB = this.offsetB;
+    }
+}
+
+export class SFCommand implements GerberCommand {
+    readonly name = "SF";
+    readonly isAdvanced = true;
+    readonly scaleA:number;
+    readonly scaleB:number;
+    private static matchExp = /^SF(?:A([\+\-]?(?:\d*\.\d+|\d+)))?(?:B([\+\-]?(?:\d*\.\d+|\d+)))?\*$/;
+
+    constructor(cmd:string, readonly lineNo?:number) {
+        let match = SFCommand.matchExp.exec(cmd);
+        if (!match) {
+            throw new GerberParseException(`Invalid SF command format ${cmd}`);
+        }
+        this.scaleA = (match[1] != undefined) ? Number.parseFloat(match[1]) : 1;
+        this.scaleB = (match[2] != undefined) ? Number.parseFloat(match[2]) : 1;
+        if (this.scaleA == 0 || this.scaleB == 0) {
+            throw new GerberParseException(`Invalid SF scale factor ${cmd}`);
+        }
+    }
+
+    formatOutput():string {
+        return "SFA" + this.scaleA + "B" + this.scaleB + "*";
+    }
+
+    execute(ctx:GerberState) {
+        ctx.imageTransform.scaleA = this.scaleA;
+        ctx.imageTransform.scaleB = this.scaleB;
+    }
+}
+
+export class ASCommand implements GerberCommand {
+    readonly name = "AS";
+    readonly isAdvanced = true;
+    readonly axisSelect:AxisSelect;
+    private static matchExp = /^AS(AXBY|AYBX)\*$/;
+
+    constructor(cmd:string, readonly lineNo?:number) {
+        let match = ASCommand.matchExp.exec(cmd);
+        if (!match) {
+            throw new GerberParseException(`Invalid AS command format ${cmd}`);
+        }
+        this.axisSelect = (match[1] == "AYBX") ? AxisSelect.AYBX : AxisSelect.AXBY;
+    }
+
+    formatOutput():string {
+        return "AS" + AxisSelect[this.axisSelect] + "*";
+    }
+
+    execute(ctx:GerberState) {
+        ctx.imageTransform.axisSelect = this.axisSelect;
+    }
+}
+
+export class INCommand implements GerberCommand {
+    readonly name = "IN";
+    readonly isAdvanced = true;
+    readonly imageName:string;
+    private static matchExp = /^IN(.*)\*$/;
+
+    constructor(cmd:string, readonly lineNo?:number) {
+        let match = INCommand.matchExp.exec(cmd);
+        if (!match) {
+            throw new GerberParseException(`Invalid IN command format ${cmd}`);
+        }
+        this.imageName = match[1];
+    }
+
+    formatOutput():string {
+        return "IN" + this.imageName + "*";
+    }
+
+    execute(ctx:GerberState) {
+        ctx.imageName = this.imageName;
+    }
+}
+
+export class LNCommand implements GerberCommand {
+    readonly name = "LN";
+    readonly isAdvanced = true;
+    readonly levelName:string;
+    private static matchExp = /^LN(.*)\*$/;
+
+    constructor(cmd:string, readonly lineNo?:number) {
+        let match = LNCommand.matchExp.exec(cmd);
+        if (!match) {
+            throw new GerberParseException(`Invalid LN command format ${cmd}`);
+        }
+        this.levelName = match[1];
+    }
+
+    formatOutput():string {
+        return "LN" + this.levelName + "*";
+    }
+
+    execute(ctx:GerberState) {
+        ctx.levelName = this.levelName;
+    }
+}
+
 export class G36Command extends BaseGCodeCommand implements GerberCommand {
     readonly name = "G36";
     constructor(cmd:string, lineNo?:number) {
@@ -1299,8 +1498,7 @@ export class TCommand implements GerberCommand {
     }
 
     execute(ctx:GerberState) {
-        //TODO(vne): implement attributes.
-        //console.log("Tx command is not implemnted");
+        ctx.setAttribute(this.attribute);
     }
 }
 
@@ -1327,7 +1525,6 @@ export class TDCommand implements GerberCommand {
     }
 
     execute(ctx:GerberState) {
-        //TODO(vne): implement attributes.
-        //console.log("TD command is not implemnted");
+        ctx.deleteAttribute(this.attributeName);
     }
 }
@@ -31,44 +31,77 @@ import {
     Repeat,
     GerberState,
     SimpleBounds,
+    ApertureBase,
+    ApertureDefinition,
+    ObjectState,
+    ObjectMirroring,
+    ImageTransform,
+    ImagePolarity,
+    Epsilon,
+    contourOrientation,
+    CoordinateUnits,
+    scalePrimitives,
+    unitsFactor,
 } from "./primitives";
 import {Point} from "./point";
-import {PolygonSet, waitClipperLoad, connectWires, polySetBounds} from "./polygonSet";
+import {Polygon, PolygonSet, waitClipperLoad, connectWires, polySetBounds} from "./polygonSet";
 import {formatFloat} from "./utils";
 import {GerberParser} from "./grbparser";
+import {ExcellonParser} from "./excellon";
 import {Build} from "./build";
 import { M02Command } from "./commands";
 
+/**
+ * Options of the drill file converters.
+ */
+export interface ConverterOptions {
+    // Millimeters or inches for all geometry, otherwise the file units.
+    readonly outputUnits?:CoordinateUnits;
+}
+
+/**
+ * Options of the Gerber file converters.
+ */
+export interface GerberConverterOptions extends ConverterOptions {
+    // Skip or repair invalid commands instead of failing.
+    readonly recoveryMode?:boolean;
+    // Maximum deviation of the arc approximations in the output units, or in
+    // the file units without them. By default every arc uses the same number
+    // of steps.
+    readonly chordTolerance?:number;
+}
+
 export abstract class ConverterBase<T> {
     convert(primitives:Array<GraphicsPrimitive>):Array<T> {
         let result:Array<T> = this.header(primitives);
-        primitives.forEach(p => {
-            if (p instanceof Line) {
-                let line = p as Line;
-                result.push(this.convertLine(line));
-            } else if (p instanceof Arc) {
-                let arc = p as Arc;
-                result.push(this.convertArc(arc));
-            } else if (p instanceof Circle) {
-                let circle = p as Circle;
-                result.push(this.convertCircle(circle));
-            } else if (p instanceof Flash) {
-                let flash = p as Flash;
-                result.push(this.convertFlash(flash));
-            } else if (p instanceof Region) {
-                let region = p as Region;
-                result.push(this.convertRegion(region));
-            } else if (p instanceof Repeat) {
-                let repeat = p as Repeat;
-                result.push(this.convertRepeat(repeat));
-            } else {
-                throw new Error("Unknown primitive " + p);
-            }
-        });
+        primitives.forEach(p => result.push(this.convertPrimitive(p)));
         result.push(...this.footer(primitives));
         return result;
     }
 
+    convertPrimitive(p:GraphicsPrimitive):T {
+        if (p instanceof Line) {
+            let line = p as Line;
+            return this.convertLine(line);
+        } else if (p instanceof Arc) {
+            let arc = p as Arc;
+            return this.convertArc(arc);
+        } else if (p instanceof Circle) {
+            let circle = p as Circle;
+            return this.convertCircle(circle);
+        } else if (p instanceof Flash) {
+            let flash = p as Flash;
+            return this.convertFlash(flash);
+        } else if (p instanceof Region) {
+            let region = p as Region;
+            return this.convertRegion(region);
+        } else if (p instanceof Repeat) {
+            let repeat = p as Repeat;
+            return this.convertRepeat(repeat);
+        }
+        throw new Error("Unknown primitive " + p);
+    }
+
     header(primitives:Array<GraphicsPrimitive>):Array<T> {
         return [];
     }
@@ -105,6 +138,8 @@ export class SVGConverter extends ConverterBase<string> {
     public margin = 10;
     public layerColor = 0xff1f1c;
     public precision:number = 3;
+    // Units of the primitives, when set the image size is in physical units.
+    public units:CoordinateUnits = undefined;
     private bounds_:Bounds;
     private width_:number;
     private height_:number
@@ -152,7 +187,7 @@ export class SVGConverter extends ConverterBase<string> {
         
         return ['<?xml version="1.0" standalone="no"?>',
                 '<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.0//EN" "http://www.w3.org/TR/2001/REC-SVG-20010904/DTD/svg10.dtd">',
-                `<svg width="100%" height="100%" viewBox="0 0 ${this.width_} ${this.height_}"
+                `<svg ${imageSize(this.width_, this.height_, this.scale, this.units)} viewBox="0 0 ${this.width_} ${this.height_}"
                       version="1.1" xmlns="http://www.w3.org/2000/svg">`,
                 /*`<rect x="${this.margin}" y="${this.margin}"
                        width="${bounds.width * this.scale}" height="${bounds.height * this.scale}"
@@ -224,7 +259,7 @@ export class SVGConverter extends ConverterBase<string> {
             (n & 0xf).toString(16);
     }
     
-    private static colorToHtml(clr:number):string {
+    public static colorToHtml(clr:number):string {
         let ss:string;
         ss = '#' + SVGConverter.toString2((clr >>> 16) & 0xff)
             + SVGConverter.toString2((clr >>> 8) & 0xff)
@@ -232,47 +267,528 @@ export class SVGConverter extends ConverterBase<string> {
         return ss;
     }
 
+    /**
+     * With output units the scale is in pixels per output unit.
+     */
     public static GerberToSvg(
         content:string,
         layerColor:number = 0xff1f1c,
         scale:number = 100,
-        margin:number = 10):string {
+        margin:number = 10,
+        options:GerberConverterOptions = {}):string {
         let parser = new GerberParser();
+        parser.recoveryMode = options.recoveryMode || false;
         parser.parseBlock(content);
         let ctx = new GerberState();
+        ctx.chordTolerance = options.chordTolerance;
+        ctx.chordToleranceUnits = options.outputUnits;
         parser.execute(ctx);
+        parser.checkErrors();
         if (!ctx.isDone) {
             ctx.endFile(new M02Command("M02"));
         }
-        let primitives = ctx.primitives;
+        let result = gerberResult(ctx, options.outputUnits);
+        let primitives = result.primitives;
         let cvt = new SVGConverter();
         cvt.layerColor = layerColor;
         cvt.scale = scale;
         cvt.margin = margin;
+        cvt.units = options.outputUnits;
         let svg = cvt.convert(primitives);
         return svg.filter(s => s.length > 0).join('\n');
     }
 }
 
+/**
+ * Converts primitives to SVG keeping the exact geometry instead of polygons.
+ * Lines, arcs and circles drawn with circular apertures become stroked paths
+ * with round caps, region arcs become SVG arcs and flashes of standard
+ * apertures reuse one shape per aperture. Clear polarity objects mask the
+ * objects drawn before them. Other shapes fall back to their polygons.
+ */
+export class ExactSVGConverter extends ConverterBase<string> {
+    public scale = 100;
+    public margin = 10;
+    public layerColor = 0xff1f1c;
+    public precision:number = 6;
+    // The primitives are in file coordinates, the image transform of the
+    // file is applied to the whole image.
+    public imageTransform:ImageTransform = undefined;
+    // Units of the primitives, when set the image size is in physical units.
+    public units:CoordinateUnits = undefined;
+    private bounds_:Bounds;
+    private width_:number;
+    private height_:number;
+    private content_:Array<string> = [];
+    private clear_:Array<string> = [];
+    private masks_:Array<string> = [];
+    private apertures_ = new Map<ApertureBase, string>();
+    private apertureShapes_:Array<string> = [];
+    private isNegative_ = false;
+
+    convertLine(l:Line):string {
+        let width = this.strokeWidth(l.aperture, l.state);
+        if (width == undefined) {
+            return this.addObjects(l.objects);
+        }
+        this.add(
+            `<path d="M ${this.point(l.from)} L ${this.point(l.to)}" ${this.strokeStyle(width)}/>`,
+            l.state.polarity);
+        return "";
+    }
+
+    convertArc(a:Arc):string {
+        let width = this.strokeWidth(a.aperture, a.state);
+        if (width == undefined || a.start.distance(a.end) < Epsilon) {
+            return this.addObjects(a.objects);
+        }
+        let path = `M ${this.point(a.start)} ${this.arcTo(a.center, a.start, a.end, a.isCCW)}`;
+        this.add(`<path d="${path}" ${this.strokeStyle(width)}/>`, a.state.polarity);
+        return "";
+    }
+
+    convertCircle(c:Circle):string {
+        let width = this.strokeWidth(c.aperture, c.state);
+        if (width == undefined) {
+            return this.addObjects(c.objects);
+        }
+        this.add(
+            `<circle cx="${this.num(c.center.x)}" cy="${this.num(c.center.y)}" r="${this.num(c.radius)}" `
+                + `${this.strokeStyle(width)}/>`,
+            c.state.polarity);
+        return "";
+    }
+
+    convertFlash(f:Flash):string {
+        let shapeId = this.apertureShape(f.aperture);
+        if (!shapeId) {
+            return this.addObjects(f.objects);
+        }
+        let transform = `translate(${this.point(f.center)})`;
+        if (f.state.scale != 1) {
+            transform += ` scale(${this.num(f.state.scale)})`;
+        }
+        if (f.state.rotation != 0) {
+            transform += ` rotate(${this.num(f.state.rotation)})`;
+        }
+        switch (f.state.mirroring) {
+            case ObjectMirroring.X_AXIS:
+                transform += ' scale(-1 1)';
+                break;
+            case ObjectMirroring.Y_AXIS:
+                transform += ' scale(1 -1)';
+                break;
+            case ObjectMirroring.XY_AXIS:
+                transform += ' scale(-1 -1)';
+                break;
+        }
+        this.add(`<use xlink:href="#${shapeId}" transform="${transform}"/>`, f.state.polarity);
+        return "";
+    }
+
+    convertRegion(r:Region):string {
+        let path = r.contours.map(contour => this.contourPath(contour)).join(' ');
+        this.add(`<path d="${path}"/>`, r.state.polarity);
+        return "";
+    }
+
+    convertRepeat(r:Repeat):string {
+        r.primitives.forEach(p => this.convertPrimitive(p));
+        return "";
+    }
+
+    header(primitives:Array<GraphicsPrimitive>):Array<string> {
+        this.content_ = [];
+        this.clear_ = [];
+        this.masks_ = [];
+        this.apertures_.clear();
+        this.apertureShapes_ = [];
+        this.bounds_ = EmptyBounds();
+        if (primitives.length > 0) {
+            this.bounds_ = primitives[0].bounds;
+            primitives.forEach(p => this.bounds_.merge(p.bounds));
+        }
+        this.width_ = this.bounds_.width * this.scale + this.margin * 2;
+        this.height_ = this.bounds_.height * this.scale + this.margin * 2;
+        this.isNegative_ = this.imageTransform != undefined
+            && this.imageTransform.polarity == ImagePolarity.NEGATIVE;
+        if (this.isNegative_) {
+            // Negative images start with the whole image dark.
+            this.content_.push(`<path d="${this.polySetPath([this.imageCorners()])}"/>`);
+        }
+        return ['<?xml version="1.0" standalone="no"?>',
+                '<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd">',
+                `<svg ${imageSize(this.width_, this.height_, this.scale, this.units)} viewBox="0 0 ${this.width_} ${this.height_}"
+                      version="1.1" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">`];
+    }
+
+    footer():Array<string> {
+        this.flushClear();
+        let color = SVGConverter.colorToHtml(this.layerColor);
+        // Flip the y axis and move the image to the view box.
+        let transform = `matrix(${this.scale} 0 0 ${-this.scale} `
+            + `${this.num(-this.bounds_.min.x * this.scale + this.margin)} `
+            + `${this.num(this.height_ + this.bounds_.min.y * this.scale - this.margin)})`;
+        if (this.imageTransform && !this.imageTransform.isIdentity) {
+            transform += ` matrix(${this.imageMatrix().map(n => this.num(n)).join(' ')})`;
+        }
+        return ['<defs>',
+                ...this.apertureShapes_,
+                ...this.masks_,
+                '</defs>',
+                `<g transform="${transform}" fill="${color}" stroke="${color}" stroke-width="0">`,
+                ...this.content_,
+                '</g>',
+                '</svg>'];
+    }
+
+    private add(element:string, polarity:ObjectPolarity) {
+        let isDark = polarity != ObjectPolarity.LIGHT;
+        if (this.isNegative_ && polarity != ObjectPolarity.THIN) {
+            isDark = !isDark;
+        }
+        if (isDark) {
+            this.flushClear();
+            this.content_.push(element);
+        } else {
+            this.clear_.push(element);
+        }
+    }
+
+    /**
+     * Wraps everything drawn so far in a mask with the pending clear
+     * polarity objects cut out.
+     */
+    private flushClear() {
+        if (this.clear_.length == 0) {
+            return;
+        }
+        if (this.content_.length > 0) {
+            let id = `mask${this.masks_.length + 1}`;
+            let corners = this.imageCorners();
+            let bounds = polySetBounds([corners]);
+            let pad = this.margin / this.scale;
+            let rect = `x="${this.num(bounds.min.x - pad)}" y="${this.num(bounds.min.y - pad)}" `
+                + `width="${this.num(bounds.width + pad * 2)}" height="${this.num(bounds.height + pad * 2)}"`;
+            this.masks_.push(
+                `<mask id="${id}" maskUnits="userSpaceOnUse" ${rect}>`
+                + `<rect ${rect} fill="white"/>`
+                + '<g fill="black" stroke="black">'
+                + this.clear_.join('')
+                + '</g></mask>');
+            this.content_ = [`<g mask="url(#${id})">`, ...this.content_, '</g>'];
+        }
+        this.clear_ = [];
+    }
+
+    private addObjects(objects:GraphicsObjects):string {
+        objects.forEach(o => {
+            if (o.polarity == ObjectPolarity.THIN) {
+                this.add(
+                    `<path d="${this.polySetPath(o.polySet, false)}" fill="none" `
+                        + 'stroke-width="1" vector-effect="non-scaling-stroke"/>',
+                    o.polarity);
+            } else {
+                this.add(`<path d="${this.polySetPath(o.polySet)}"/>`, o.polarity);
+            }
+        });
+        return "";
+    }
+
+    /**
+     * Width of the stroke for draws with a circular aperture, undefined
+     * for other apertures.
+     */
+    private strokeWidth(aperture:ApertureBase, state:ObjectState):number {
+        if (!(aperture instanceof ApertureDefinition)
+            || aperture.templateName != "C"
+            || aperture.modifiers.length != 1) {
+            return undefined;
+        }
+        let width = aperture.modifiers[0] * state.scale;
+        return (width < Epsilon) ? undefined : width;
+    }
+
+    private strokeStyle(width:number):string {
+        return `fill="none" stroke-width="${this.num(width)}" stroke-linecap="round" stroke-linejoin="round"`;
+    }
+
+    /**
+     * Id of the shape element for flashes of the aperture, undefined when
+     * the flash is converted to polygons.
+     */
+    private apertureShape(aperture:ApertureBase):string {
+        if (!(aperture instanceof ApertureDefinition)) {
+            return undefined;
+        }
+        if (this.apertures_.has(aperture)) {
+            return this.apertures_.get(aperture);
+        }
+        let id = `aperture${this.apertures_.size + 1}`;
+        let modifiers = aperture.modifiers;
+        let shape:string;
+        if (aperture.templateName == "C" && modifiers.length == 1) {
+            shape = `<circle id="${id}" cx="0" cy="0" r="${this.num(modifiers[0] / 2)}"/>`;
+        } else if ((aperture.templateName == "R" || aperture.templateName == "O") && modifiers.length == 2) {
+            let radius = (aperture.templateName == "O") ? Math.min(modifiers[0], modifiers[1]) / 2 : 0;
+            shape = `<rect id="${id}" x="${this.num(-modifiers[0] / 2)}" y="${this.num(-modifiers[1] / 2)}" `
+                + `width="${this.num(modifiers[0])}" height="${this.num(modifiers[1])}"`
+                + ((radius > 0) ? ` rx="${this.num(radius)}" ry="${this.num(radius)}"/>` : '/>');
+        } else {
+            shape = `<path id="${id}" d="${this.polySetPath(aperture.toPolySet())}"/>`;
+        }
+        this.apertureShapes_.push(shape);
+        this.apertures_.set(aperture, id);
+        return id;
+    }
+
+    private contourPath(contour:RegionContour):string {
+        let segments = contour;
+        // Clockwise contours are reversed, like the region polygons, so
+        // overlapping contours add up with the non zero fill rule.
+        if (contourOrientation(contour) > 0) {
+            segments = contour
+                .map(s => {
+                    if (s instanceof LineSegment) {
+                        return new LineSegment(s.to, s.from, s.cmd);
+                    } else if (s instanceof ArcSegment) {
+                        return new ArcSegment(s.center, s.radius, s.end, s.start, !s.isCCW, s.cmd);
+                    }
+                    return s;
+                })
+                .reverse();
+        }
+        let result:Array<string> = [];
+        let current:Point = undefined;
+        segments.forEach(s => {
+            if (s instanceof CircleSegment) {
+                let right = new Point(s.center.x + s.radius, s.center.y);
+                let left = new Point(s.center.x - s.radius, s.center.y);
+                result.push(
+                    `M ${this.point(right)}`,
+                    this.arcTo(s.center, right, left, true),
+                    this.arcTo(s.center, left, right, true));
+                current = right;
+                return;
+            }
+            let start = (s instanceof LineSegment) ? s.from : s.start;
+            if (!current || current.distance(start) > Epsilon) {
+                result.push(`M ${this.point(start)}`);
+            }
+            if (s instanceof LineSegment) {
+                result.push(`L ${this.point(s.to)}`);
+                current = s.to;
+            } else {
+                result.push(this.arcTo(s.center, s.start, s.end, s.isCCW));
+                current = s.end;
+            }
+        });
+        result.push('Z');
+        return result.join(' ');
+    }
+
+    private arcTo(center:Point, start:Point, end:Point, isCCW:boolean):string {
+        let radius = (center.distance(start) + center.distance(end)) / 2;
+        let angle = center.angleFrom(end) - center.angleFrom(start);
+        if (!isCCW) {
+            angle = -angle;
+        }
+        if (angle <= 0) {
+            angle += Math.PI * 2;
+        }
+        let largeArc = (angle > Math.PI) ? 1 : 0;
+        let sweep = (isCCW) ? 1 : 0;
+        return `A ${this.num(radius)} ${this.num(radius)} 0 ${largeArc} ${sweep} ${this.point(end)}`;
+    }
+
+    private polySetPath(polySet:PolygonSet, close:boolean = true):string {
+        return polySet
+            .filter(polygon => polygon.length > 1)
+            .map(polygon => {
+                let result = `M ${this.num(polygon[0])} ${this.num(polygon[1])}`;
+                for (let idx = 2; idx < polygon.length; idx += 2) {
+                    result += ` L ${this.num(polygon[idx])} ${this.num(polygon[idx + 1])}`;
+                }
+                return (close) ? result + ' Z' : result;
+            })
+            .join(' ');
+    }
+
+    /**
+     * The image transform as an SVG matrix (a b c d e f).
+     */
+    private imageMatrix():Array<number> {
+        let origin = this.imageTransform.transformPoint(new Point(0, 0));
+        let x = this.imageTransform.transformPoint(new Point(1, 0));
+        let y = this.imageTransform.transformPoint(new Point(0, 1));
+        return [x.x - origin.x, x.y - origin.y, y.x - origin.x, y.y - origin.y, origin.x, origin.y];
+    }
+
+    /**
+     * Corners of the image bounds in file coordinates.
+     */
+    private imageCorners():Polygon {
+        let min = this.bounds_.min;
+        let max = this.bounds_.max;
+        let corners = Float64Array.of(
+            min.x, min.y, max.x, min.y, max.x, max.y, min.x, max.y, min.x, min.y);
+        if (this.imageTransform && !this.imageTransform.isIdentity) {
+            let [a, b, c, d, e, f] = this.imageMatrix();
+            let det = a * d - b * c;
+            for (let idx = 0; idx < corners.length; idx += 2) {
+                let x = corners[idx] - e;
+                let y = corners[idx + 1] - f;
+                corners[idx] = (d * x - c * y) / det;
+                corners[idx + 1] = (a * y - b * x) / det;
+            }
+        }
+        return corners;
+    }
+
+    private point(p:Point):string {
+        return `${this.num(p.x)} ${this.num(p.y)}`;
+    }
+
+    private num(n:number):string {
+        return formatFloat(n, this.precision);
+    }
+
+    public static GerberToSvg(
+        content:string,
+        layerColor:number = 0xff1f1c,
+        scale:number = 100,
+        margin:number = 10,
+        options:GerberConverterOptions = {}):string {
+        let parser = new GerberParser();
+        parser.recoveryMode = options.recoveryMode || false;
+        parser.parseBlock(content);
+        let ctx = new GerberState();
+        ctx.chordTolerance = options.chordTolerance;
+        ctx.chordToleranceUnits = options.outputUnits;
+        parser.execute(ctx);
+        parser.checkErrors();
+        if (!ctx.isDone) {
+            ctx.endFile(new M02Command("M02"));
+        }
+        let outputUnits = options.outputUnits;
+        let result = gerberResult(ctx, outputUnits);
+        let cvt = new ExactSVGConverter();
+        cvt.layerColor = layerColor;
+        cvt.scale = scale;
+        cvt.margin = margin;
+        cvt.units = outputUnits;
+        cvt.imageTransform = ctx.imageTransform;
+        if (outputUnits != undefined) {
+            cvt.imageTransform = ctx.imageTransform.scaleBy(unitsFactor(ctx.coordinateUnits, outputUnits));
+        }
+        let svg = cvt.convert(result.primitives);
+        return svg.filter(s => s.length > 0).join('\n');
+    }
+}
+
+/**
+ * Width and height attributes of the SVG image. Without units the image
+ * fills the view port.
+ */
+function imageSize(width:number, height:number, scale:number, units:CoordinateUnits):string {
+    if (units == undefined) {
+        return 'width="100%" height="100%"';
+    }
+    let suffix = (units == CoordinateUnits.MILIMETERS) ? "mm" : "in";
+    return `width="${formatFloat(width / scale, 6)}${suffix}" `
+        + `height="${formatFloat(height / scale, 6)}${suffix}"`;
+}
+
+export class PrimitiveConverterResult {
+    readonly primitives:GraphicsPrimitive[];
+    // Undefined when the file did not set its units.
+    readonly units:CoordinateUnits;
+    // Transformation of the deprecated image commands. The objects of the
+    // primitives are transformed, their coordinates are not, see
+    // flattenPrimitives.
+    readonly imageTransform:ImageTransform;
+}
+
+/**
+ * Converts the primitives to the output units. Without output units the
+ * primitives are returned in the units of the file.
+ */
+function convertUnits(
+    primitives:Array<GraphicsPrimitive>,
+    units:CoordinateUnits,
+    outputUnits?:CoordinateUnits,
+    imageTransform:ImageTransform = new ImageTransform()):PrimitiveConverterResult {
+    if (outputUnits == undefined) {
+        return {primitives:primitives, units:units, imageTransform:imageTransform};
+    }
+    let factor = unitsFactor(units, outputUnits);
+    return {
+        primitives:scalePrimitives(primitives, factor),
+        units:outputUnits,
+        imageTransform:imageTransform.scaleBy(factor)
+    };
+}
+
+function gerberResult(ctx:GerberState, outputUnits?:CoordinateUnits):PrimitiveConverterResult {
+    // Converting needs the file units, the accessor throws when they are not set.
+    let units = (outputUnits != undefined) ? ctx.coordinateUnits : ctx.fileUnits;
+    return convertUnits(ctx.primitives, units, outputUnits, ctx.imageTransform);
+}
+
 export class PolygonConverterResult {
     readonly solids:PolygonSet;
     readonly thins:PolygonSet;
     readonly bounds:SimpleBounds;
     readonly primitives:GraphicsPrimitive[];
+    // Units of the geometry, undefined when the file did not set them.
+    readonly units:CoordinateUnits;
+    // Transformation of the deprecated image commands, applied to the
+    // polygons but not to the primitives.
+    readonly imageTransform:ImageTransform;
 }
 
-export function GerberToPolygons(content:string, union:boolean = false):PolygonConverterResult {
+/**
+ * With output units all geometry, aperture sizes and bounds are converted to
+ * millimeters or inches, otherwise they are in the file units.
+ */
+export function GerberToPolygons(
+    content:string,
+    union:boolean = false,
+    options:GerberConverterOptions = {}):PolygonConverterResult {
     //let start = performance.now();
     let parser = new GerberParser();
+    parser.recoveryMode = options.recoveryMode || false;
     parser.parseBlock(content);
     //let parseEnd = performance.now();
     let ctx = new GerberState();
+    ctx.chordTolerance = options.chordTolerance;
+    ctx.chordToleranceUnits = options.outputUnits;
     parser.execute(ctx);
+    parser.checkErrors();
     if (!ctx.isDone) {
         ctx.endFile(new M02Command("M02"));
     }
     //let executeEnd = performance.now();
-    let primitives = ctx.primitives;
+    let result = gerberResult(ctx, options.outputUnits);
+    return PrimitivesToPolygons(result.primitives, union, result.units, result.imageTransform);
+}
+
+export function ExcellonToPolygons(
+    content:string,
+    union:boolean = false,
+    options:ConverterOptions = {}):PolygonConverterResult {
+    let parser = new ExcellonParser();
+    parser.parseBlock(content);
+    parser.endFile();
+    let result = convertUnits(parser.primitives, parser.units, options.outputUnits);
+    return PrimitivesToPolygons(result.primitives, union, result.units);
+}
+
+export function PrimitivesToPolygons(
+    primitives:Array<GraphicsPrimitive>,
+    union:boolean = false,
+    units?:CoordinateUnits,
+    imageTransform:ImageTransform = new ImageTransform()):PolygonConverterResult {
     let objects:GraphicsObjects = [];
     let vertices = 0;
     if (primitives.length > 0) {
@@ -311,17 +827,49 @@ export function GerberToPolygons(content:string, union:boolean = false):PolygonC
         solids: image.polygonSet,
         thins: connectWires(thins),
         bounds: bounds,
-        primitives: primitives
+        primitives: primitives,
+        units: units,
+        imageTransform: imageTransform
     };
 }
 
 export class PrimitiveConverter {
-    public static GerberToPrimitives(content:string):Array<GraphicsPrimitive> {
+    public static GerberToPrimitives(
+        content:string,
+        options:GerberConverterOptions = {}):Array<GraphicsPrimitive> {
+        return PrimitiveConverter.GerberToPrimitiveResult(content, options).primitives;
+    }
+
+    public static ExcellonToPrimitives(
+        content:string,
+        options:ConverterOptions = {}):Array<GraphicsPrimitive> {
+        return PrimitiveConverter.ExcellonToPrimitiveResult(content, options).primitives;
+    }
+
+    /**
+     * The primitives together with their units.
+     */
+    public static GerberToPrimitiveResult(
+        content:string,
+        options:GerberConverterOptions = {}):PrimitiveConverterResult {
         let parser = new GerberParser();
+        parser.recoveryMode = options.recoveryMode || false;
         parser.parseBlock(content);
         let ctx = new GerberState();
+        ctx.chordTolerance = options.chordTolerance;
+        ctx.chordToleranceUnits = options.outputUnits;
         parser.execute(ctx);
-        return ctx.primitives;
+        parser.checkErrors();
+        return gerberResult(ctx, options.outputUnits);
+    }
+
+    public static ExcellonToPrimitiveResult(
+        content:string,
+        options:ConverterOptions = {}):PrimitiveConverterResult {
+        let parser = new ExcellonParser();
+        parser.parseBlock(content);
+        parser.endFile();
+        return convertUnits(parser.primitives, parser.units, options.outputUnits);
     }
 }
 
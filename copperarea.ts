@@ -0,0 +1,209 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains the copper area statistics of the layers: the area of
+ * the copper, its coverage of the board and the balance between the top and
+ * bottom layers. The board can be split in tiles to find the regions where
+ * the copper density is uneven.
+ */
+import {
+    Bounds,
+    CoordinateUnits,
+    GraphicsObjects,
+    GraphicsPrimitive,
+    composeSolidImage,
+} from "./primitives";
+import {Point} from "./point";
+import {
+    PolygonSet,
+    boundsOverlap,
+    enclosedArea,
+    intersectPolygonSet,
+    polySetBounds,
+    polygonSetArea,
+    splitIslands,
+} from "./polygonSet";
+import {Board} from "./board";
+import {BoardLayer, BoardSide} from "./gerberutils";
+import {formatFloat} from "./utils";
+
+export class CopperTile {
+    constructor(
+        readonly bounds:Bounds,
+        readonly copperArea:number,
+        // Board area in the tile, the tile area without a board.
+        readonly area:number) {
+    }
+
+    get density():number {
+        return (this.area > 0) ? this.copperArea / this.area : 0;
+    }
+}
+
+export class LayerCopper {
+    constructor(
+        readonly name:string,
+        readonly area:number,
+        // Undefined without a board outline.
+        readonly boardArea?:number,
+        // Rows of tiles from the bottom, empty when not requested.
+        readonly tiles:Array<Array<CopperTile>> = []) {
+    }
+
+    /**
+     * Copper area in percent of the board area.
+     */
+    get coverage():number {
+        return (this.boardArea > 0) ? this.area * 100 / this.boardArea : undefined;
+    }
+}
+
+/**
+ * Island of copper with its holes and bounds, the unit of the tile
+ * intersections.
+ */
+interface Island {
+    readonly polygonSet:PolygonSet;
+    readonly bounds:Bounds;
+}
+
+function islands(polygonSet:PolygonSet):Array<Island> {
+    return splitIslands(polygonSet).map(island => {
+        return {polygonSet:island, bounds:polySetBounds(island)};
+    });
+}
+
+function areaInTile(candidates:Array<Island>, tile:Bounds):number {
+    let polygonSet:PolygonSet = [];
+    candidates
+        .filter(island => boundsOverlap(island.bounds, tile))
+        .forEach(island => polygonSet.push(...island.polygonSet));
+    if (polygonSet.length == 0) {
+        return 0;
+    }
+    let rectangle = Float64Array.of(
+        tile.min.x, tile.min.y,
+        tile.max.x, tile.min.y,
+        tile.max.x, tile.max.y,
+        tile.min.x, tile.max.y);
+    return polygonSetArea(intersectPolygonSet(polygonSet, [rectangle]).polygonSet);
+}
+
+/**
+ * The union of the dark objects of the primitives, with the clear objects
+ * applied.
+ */
+export function copperImage(primitives:Array<GraphicsPrimitive>):PolygonSet {
+    let objects:GraphicsObjects = [];
+    primitives.forEach(p => objects.push(...p.objects));
+    return composeSolidImage(objects, true).polygonSet;
+}
+
+/**
+ * Copper statistics of a layer. The board is the area inside of the outline,
+ * see enclosedArea. Tiles cover the board bounds, or the copper bounds
+ * without a board.
+ */
+export function layerCopper(
+    name:string,
+    primitives:Array<GraphicsPrimitive>,
+    board?:PolygonSet,
+    tileSize?:number):LayerCopper {
+    let copper = copperImage(primitives);
+    let area = polygonSetArea(copper);
+    let boardArea = (board) ? polygonSetArea(board) : undefined;
+    let tiles:Array<Array<CopperTile>> = [];
+    let region = (board && board.length > 0) ? board : copper;
+    if (tileSize > 0 && region.length > 0) {
+        let bounds = polySetBounds(region);
+        let copperIslands = islands(copper);
+        let boardIslands = (board) ? islands(board) : undefined;
+        let columns = Math.max(1, Math.ceil(bounds.width / tileSize - 1E-9));
+        let rows = Math.max(1, Math.ceil(bounds.height / tileSize - 1E-9));
+        for (let rowIdx = 0; rowIdx < rows; rowIdx++) {
+            let y = bounds.min.y + rowIdx * tileSize;
+            let row:Array<CopperTile> = [];
+            for (let columnIdx = 0; columnIdx < columns; columnIdx++) {
+                let x = bounds.min.x + columnIdx * tileSize;
+                let tile = new Bounds(
+                    new Point(x, y),
+                    new Point(Math.min(x + tileSize, bounds.max.x), Math.min(y + tileSize, bounds.max.y)));
+                row.push(new CopperTile(
+                    tile,
+                    areaInTile(copperIslands, tile),
+                    (boardIslands) ? areaInTile(boardIslands, tile) : tile.width * tile.height));
+            }
+            tiles.push(row);
+        }
+    }
+    return new LayerCopper(name, area, boardArea, tiles);
+}
+
+/**
+ * Difference of the copper areas relative to their sum. Zero is balanced,
+ * positive when the first layer has more copper.
+ */
+export function copperBalance(one:LayerCopper, other:LayerCopper):number {
+    let sum = one.area + other.area;
+    return (sum > 0) ? (one.area - other.area) / sum : 0;
+}
+
+export class CopperReport {
+    constructor(readonly layers:Array<LayerCopper>, readonly units:CoordinateUnits) {
+    }
+
+    /**
+     * Balance of the top and bottom copper, undefined for single layer
+     * boards.
+     */
+    get balance():number {
+        if (this.layers.length < 2) {
+            return undefined;
+        }
+        return copperBalance(this.layers[0], this.layers[this.layers.length - 1]);
+    }
+
+    toString():string {
+        let units = (this.units == CoordinateUnits.INCHES) ? "in" : "mm";
+        let result = "";
+        this.layers.forEach(layer => {
+            result += `${layer.name}: ${formatFloat(layer.area, 2)} ${units}^2`;
+            if (layer.coverage != undefined) {
+                result += `, ${formatFloat(layer.coverage, 1)}% of ${formatFloat(layer.boardArea, 2)} ${units}^2`;
+            }
+            result += "\n";
+            // The top row first, the way the board is seen.
+            layer.tiles.slice().reverse().forEach(row => {
+                result += "  " + row.map(tile => ("    " + (tile.density * 100).toFixed(0)).slice(-4)).join("") + "\n";
+            });
+        });
+        let balance = this.balance;
+        if (balance != undefined) {
+            result += `Top to bottom balance ${formatFloat(balance * 100, 1)}%\n`;
+        }
+        return result;
+    }
+
+    /**
+     * Statistics of the copper layers from the top to the bottom. The
+     * layers must be in the same units.
+     */
+    public static FromBoard(board:Board, tileSize?:number):CopperReport {
+        let copperLayers = [
+            ...board.getLayers(BoardSide.Top, BoardLayer.Copper),
+            ...board.getLayers(BoardSide.Internal, BoardLayer.Copper),
+            ...board.getLayers(BoardSide.Bottom, BoardLayer.Copper)];
+        let outline = (board.outline) ? enclosedArea(copperImage(board.outline.primitives)) : undefined;
+        let layers = copperLayers.map(layer =>
+            layerCopper(layer.fileName, layer.primitives, outline, tileSize));
+        let units = (copperLayers.length > 0) ? copperLayers[0].image.units : undefined;
+        return new CopperReport(layers, units);
+    }
+}
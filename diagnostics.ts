@@ -0,0 +1,121 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains the diagnostics reported while parsing and executing
+ * gerber files. Problems are collected in a report instead of being printed,
+ * so applications can show them to the user.
+ */
+
+export enum DiagnosticSeverity {
+    INFO,
+    WARNING,
+    ERROR
+}
+
+export enum DiagnosticCode {
+    INVALID_COMMAND = "invalid-command",
+    UNTERMINATED_COMMAND = "unterminated-command",
+    SYNTAX_ERROR = "syntax-error",
+    FORMAT_REDEFINED = "format-redefined",
+    APERTURE_REDEFINED = "aperture-redefined",
+    MACRO_REDEFINED = "macro-redefined",
+    INVALID_ARC = "invalid-arc",
+    INCOMPLETE_FILE = "incomplete-file",
+    EXECUTE_ERROR = "execute-error",
+    COMMAND_REPAIRED = "command-repaired",
+    COMMAND_SKIPPED = "command-skipped",
+    TRUNCATED_COMMAND = "truncated-command",
+    MISSING_END = "missing-end",
+    PRECISION_LOSS = "precision-loss",
+    WARNING = "warning"
+}
+
+export class Diagnostic {
+    constructor(
+        readonly severity:DiagnosticSeverity,
+        readonly code:DiagnosticCode,
+        readonly message:string,
+        readonly line?:number,
+        readonly column?:number,
+        readonly command?:string,
+        readonly suggestion?:string) {
+    }
+
+    toString():string {
+        let result = DiagnosticSeverity[this.severity].toLowerCase();
+        if (this.line != undefined) {
+            result = `line ${this.line}`
+                + ((this.column != undefined) ? `:${this.column}` : "")
+                + ` ${result}`;
+        }
+        result += ` [${this.code}]: ${this.message}`;
+        if (this.command != undefined) {
+            result += ` in '${this.command}'`;
+        }
+        if (this.suggestion != undefined) {
+            result += ` (${this.suggestion})`;
+        }
+        return result;
+    }
+}
+
+/**
+ * Collects diagnostics. An optional listener is notified as diagnostics are
+ * added, for example to stream them to a log.
+ */
+export class DiagnosticReport {
+    readonly diagnostics:Array<Diagnostic> = [];
+    public listener:(diagnostic:Diagnostic) => void;
+
+    add(diagnostic:Diagnostic) {
+        this.diagnostics.push(diagnostic);
+        if (this.listener) {
+            this.listener(diagnostic);
+        }
+    }
+
+    error(
+        code:DiagnosticCode,
+        message:string,
+        line?:number,
+        column?:number,
+        command?:string,
+        suggestion?:string) {
+        this.add(new Diagnostic(
+            DiagnosticSeverity.ERROR, code, message, line, column, command, suggestion));
+    }
+
+    warning(
+        code:DiagnosticCode,
+        message:string,
+        line?:number,
+        column?:number,
+        command?:string,
+        suggestion?:string) {
+        this.add(new Diagnostic(
+            DiagnosticSeverity.WARNING, code, message, line, column, command, suggestion));
+    }
+
+    get errors():Array<Diagnostic> {
+        return this.diagnostics.filter(d => d.severity == DiagnosticSeverity.ERROR);
+    }
+
+    get warnings():Array<Diagnostic> {
+        return this.diagnostics.filter(d => d.severity == DiagnosticSeverity.WARNING);
+    }
+
+    get hasErrors():boolean {
+        return this.diagnostics.some(d => d.severity == DiagnosticSeverity.ERROR);
+    }
+
+    toString():string {
+        return this.diagnostics.map(d => d.toString()).join("\n");
+    }
+}
@@ -0,0 +1,581 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains a design rule checker for the common fabrication
+ * limits: the track width, the clearance between unconnected copper, the
+ * annular ring of plated holes and the distance of the copper to the board
+ * outline. Violations point to the location and to the commands that draw
+ * the offending copper.
+ */
+import {
+    ApertureBase,
+    ApertureDefinition,
+    Arc,
+    ArcSegment,
+    Bounds,
+    Circle,
+    CircleSegment,
+    CoordinateUnits,
+    Flash,
+    GerberParseException,
+    GraphicsPrimitive,
+    ImageTransform,
+    Line,
+    LineSegment,
+    ObjectPolarity,
+    Region,
+    composeSolidImage,
+    unitsFactor,
+} from "./primitives";
+import {Point} from "./point";
+import {
+    Polygon,
+    PolygonSet,
+    boundsOverlap,
+    pointInPolygon,
+    polygonBounds,
+    polySetBounds,
+    splitIslands,
+} from "./polygonSet";
+import {arcToPolygon, circleToPolygon} from "./polygonTools";
+import {FlatPrimitive, flattenPrimitives} from "./flatten";
+import {Board, BoardLayerFile} from "./board";
+import {BoardLayer, BoardSide} from "./gerberutils";
+import {formatFloat} from "./utils";
+
+export enum DrcRule {
+    TRACK_WIDTH = "track-width",
+    CLEARANCE = "clearance",
+    ANNULAR_RING = "annular-ring",
+    OUTLINE_CLEARANCE = "outline-clearance"
+}
+
+export interface DrcLayer {
+    readonly name:string;
+    readonly primitives:Array<GraphicsPrimitive>;
+    // Transformation of the image, the primitives are flattened with it.
+    readonly imageTransform?:ImageTransform;
+}
+
+export class DrcViolation {
+    constructor(
+        readonly rule:DrcRule,
+        readonly message:string,
+        readonly layer:string,
+        readonly location:Point,
+        // The measured value and the limit, in the checker units.
+        readonly value:number,
+        readonly limit:number,
+        // Line numbers of the commands of the offending objects.
+        readonly lines:Array<number> = []) {
+    }
+
+    toString():string {
+        let result = this.layer;
+        if (this.lines.length > 0) {
+            result += ` line ${this.lines.join(", ")}`;
+        }
+        return result + ` [${this.rule}]: ${this.message} at ${this.location}`;
+    }
+}
+
+/**
+ * Copper of a layer after the clear objects are applied, split into the
+ * unconnected islands.
+ */
+interface LayerImage {
+    readonly primitives:Array<FlatPrimitive>;
+    readonly islands:Array<PolygonSet>;
+    readonly bounds:Array<Bounds>;
+}
+
+/**
+ * Closest points of two sets of edges.
+ */
+interface ClosestPoints {
+    readonly distance:number;
+    readonly point:Point;
+    readonly otherPoint:Point;
+}
+
+/**
+ * The edges of polygons as x1, y1, x2, y2 quadruplets.
+ */
+function polygonEdges(polygonSet:PolygonSet):Array<number> {
+    let result:Array<number> = [];
+    polygonSet.forEach(polygon => {
+        let len = polygon.length;
+        for (let idx = 0; idx < len; idx += 2) {
+            let next = (idx + 2) % len;
+            result.push(polygon[idx], polygon[idx + 1], polygon[next], polygon[next + 1]);
+        }
+    });
+    return result;
+}
+
+/**
+ * Edges that overlap the bounds.
+ */
+function filterEdges(edges:Array<number>, bounds:Bounds):Array<number> {
+    let result:Array<number> = [];
+    for (let idx = 0; idx < edges.length; idx += 4) {
+        let x1 = edges[idx], y1 = edges[idx + 1], x2 = edges[idx + 2], y2 = edges[idx + 3];
+        if (Math.max(x1, x2) >= bounds.min.x && Math.min(x1, x2) <= bounds.max.x
+            && Math.max(y1, y2) >= bounds.min.y && Math.min(y1, y2) <= bounds.max.y) {
+            result.push(x1, y1, x2, y2);
+        }
+    }
+    return result;
+}
+
+function edgesBounds(edges:Array<number>):Bounds {
+    let min = new Point(Infinity, Infinity);
+    let max = new Point(-Infinity, -Infinity);
+    for (let idx = 0; idx < edges.length; idx += 2) {
+        min = new Point(Math.min(min.x, edges[idx]), Math.min(min.y, edges[idx + 1]));
+        max = new Point(Math.max(max.x, edges[idx]), Math.max(max.y, edges[idx + 1]));
+    }
+    return new Bounds(min, max);
+}
+
+/**
+ * Edges of an open path, the points are not joined back to the start.
+ */
+function pathEdges(path:Polygon, result:Array<number>) {
+    for (let idx = 2; idx < path.length; idx += 2) {
+        result.push(path[idx - 2], path[idx - 1], path[idx], path[idx + 1]);
+    }
+}
+
+function expandBounds(bounds:Bounds, distance:number):Bounds {
+    return new Bounds(
+        new Point(bounds.min.x - distance, bounds.min.y - distance),
+        new Point(bounds.max.x + distance, bounds.max.y + distance));
+}
+
+function closestOnSegment(
+    px:number, py:number, x1:number, y1:number, x2:number, y2:number):Point {
+    let dx = x2 - x1;
+    let dy = y2 - y1;
+    let len2 = dx * dx + dy * dy;
+    let t = (len2 > 0) ? ((px - x1) * dx + (py - y1) * dy) / len2 : 0;
+    t = Math.max(0, Math.min(1, t));
+    return new Point(x1 + t * dx, y1 + t * dy);
+}
+
+function cross(ax:number, ay:number, bx:number, by:number, cx:number, cy:number):number {
+    return (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+}
+
+/**
+ * Closest points of two edges, the intersection point if they cross.
+ */
+function closestOnEdges(a:Array<number>, aIdx:number, b:Array<number>, bIdx:number):ClosestPoints {
+    let ax1 = a[aIdx], ay1 = a[aIdx + 1], ax2 = a[aIdx + 2], ay2 = a[aIdx + 3];
+    let bx1 = b[bIdx], by1 = b[bIdx + 1], bx2 = b[bIdx + 2], by2 = b[bIdx + 3];
+    let d1 = cross(ax1, ay1, ax2, ay2, bx1, by1);
+    let d2 = cross(ax1, ay1, ax2, ay2, bx2, by2);
+    let d3 = cross(bx1, by1, bx2, by2, ax1, ay1);
+    let d4 = cross(bx1, by1, bx2, by2, ax2, ay2);
+    if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0))
+        && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+        let t = d3 / (d3 - d4);
+        let point = new Point(ax1 + t * (ax2 - ax1), ay1 + t * (ay2 - ay1));
+        return {distance:0, point:point, otherPoint:point};
+    }
+    let candidates = [
+        {point:new Point(ax1, ay1), otherPoint:closestOnSegment(ax1, ay1, bx1, by1, bx2, by2)},
+        {point:new Point(ax2, ay2), otherPoint:closestOnSegment(ax2, ay2, bx1, by1, bx2, by2)},
+        {point:closestOnSegment(bx1, by1, ax1, ay1, ax2, ay2), otherPoint:new Point(bx1, by1)},
+        {point:closestOnSegment(bx2, by2, ax1, ay1, ax2, ay2), otherPoint:new Point(bx2, by2)}];
+    let result:ClosestPoints;
+    candidates.forEach(c => {
+        let distance = c.point.distance(c.otherPoint);
+        if (!result || distance < result.distance) {
+            result = {distance:distance, point:c.point, otherPoint:c.otherPoint};
+        }
+    });
+    return result;
+}
+
+function closestPoints(a:Array<number>, b:Array<number>):ClosestPoints {
+    let result:ClosestPoints;
+    for (let aIdx = 0; aIdx < a.length; aIdx += 4) {
+        for (let bIdx = 0; bIdx < b.length; bIdx += 4) {
+            let closest = closestOnEdges(a, aIdx, b, bIdx);
+            if (!result || closest.distance < result.distance) {
+                result = closest;
+            }
+        }
+    }
+    return result;
+}
+
+function pointEdgesDistance(point:Point, edges:Array<number>):number {
+    let result = Infinity;
+    for (let idx = 0; idx < edges.length; idx += 4) {
+        let closest = closestOnSegment(
+            point.x, point.y, edges[idx], edges[idx + 1], edges[idx + 2], edges[idx + 3]);
+        result = Math.min(result, point.distance(closest));
+    }
+    return result;
+}
+
+/**
+ * The narrowest size of an aperture, undefined for macro and block
+ * apertures.
+ */
+function apertureWidth(aperture:ApertureBase):number {
+    if (!(aperture instanceof ApertureDefinition) || aperture.isMacro()) {
+        return undefined;
+    }
+    let modifiers = aperture.modifiers;
+    switch (aperture.templateName) {
+        case "C":
+            return modifiers[0];
+        case "R":
+        case "O":
+            return Math.min(modifiers[0], modifiers[1]);
+        case "P":
+            // The inscribed circle of the polygon.
+            return modifiers[0] * Math.cos(Math.PI / modifiers[1]);
+    }
+    return undefined;
+}
+
+function copper(primitive:FlatPrimitive):PolygonSet {
+    let result:PolygonSet = [];
+    primitive.objects
+        .filter(o => o.polarity == ObjectPolarity.DARK)
+        .forEach(o => result.push(...o.polySet));
+    return result;
+}
+
+function arcPath(center:Point, start:Point, end:Point, isCCW:boolean):Polygon {
+    if (start.distance(end) < 1E-9) {
+        return circlePath(center, center.distance(start));
+    }
+    return (isCCW) ? arcToPolygon(start, end, center) : arcToPolygon(end, start, center);
+}
+
+function circlePath(center:Point, radius:number):Polygon {
+    let result = circleToPolygon(radius);
+    for (let idx = 0; idx < result.length; idx += 2) {
+        result[idx] += center.x;
+        result[idx + 1] += center.y;
+    }
+    return result;
+}
+
+/**
+ * The center lines of the outline, the profile is the center of the
+ * outline strokes.
+ */
+function outlineEdges(primitives:Array<FlatPrimitive>):Array<number> {
+    let result:Array<number> = [];
+    primitives.forEach(p => {
+        if (p instanceof Line) {
+            result.push(p.from.x, p.from.y, p.to.x, p.to.y);
+        } else if (p instanceof Arc) {
+            pathEdges(arcPath(p.center, p.start, p.end, p.isCCW), result);
+        } else if (p instanceof Circle) {
+            pathEdges(circlePath(p.center, p.radius), result);
+        } else if (p instanceof Region) {
+            p.contours.forEach(contour => contour.forEach(segment => {
+                if (segment instanceof LineSegment) {
+                    result.push(segment.from.x, segment.from.y, segment.to.x, segment.to.y);
+                } else if (segment instanceof ArcSegment) {
+                    pathEdges(arcPath(segment.center, segment.start, segment.end, segment.isCCW), result);
+                } else if (segment instanceof CircleSegment) {
+                    pathEdges(circlePath(segment.center, segment.radius), result);
+                }
+            }));
+        }
+    });
+    return result;
+}
+
+/**
+ * Checks the copper layers against the rules. The limits are in the checker
+ * units, the geometry is converted with the units passed to the checks.
+ * Layers checked together, like copper and drills, must be in the same units.
+ */
+export class DesignRuleChecker {
+    public units = CoordinateUnits.MILIMETERS;
+    public minTrackWidth = 0.15;
+    public minClearance = 0.15;
+    public minAnnularRing = 0.15;
+    public minOutlineClearance = 0.3;
+    readonly violations:Array<DrcViolation> = [];
+    private images_ = new Map<DrcLayer, LayerImage>();
+
+    /**
+     * Tracks drawn with standard apertures narrower than the minimum track
+     * width.
+     */
+    checkTrackWidth(layer:DrcLayer, units?:CoordinateUnits):Array<DrcViolation> {
+        let factor = this.factor(units);
+        let result:Array<DrcViolation> = [];
+        this.flatten(layer).forEach(p => {
+            if (!(p instanceof Line || p instanceof Arc || p instanceof Circle)
+                || p.state.polarity != ObjectPolarity.DARK) {
+                return;
+            }
+            let width = apertureWidth(p.aperture);
+            if (!(width > 0)) {
+                return;
+            }
+            width *= p.state.scale * factor;
+            if (width < this.minTrackWidth - 1E-9) {
+                let location:Point;
+                if (p instanceof Line) {
+                    location = p.from.midPoint(p.to);
+                } else if (p instanceof Arc) {
+                    location = p.start;
+                } else {
+                    location = new Point(p.center.x + p.radius, p.center.y);
+                }
+                result.push(new DrcViolation(
+                    DrcRule.TRACK_WIDTH,
+                    `Track width ${this.format(width)} is below ${this.format(this.minTrackWidth)}`,
+                    layer.name,
+                    location,
+                    width,
+                    this.minTrackWidth,
+                    [p.cmd.lineNo]));
+            }
+        });
+        return this.report(result);
+    }
+
+    /**
+     * Unconnected copper closer than the minimum clearance. Each pair of
+     * islands is reported once, at the middle of the gap.
+     */
+    checkClearance(layer:DrcLayer, units?:CoordinateUnits):Array<DrcViolation> {
+        let factor = this.factor(units);
+        let limit = this.minClearance / factor;
+        let image = this.image(layer);
+        let result:Array<DrcViolation> = [];
+        let expanded = image.bounds.map(bounds => expandBounds(bounds, limit));
+        image.islands.forEach((island, idx) => {
+            for (let otherIdx = idx + 1; otherIdx < image.islands.length; otherIdx++) {
+                if (!boundsOverlap(expanded[idx], image.bounds[otherIdx])) {
+                    continue;
+                }
+                let other = image.islands[otherIdx];
+                let edges = filterEdges(polygonEdges(island), expanded[otherIdx]);
+                let otherEdges = filterEdges(polygonEdges(other), expanded[idx]);
+                let closest = closestPoints(edges, otherEdges);
+                if (!closest || closest.distance * factor >= this.minClearance - 1E-9) {
+                    continue;
+                }
+                let distance = closest.distance * factor;
+                result.push(new DrcViolation(
+                    DrcRule.CLEARANCE,
+                    `Clearance ${this.format(distance)} is below ${this.format(this.minClearance)}`,
+                    layer.name,
+                    closest.point.midPoint(closest.otherPoint),
+                    distance,
+                    this.minClearance,
+                    [
+                        this.nearestLine(image, closest.point),
+                        this.nearestLine(image, closest.otherPoint)
+                    ]));
+            }
+        });
+        return this.report(result);
+    }
+
+    /**
+     * Drill hits with less copper around them than the minimum annular
+     * ring. Holes that break out of the copper have a negative ring, holes
+     * that do not touch the copper are not checked.
+     */
+    checkAnnularRing(layer:DrcLayer, drill:DrcLayer, units?:CoordinateUnits):Array<DrcViolation> {
+        let factor = this.factor(units);
+        let limit = this.minAnnularRing / factor;
+        let image = this.image(layer);
+        let polygons:PolygonSet = [];
+        image.islands.forEach(island => polygons.push(...island));
+        let polygonsBounds = polygons.map(polygon => polygonBounds(polygon));
+        let result:Array<DrcViolation> = [];
+        this.flatten(drill).forEach(hit => {
+            if (!(hit instanceof Flash)) {
+                return;
+            }
+            let diameter = apertureWidth(hit.aperture);
+            if (!(diameter > 0)) {
+                return;
+            }
+            let radius = diameter * hit.state.scale / 2;
+            let center = hit.center;
+            let window = expandBounds(new Bounds(center, center), radius + limit);
+            let inside = false;
+            polygons.forEach((polygon, idx) => {
+                if (boundsOverlap(polygonsBounds[idx], window)
+                    && pointInPolygon(center.x, center.y, polygon)) {
+                    inside = !inside;
+                }
+            });
+            let distance = pointEdgesDistance(center, filterEdges(polygonEdges(polygons), window));
+            if (!inside && distance >= radius) {
+                return;
+            }
+            let ring = (distance - radius) * factor;
+            if (ring >= this.minAnnularRing - 1E-9) {
+                return;
+            }
+            result.push(new DrcViolation(
+                DrcRule.ANNULAR_RING,
+                `Annular ring ${this.format(ring)} of the ${drill.name} hole`
+                    + ` is below ${this.format(this.minAnnularRing)}`,
+                layer.name,
+                center,
+                ring,
+                this.minAnnularRing,
+                [hit.cmd.lineNo, this.nearestLine(image, center)]));
+        });
+        return this.report(result);
+    }
+
+    /**
+     * Copper closer to the board profile than the minimum distance. The
+     * distance is measured from the center line of the outline.
+     */
+    checkOutlineClearance(layer:DrcLayer, outline:DrcLayer, units?:CoordinateUnits):Array<DrcViolation> {
+        let factor = this.factor(units);
+        let limit = this.minOutlineClearance / factor;
+        let image = this.image(layer);
+        let edges = outlineEdges(this.flatten(outline));
+        let result:Array<DrcViolation> = [];
+        image.islands.forEach((island, idx) => {
+            let nearEdges = filterEdges(edges, expandBounds(image.bounds[idx], limit));
+            if (nearEdges.length == 0) {
+                return;
+            }
+            let nearBounds = expandBounds(edgesBounds(nearEdges), limit);
+            let closest = closestPoints(filterEdges(polygonEdges(island), nearBounds), nearEdges);
+            if (!closest || closest.distance * factor >= this.minOutlineClearance - 1E-9) {
+                return;
+            }
+            let distance = closest.distance * factor;
+            result.push(new DrcViolation(
+                DrcRule.OUTLINE_CLEARANCE,
+                `Copper to outline ${this.format(distance)} is below ${this.format(this.minOutlineClearance)}`,
+                layer.name,
+                closest.point,
+                distance,
+                this.minOutlineClearance,
+                [this.nearestLine(image, closest.point)]));
+        });
+        return this.report(result);
+    }
+
+    /**
+     * Runs all checks on the copper layers of a board.
+     */
+    checkBoard(board:Board):Array<DrcViolation> {
+        let layer = (file:BoardLayerFile):DrcLayer => {
+            return {name:file.fileName, primitives:file.primitives, imageTransform:file.imageTransform};
+        };
+        let copperFiles = [
+            ...board.getLayers(BoardSide.Top, BoardLayer.Copper),
+            ...board.getLayers(BoardSide.Internal, BoardLayer.Copper),
+            ...board.getLayers(BoardSide.Bottom, BoardLayer.Copper)];
+        let drillFiles = board.drills.filter(d => d.info.plated !== false);
+        let drills = drillFiles.map(layer);
+        let outline = (board.outline) ? layer(board.outline) : undefined;
+        let result:Array<DrcViolation> = [];
+        copperFiles.forEach(file => {
+            let units = file.image.units;
+            let copperLayer = layer(file);
+            result.push(...this.checkTrackWidth(copperLayer, units));
+            result.push(...this.checkClearance(copperLayer, units));
+            drillFiles.forEach((drillFile, idx) => {
+                let span = drillFile.info.drillSpan;
+                let index = file.info.copperIndex;
+                if (span && index != undefined && (index < span[0] || index > span[1])) {
+                    return;
+                }
+                result.push(...this.checkAnnularRing(copperLayer, drills[idx], units));
+            });
+            if (outline) {
+                result.push(...this.checkOutlineClearance(copperLayer, outline, units));
+            }
+        });
+        return result;
+    }
+
+    private factor(units?:CoordinateUnits):number {
+        return (units == undefined) ? 1 : unitsFactor(units, this.units);
+    }
+
+    private format(value:number):string {
+        return formatFloat(value, 4);
+    }
+
+    private report(violations:Array<DrcViolation>):Array<DrcViolation> {
+        this.violations.push(...violations);
+        return violations;
+    }
+
+    /**
+     * Primitives of the layer with the repeats expanded and the image
+     * transformation applied, the layer must be parsed.
+     */
+    private flatten(layer:DrcLayer):Array<FlatPrimitive> {
+        if (!layer.primitives) {
+            throw new GerberParseException(`Layer ${layer.name} has no primitives`);
+        }
+        return flattenPrimitives(layer.primitives, layer.imageTransform);
+    }
+
+    private image(layer:DrcLayer):LayerImage {
+        let image = this.images_.get(layer);
+        if (!image) {
+            let primitives = this.flatten(layer);
+            let objects = [];
+            primitives.forEach(p => objects.push(...p.objects));
+            let islands = splitIslands(composeSolidImage(objects, true).polygonSet);
+            image = {
+                primitives:primitives,
+                islands:islands,
+                bounds:islands.map(island => polySetBounds(island))
+            };
+            this.images_.set(layer, image);
+        }
+        return image;
+    }
+
+    /**
+     * Line number of the copper primitive closest to the point.
+     */
+    private nearestLine(image:LayerImage, point:Point):number {
+        let best:FlatPrimitive;
+        let bestDistance = Infinity;
+        image.primitives.forEach(p => {
+            let polygonSet = copper(p);
+            if (polygonSet.length == 0) {
+                return;
+            }
+            let bounds = polySetBounds(polygonSet);
+            if (!boundsOverlap(expandBounds(bounds, bestDistance), new Bounds(point, point))) {
+                return;
+            }
+            let distance = pointEdgesDistance(point, polygonEdges(polygonSet));
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = p;
+            }
+        });
+        return (best) ? best.cmd.lineNo : undefined;
+    }
+}
@@ -0,0 +1,499 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains a converter from graphics primitives to ASCII DXF
+ * (AutoCAD 2000 format). Every gerber layer becomes a DXF layer. Draws are
+ * exported as centerlines, or the whole image as filled outlines.
+ */
+import {
+    LineSegment,
+    CircleSegment,
+    ArcSegment,
+    Line,
+    Circle,
+    Arc,
+    Flash,
+    Region,
+    RegionContour,
+    Repeat,
+    GraphicsPrimitive,
+    GraphicsObjects,
+    ObjectPolarity,
+    ObjectMirroring,
+    ApertureDefinition,
+    CoordinateUnits,
+    GerberState,
+    Epsilon,
+    ImageTransform,
+    composeSolidImage,
+    unitsFactor,
+} from "./primitives";
+import {Point} from "./point";
+import {PolygonSet} from "./polygonSet";
+import {formatFloat} from "./utils";
+import {GerberParser} from "./grbparser";
+import {ConverterBase} from "./converters";
+import {flattenPrimitives} from "./flatten";
+import {M02Command} from "./commands";
+
+export enum DXFMode {
+    // Lines, arcs and circles along the aperture path, flash and region
+    // outlines as polylines.
+    CENTERLINE,
+    // The composed image as outline polylines filled with solid hatches.
+    OUTLINE
+}
+
+export class DXFLayer {
+    constructor(
+        readonly name:string,
+        readonly primitives:Array<GraphicsPrimitive>,
+        readonly units:CoordinateUnits,
+        // Transformation of the deprecated image commands of the file.
+        readonly imageTransform?:ImageTransform) {
+    }
+}
+
+interface PolylineVertex {
+    x:number;
+    y:number;
+    // Tangent of a quarter of the arc angle to the next vertex, positive
+    // counter clockwise. Zero for straight segments.
+    bulge:number;
+}
+
+/**
+ * Converts the primitives of one layer to DXF entities. Centerlines are
+ * in the coordinates of the primitives, transformed images must be
+ * flattened first.
+ */
+export class DXFConverter extends ConverterBase<string> {
+    public layerName = "0";
+    public mode = DXFMode.CENTERLINE;
+    // Multiplies all coordinates, used to convert between units.
+    public unitScale = 1;
+    public precision:number = 6;
+    // Entity handles, continue from the previous layer in a document.
+    public nextHandle = 0x100;
+    private objects_:GraphicsObjects = [];
+
+    convertLine(l:Line):string {
+        if (this.mode == DXFMode.OUTLINE) {
+            return this.addObjects(l.objects);
+        }
+        return this.entity("LINE", "AcDbLine", [
+            [10, this.num(l.from.x)],
+            [20, this.num(l.from.y)],
+            [30, "0.0"],
+            [11, this.num(l.to.x)],
+            [21, this.num(l.to.y)],
+            [31, "0.0"]]);
+    }
+
+    convertArc(a:Arc):string {
+        if (this.mode == DXFMode.OUTLINE) {
+            return this.addObjects(a.objects);
+        }
+        // DXF arcs go counter clockwise from the start angle.
+        let start = (a.isCCW) ? a.start : a.end;
+        let end = (a.isCCW) ? a.end : a.start;
+        return this.entity("ARC", "AcDbCircle", [
+            [10, this.num(a.center.x)],
+            [20, this.num(a.center.y)],
+            [30, "0.0"],
+            [40, this.num(a.radius)],
+            [100, "AcDbArc"],
+            [50, DXFConverter.degrees(a.center.angleFrom(start))],
+            [51, DXFConverter.degrees(a.center.angleFrom(end))]]);
+    }
+
+    convertCircle(c:Circle):string {
+        if (this.mode == DXFMode.OUTLINE) {
+            return this.addObjects(c.objects);
+        }
+        return this.entity("CIRCLE", "AcDbCircle", [
+            [10, this.num(c.center.x)],
+            [20, this.num(c.center.y)],
+            [30, "0.0"],
+            [40, this.num(c.radius)]]);
+    }
+
+    convertFlash(f:Flash):string {
+        if (this.mode == DXFMode.OUTLINE) {
+            return this.addObjects(f.objects);
+        }
+        let shape = DXFConverter.apertureShape(f);
+        if (shape) {
+            return this.polyline(shape, true);
+        }
+        return this.polygons(f.objects
+            .filter(o => o.polarity != ObjectPolarity.THIN)
+            .map(o => o.polySet)
+            .reduce((result, polySet) => result.concat(polySet), []));
+    }
+
+    convertRegion(r:Region):string {
+        if (this.mode == DXFMode.OUTLINE) {
+            return this.addObjects(r.objects);
+        }
+        return r.contours
+            .map(contour => DXFConverter.contourVertices(contour))
+            .reduce((result, loops) => result.concat(loops), [])
+            .map(loop => this.polyline(loop, true))
+            .join("\n");
+    }
+
+    convertRepeat(r:Repeat):string {
+        if (this.mode == DXFMode.OUTLINE) {
+            return this.addObjects(r.objects);
+        }
+        return r.primitives
+            .map(p => this.convertPrimitive(p))
+            .filter(s => s.length > 0)
+            .join("\n");
+    }
+
+    header():Array<string> {
+        this.objects_ = [];
+        return [];
+    }
+
+    footer():Array<string> {
+        if (this.mode != DXFMode.OUTLINE) {
+            return [];
+        }
+        let solids = composeSolidImage(this.objects_).polygonSet
+            .filter(polygon => polygon.length >= 6);
+        let result = [this.polygons(solids)];
+        if (solids.length > 0) {
+            result.push(this.hatch(solids.map(polygon => DXFConverter.polygonVertices(polygon))));
+        }
+        this.objects_
+            .filter(o => o.polarity == ObjectPolarity.THIN)
+            .forEach(o => o.polySet.forEach(
+                polygon => result.push(this.polyline(DXFConverter.polygonVertices(polygon), false))));
+        return result.filter(s => s.length > 0);
+    }
+
+    private addObjects(objects:GraphicsObjects):string {
+        this.objects_.push(...objects);
+        return "";
+    }
+
+    private polygons(polySet:PolygonSet):string {
+        return polySet
+            .filter(polygon => polygon.length >= 4)
+            .map(polygon => this.polyline(DXFConverter.polygonVertices(polygon), true))
+            .join("\n");
+    }
+
+    private polyline(vertices:Array<PolylineVertex>, closed:boolean):string {
+        let codes:Array<[number, string]> = [
+            [90, vertices.length.toString()],
+            [70, (closed) ? "1" : "0"]];
+        vertices.forEach(v => {
+            codes.push([10, this.num(v.x)], [20, this.num(v.y)]);
+            if (v.bulge != 0) {
+                codes.push([42, formatFloat(v.bulge, 9)]);
+            }
+        });
+        return this.entity("LWPOLYLINE", "AcDbPolyline", codes);
+    }
+
+    /**
+     * Solid hatch, with the odd parity style the inner loops are holes.
+     */
+    private hatch(loops:Array<Array<PolylineVertex>>):string {
+        let codes:Array<[number, string]> = [
+            [10, "0.0"],
+            [20, "0.0"],
+            [30, "0.0"],
+            [210, "0.0"],
+            [220, "0.0"],
+            [230, "1.0"],
+            [2, "SOLID"],
+            [70, "1"],
+            [71, "0"],
+            [91, loops.length.toString()]];
+        loops.forEach(loop => {
+            let hasBulge = loop.some(v => v.bulge != 0);
+            codes.push(
+                [92, "2"],
+                [72, (hasBulge) ? "1" : "0"],
+                [73, "1"],
+                [93, loop.length.toString()]);
+            loop.forEach(v => {
+                codes.push([10, this.num(v.x)], [20, this.num(v.y)]);
+                if (hasBulge) {
+                    codes.push([42, formatFloat(v.bulge, 9)]);
+                }
+            });
+            codes.push([97, "0"]);
+        });
+        codes.push([75, "0"], [76, "1"], [98, "0"]);
+        return this.entity("HATCH", "AcDbHatch", codes);
+    }
+
+    private entity(type:string, subclass:string, codes:Array<[number, string]>):string {
+        let result:Array<[number, string]> = [
+            [0, type],
+            [5, (this.nextHandle++).toString(16).toUpperCase()],
+            [100, "AcDbEntity"],
+            [8, this.layerName],
+            [100, subclass]];
+        return DXFConverter.groupCodes(result.concat(codes));
+    }
+
+    private num(n:number):string {
+        return formatFloat(n * this.unitScale, this.precision);
+    }
+
+    private static degrees(angle:number):string {
+        let result = angle * 180 / Math.PI;
+        if (result < 0) {
+            result += 360;
+        }
+        return formatFloat(result, 6);
+    }
+
+    private static groupCodes(codes:Array<[number, string]>):string {
+        return codes.map(c => `${c[0]}\n${c[1]}`).join("\n");
+    }
+
+    private static polygonVertices(polygon:Float64Array):Array<PolylineVertex> {
+        let result:Array<PolylineVertex> = [];
+        let len = polygon.length;
+        // Closed polygons repeat the first point at the end.
+        if (len >= 4
+            && Math.abs(polygon[0] - polygon[len - 2]) < Epsilon
+            && Math.abs(polygon[1] - polygon[len - 1]) < Epsilon) {
+            len -= 2;
+        }
+        for (let idx = 0; idx < len; idx += 2) {
+            result.push({x:polygon[idx], y:polygon[idx + 1], bulge:0});
+        }
+        return result;
+    }
+
+    private static bulge(center:Point, start:Point, end:Point, isCCW:boolean):number {
+        let angle = center.angleFrom(end) - center.angleFrom(start);
+        if (!isCCW) {
+            angle = -angle;
+        }
+        if (angle <= 0) {
+            angle += Math.PI * 2;
+        }
+        let result = Math.tan(angle / 4);
+        return (isCCW) ? result : -result;
+    }
+
+    /**
+     * Polyline loops of a region contour, a new loop starts where the
+     * contour is not connected.
+     */
+    private static contourVertices(contour:RegionContour):Array<Array<PolylineVertex>> {
+        let result:Array<Array<PolylineVertex>> = [];
+        let loop:Array<PolylineVertex> = [];
+        let current:Point = undefined;
+        contour.forEach(s => {
+            if (s instanceof CircleSegment) {
+                result.push([
+                    {x:s.center.x + s.radius, y:s.center.y, bulge:1},
+                    {x:s.center.x - s.radius, y:s.center.y, bulge:1}]);
+                return;
+            }
+            let start = (s instanceof LineSegment) ? s.from : s.start;
+            if (current && current.distance(start) > Epsilon) {
+                result.push(loop);
+                loop = [];
+            }
+            if (s instanceof LineSegment) {
+                loop.push({x:s.from.x, y:s.from.y, bulge:0});
+                current = s.to;
+            } else {
+                loop.push({x:s.start.x, y:s.start.y, bulge:DXFConverter.bulge(s.center, s.start, s.end, s.isCCW)});
+                current = s.end;
+            }
+        });
+        if (loop.length > 0) {
+            result.push(loop);
+        }
+        return result.filter(l => l.length > 1);
+    }
+
+    /**
+     * Exact outline of a flash with a standard circle, rectangle or obround
+     * aperture without a hole, undefined for other apertures.
+     */
+    private static apertureShape(f:Flash):Array<PolylineVertex> {
+        if (!(f.aperture instanceof ApertureDefinition)) {
+            return undefined;
+        }
+        let aperture = f.aperture as ApertureDefinition;
+        let modifiers = aperture.modifiers;
+        let vertices:Array<PolylineVertex>;
+        if (aperture.templateName == "C" && modifiers.length == 1 && modifiers[0] > Epsilon) {
+            let radius = modifiers[0] / 2;
+            vertices = [{x:radius, y:0, bulge:1}, {x:-radius, y:0, bulge:1}];
+        } else if (aperture.templateName == "R" && modifiers.length == 2) {
+            let w2 = modifiers[0] / 2;
+            let h2 = modifiers[1] / 2;
+            vertices = [
+                {x:w2, y:-h2, bulge:0},
+                {x:w2, y:h2, bulge:0},
+                {x:-w2, y:h2, bulge:0},
+                {x:-w2, y:-h2, bulge:0}];
+        } else if (aperture.templateName == "O" && modifiers.length == 2) {
+            let w2 = modifiers[0] / 2;
+            let h2 = modifiers[1] / 2;
+            if (w2 < h2) {
+                let d = h2 - w2;
+                vertices = [
+                    {x:w2, y:-d, bulge:0},
+                    {x:w2, y:d, bulge:1},
+                    {x:-w2, y:d, bulge:0},
+                    {x:-w2, y:-d, bulge:1}];
+            } else {
+                let d = w2 - h2;
+                vertices = [
+                    {x:-d, y:-h2, bulge:0},
+                    {x:d, y:-h2, bulge:1},
+                    {x:d, y:h2, bulge:0},
+                    {x:-d, y:h2, bulge:1}];
+            }
+        } else {
+            return undefined;
+        }
+        let state = f.state;
+        let mirrorX = state.mirroring == ObjectMirroring.X_AXIS || state.mirroring == ObjectMirroring.XY_AXIS;
+        let mirrorY = state.mirroring == ObjectMirroring.Y_AXIS || state.mirroring == ObjectMirroring.XY_AXIS;
+        let flipBulge = mirrorX != mirrorY;
+        let angle = state.rotation * Math.PI / 180;
+        let cos = Math.cos(angle);
+        let sin = Math.sin(angle);
+        return vertices.map(v => {
+            let x = (mirrorX) ? -v.x : v.x;
+            let y = (mirrorY) ? -v.y : v.y;
+            return {
+                x:(x * cos - y * sin) * state.scale + f.center.x,
+                y:(x * sin + y * cos) * state.scale + f.center.y,
+                bulge:(flipBulge) ? -v.bulge : v.bulge
+            };
+        });
+    }
+
+    private static layerTableName(name:string):string {
+        let result = name.replace(/[<>\/\\":;?*|=`,]/g, "_").trim();
+        return (result.length > 0) ? result : "0";
+    }
+
+    /**
+     * DXF document with one DXF layer per input layer. Unless given, the
+     * units are the units of the first layer that has them, the other layers
+     * are converted. Layers without units are written as they are. The
+     * centerlines of layers with an image transformation are flattened, images
+     * scaled by different factors on each axis can only be written as
+     * outlines.
+     */
+    public static LayersToDxf(
+        layers:Array<DXFLayer>,
+        mode:DXFMode = DXFMode.CENTERLINE,
+        units?:CoordinateUnits):string {
+        if (units == undefined) {
+            let layer = layers.find(l => l.units != undefined);
+            units = (layer) ? layer.units : CoordinateUnits.MILIMETERS;
+        }
+        let handle = 0x100;
+        let layerNames:Array<string> = [];
+        let entities:Array<string> = [];
+        layers.forEach(layer => {
+            let cvt = new DXFConverter();
+            cvt.layerName = DXFConverter.layerTableName(layer.name);
+            cvt.mode = mode;
+            cvt.nextHandle = handle;
+            if (layer.units != undefined && layer.units != units) {
+                cvt.unitScale = unitsFactor(layer.units, units);
+            }
+            let primitives = layer.primitives;
+            if (mode == DXFMode.CENTERLINE && layer.imageTransform && !layer.imageTransform.isIdentity) {
+                primitives = flattenPrimitives(primitives, layer.imageTransform);
+            }
+            entities.push(...cvt.convert(primitives).filter(s => s.length > 0));
+            handle = cvt.nextHandle;
+            if (layerNames.indexOf(cvt.layerName) < 0) {
+                layerNames.push(cvt.layerName);
+            }
+        });
+        let layerTableHandle = handle++;
+        let layerRecords = layerNames.map((name, idx) => DXFConverter.groupCodes([
+            [0, "LAYER"],
+            [5, (handle++).toString(16).toUpperCase()],
+            [100, "AcDbSymbolTableRecord"],
+            [100, "AcDbLayerTableRecord"],
+            [2, name],
+            [70, "0"],
+            // Colors 1 to 7 are the basic colors in every application.
+            [62, ((idx % 7) + 1).toString()],
+            [6, "CONTINUOUS"]]));
+        let isInches = units == CoordinateUnits.INCHES;
+        let result = [
+            DXFConverter.groupCodes([
+                [0, "SECTION"],
+                [2, "HEADER"],
+                [9, "$ACADVER"],
+                [1, "AC1015"],
+                [9, "$INSUNITS"],
+                [70, (isInches) ? "1" : "4"],
+                [9, "$MEASUREMENT"],
+                [70, (isInches) ? "0" : "1"],
+                [9, "$HANDSEED"],
+                [5, handle.toString(16).toUpperCase()],
+                [0, "ENDSEC"],
+                [0, "SECTION"],
+                [2, "TABLES"],
+                [0, "TABLE"],
+                [2, "LAYER"],
+                [5, layerTableHandle.toString(16).toUpperCase()],
+                [100, "AcDbSymbolTable"],
+                [70, layerNames.length.toString()]]),
+            ...layerRecords,
+            DXFConverter.groupCodes([
+                [0, "ENDTAB"],
+                [0, "ENDSEC"],
+                [0, "SECTION"],
+                [2, "ENTITIES"]]),
+            ...entities,
+            DXFConverter.groupCodes([
+                [0, "ENDSEC"],
+                [0, "EOF"]])];
+        return result.join("\n") + "\n";
+    }
+
+    /**
+     * Converts gerber files to a DXF document, the layer names are the names
+     * of the files.
+     */
+    public static GerberToDxf(
+        files:Array<{name:string, content:string}>,
+        mode:DXFMode = DXFMode.CENTERLINE):string {
+        let layers = files.map(file => {
+            let parser = new GerberParser();
+            parser.parseBlock(file.content);
+            let ctx = new GerberState();
+            parser.execute(ctx);
+            parser.checkErrors();
+            if (!ctx.isDone) {
+                ctx.endFile(new M02Command("M02"));
+            }
+            return new DXFLayer(file.name, ctx.primitives, ctx.fileUnits, ctx.imageTransform);
+        });
+        return DXFConverter.LayersToDxf(layers, mode);
+    }
+}
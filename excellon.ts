@@ -0,0 +1,438 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains a parser for Excellon (NC drill) files.
+ *
+ * The parser produces the same graphics primitives as the gerber parser. Drill
+ * hits are converted to Flash primitives and slots or routed paths are converted
+ * to Line primitives, both using a circular aperture with the tool diameter.
+ */
+
+import {
+    ApertureDefinition,
+    CoordinateUnits,
+    GerberCommand,
+    GerberParseException,
+    GerberState,
+    GraphicsPrimitive,
+    Flash,
+    Line,
+    ObjectState,
+} from "./primitives";
+import {Point} from "./point";
+
+export enum ExcellonZeros {
+    LEADING,   // LZ - leading zeros are present, trailing zeros are omitted
+    TRAILING   // TZ - trailing zeros are present, leading zeros are omitted
+}
+
+enum ExcellonMode {
+    DRILL,
+    ROUTE
+}
+
+export class ExcellonTool {
+    readonly aperture:ApertureDefinition;
+
+    constructor(readonly toolId:number, readonly diameter:number) {
+        this.aperture = new ApertureDefinition(toolId, "C", [diameter]);
+    }
+}
+
+/**
+ * Excellon files do not have an executable command model, this class only
+ * records the source text of the block which produced a primitive, so the
+ * primitive could be traced back to the line in the drill file.
+ */
+export class ExcellonCommand implements GerberCommand {
+    readonly isAdvanced = false;
+
+    constructor(readonly name:string, readonly text:string, readonly lineNo?:number) {
+    }
+
+    formatOutput():string {
+        return this.text;
+    }
+
+    execute(ctx:GerberState) {
+    }
+}
+
+/**
+ * The main Excellon parser class.
+ *
+ * The input can be a partial buffer, incomplete lines are kept until the next
+ * call to parseBlock.
+ */
+export class ExcellonParser {
+    private lineNumber = 0;
+    private buffer = "";
+    private inHeader = false;
+    private units_ = CoordinateUnits.INCHES;
+    private zeros_ = ExcellonZeros.TRAILING;
+    private numIntPos_:number = undefined;
+    private numDecPos_:number = undefined;
+    private isIncremental = false;
+    private mode = ExcellonMode.DRILL;
+    private isToolDown = false;
+    private tools_:{[id:number]:ExcellonTool} = {};
+    private currentTool:ExcellonTool = undefined;
+    private currentPoint = new Point();
+    private primitives_:Array<GraphicsPrimitive> = [];
+    private isPlated_:boolean = undefined;
+    private isDone_ = false;
+    private readonly state = new ObjectState();
+
+    private static toolMatch = /^T(\d+)((?:[BCFHSZ][\+\-]?(?:\d*\.\d*|\d+))*)$/;
+    private static toolParamMatch = /([BCFHSZ])([\+\-]?(?:\d*\.\d*|\d+))/g;
+    private static unitsMatch = /^(METRIC|INCH)(?:,(LZ|TZ))?(?:,(0*)\.?(0*))?$/;
+    private static fileFormatMatch = /^;\s*FILE_FORMAT\s*=\s*(\d+):(\d+)/;
+    private static coordinateMatch = /^(?:X([\+\-]?(?:\d*\.\d*|\d+)))?(?:Y([\+\-]?(?:\d*\.\d*|\d+)))?$/;
+    private static slotMatch = /^(X[\+\-]?[\d.]+)?(Y[\+\-]?[\d.]+)?G85(X[\+\-]?[\d.]+)?(Y[\+\-]?[\d.]+)?$/;
+    private static routeMatch = /^G0*([01])((?:X[\+\-]?[\d.]+)?(?:Y[\+\-]?[\d.]+)?)(?:F\d+)?(?:S\d+)?$/;
+    private static repeatMatch = /^R(\d+)((?:X[\+\-]?[\d.]+)?(?:Y[\+\-]?[\d.]+)?)$/;
+    private static ignoredCommands = /^(?:VER,.*|FMAT,.*|DETECT,.*|ATC,.*|BLKD,.*|SBK,.*|SG,.*|TCST,.*|RSB,.*|RES,.*|CCW,.*|CP,.*|OSTOP|G93.*|G40|G41|G42|M06|M0?8|M09|M25|M97,.*|M98,.*|M99|M0?1|M47,.*|M50,.*|M51,.*|F\d+|S\d+)$/;
+
+    get units():CoordinateUnits {
+        return this.units_;
+    }
+
+    get zeros():ExcellonZeros {
+        return this.zeros_;
+    }
+
+    get numIntPos():number {
+        if (this.numIntPos_ != undefined) {
+            return this.numIntPos_;
+        }
+        return (this.units_ == CoordinateUnits.MILIMETERS) ? 3 : 2;
+    }
+
+    get numDecPos():number {
+        if (this.numDecPos_ != undefined) {
+            return this.numDecPos_;
+        }
+        return (this.units_ == CoordinateUnits.MILIMETERS) ? 3 : 4;
+    }
+
+    get tools():Array<ExcellonTool> {
+        let result:Array<ExcellonTool> = [];
+        for (let id in this.tools_) {
+            result.push(this.tools_[id]);
+        }
+        return result;
+    }
+
+    /**
+     * True or false if the file declares the holes as plated or non plated,
+     * undefined if the file does not say.
+     */
+    get isPlated():boolean {
+        return this.isPlated_;
+    }
+
+    get isDone():boolean {
+        return this.isDone_;
+    }
+
+    get primitives():Array<GraphicsPrimitive> {
+        return this.primitives_;
+    }
+
+    parseBlock(block:string) {
+        this.buffer += block;
+        let lines = this.buffer.split("\n");
+        this.buffer = lines.pop();
+        lines.forEach(line => this.parseLine(line));
+    }
+
+    /**
+     * Process any incomplete line left in the buffer.
+     */
+    endFile() {
+        if (this.buffer.length > 0) {
+            let line = this.buffer;
+            this.buffer = "";
+            this.parseLine(line);
+        }
+        this.isDone_ = true;
+    }
+
+    private parseLine(line:string) {
+        this.lineNumber++;
+        let cmd = line.replace(/[\r\t]/g, "").trim();
+        if (cmd.length == 0) {
+            return;
+        }
+        if (cmd[0] == ';') {
+            this.parseComment(cmd);
+            return;
+        }
+        cmd = cmd.toUpperCase().replace(/\s+/g, "");
+        if (this.isDone_) {
+            return;
+        }
+        if (cmd == "M48") {
+            this.inHeader = true;
+            return;
+        }
+        if (cmd == "%" || cmd == "M95") {
+            this.inHeader = false;
+            return;
+        }
+        if (cmd == "M71") {
+            this.setUnits(CoordinateUnits.MILIMETERS);
+            return;
+        }
+        if (cmd == "M72") {
+            this.setUnits(CoordinateUnits.INCHES);
+            return;
+        }
+        let match = ExcellonParser.unitsMatch.exec(cmd);
+        if (match) {
+            this.setUnits((match[1] == "METRIC") ? CoordinateUnits.MILIMETERS : CoordinateUnits.INCHES);
+            if (match[2]) {
+                this.zeros_ = (match[2] == "LZ") ? ExcellonZeros.LEADING : ExcellonZeros.TRAILING;
+            }
+            if (match[3] != undefined && match[4] != undefined && (match[3].length + match[4].length) > 0) {
+                this.numIntPos_ = match[3].length;
+                this.numDecPos_ = match[4].length;
+            }
+            return;
+        }
+        if (cmd == "ICI,ON" || cmd == "ICI") {
+            this.isIncremental = true;
+            return;
+        }
+        if (cmd == "ICI,OFF") {
+            this.isIncremental = false;
+            return;
+        }
+        if (ExcellonParser.ignoredCommands.test(cmd)) {
+            return;
+        }
+        match = ExcellonParser.toolMatch.exec(cmd);
+        if (match) {
+            this.parseTool(cmd, match);
+            return;
+        }
+        if (this.inHeader) {
+            // Unknown header commands do not affect the geometry.
+            return;
+        }
+        this.parseBody(line.trim(), cmd);
+    }
+
+    private parseComment(cmd:string) {
+        let match = ExcellonParser.fileFormatMatch.exec(cmd);
+        if (match) {
+            this.numIntPos_ = Number.parseInt(match[1]);
+            this.numDecPos_ = Number.parseInt(match[2]);
+            return;
+        }
+        let upperCmd = cmd.toUpperCase();
+        if (upperCmd.indexOf("TYPE=NON_PLATED") >= 0
+            || upperCmd.indexOf("TF.FILEFUNCTION,NONPLATED") >= 0) {
+            this.isPlated_ = false;
+        } else if (upperCmd.indexOf("TYPE=PLATED") >= 0
+            || upperCmd.indexOf("TF.FILEFUNCTION,PLATED") >= 0) {
+            this.isPlated_ = true;
+        }
+    }
+
+    private setUnits(units:CoordinateUnits) {
+        // The number format stays as explicitly specified, if it was not
+        // specified the default for the new units would be used.
+        this.units_ = units;
+    }
+
+    private parseTool(cmd:string, match:RegExpExecArray) {
+        let toolId = Number.parseInt(match[1]);
+        let diameter:number = undefined;
+        let params = match[2];
+        if (params) {
+            let paramMatch:RegExpExecArray;
+            ExcellonParser.toolParamMatch.lastIndex = 0;
+            while ((paramMatch = ExcellonParser.toolParamMatch.exec(params)) != null) {
+                if (paramMatch[1] == "C") {
+                    diameter = Number.parseFloat(paramMatch[2]);
+                }
+            }
+        }
+        if (diameter != undefined) {
+            if (Number.isNaN(diameter) || diameter < 0) {
+                throw new GerberParseException(`Invalid tool diameter ${cmd}`, this.lineNumber);
+            }
+            this.tools_[toolId] = new ExcellonTool(toolId, diameter);
+        }
+        if (this.inHeader && diameter != undefined) {
+            return;
+        }
+        if (toolId == 0) {
+            this.currentTool = undefined;
+            return;
+        }
+        let tool = this.tools_[toolId];
+        if (tool == undefined) {
+            throw new GerberParseException(`Tool T${toolId} is not defined`, this.lineNumber);
+        }
+        this.currentTool = tool;
+    }
+
+    private parseBody(text:string, cmd:string) {
+        if (cmd == "M30" || cmd == "M00" || cmd == "M02") {
+            this.isDone_ = true;
+            return;
+        }
+        if (cmd == "G90") {
+            this.isIncremental = false;
+            return;
+        }
+        if (cmd == "G91") {
+            this.isIncremental = true;
+            return;
+        }
+        if (cmd == "G05" || cmd == "G81") {
+            this.mode = ExcellonMode.DRILL;
+            this.isToolDown = false;
+            return;
+        }
+        if (cmd == "M15") {
+            this.isToolDown = true;
+            return;
+        }
+        if (cmd == "M16" || cmd == "M17") {
+            this.isToolDown = false;
+            return;
+        }
+        let match = ExcellonParser.coordinateMatch.exec(cmd);
+        if (match) {
+            let from = this.currentPoint;
+            let to = this.parseTarget(match[1], match[2]);
+            this.currentPoint = to;
+            if (this.mode == ExcellonMode.DRILL) {
+                this.hit(to, new ExcellonCommand("HIT", text, this.lineNumber));
+            } else if (this.isToolDown) {
+                this.route(from, to, new ExcellonCommand("ROUTE", text, this.lineNumber));
+            }
+            return;
+        }
+        match = ExcellonParser.slotMatch.exec(cmd);
+        if (match) {
+            let start = this.parseTarget(
+                ExcellonParser.coordinateValue(match[1]),
+                ExcellonParser.coordinateValue(match[2]));
+            this.currentPoint = start;
+            let end = this.parseTarget(
+                ExcellonParser.coordinateValue(match[3]),
+                ExcellonParser.coordinateValue(match[4]));
+            this.currentPoint = end;
+            this.route(start, end, new ExcellonCommand("SLOT", text, this.lineNumber));
+            return;
+        }
+        match = ExcellonParser.routeMatch.exec(cmd);
+        if (match) {
+            let coordinates = ExcellonParser.coordinateMatch.exec(match[2]);
+            let from = this.currentPoint;
+            let to = this.parseTarget(coordinates[1], coordinates[2]);
+            this.currentPoint = to;
+            this.mode = ExcellonMode.ROUTE;
+            if (match[1] == "0") {
+                // G00 is a rapid move with the tool up.
+                this.isToolDown = false;
+            } else if (this.isToolDown) {
+                this.route(from, to, new ExcellonCommand("ROUTE", text, this.lineNumber));
+            }
+            return;
+        }
+        match = ExcellonParser.repeatMatch.exec(cmd);
+        if (match) {
+            let count = Number.parseInt(match[1]);
+            let coordinates = ExcellonParser.coordinateMatch.exec(match[2]);
+            let step = new Point(
+                (coordinates[1] != undefined) ? this.parseCoordinate(coordinates[1]) : 0,
+                (coordinates[2] != undefined) ? this.parseCoordinate(coordinates[2]) : 0);
+            for (let idx = 0; idx < count; idx++) {
+                this.currentPoint = this.currentPoint.add(step);
+                this.hit(this.currentPoint, new ExcellonCommand("HIT", text, this.lineNumber));
+            }
+            return;
+        }
+        throw new GerberParseException(`Invalid command ${cmd.substr(0, 100)}`, this.lineNumber);
+    }
+
+    private static coordinateValue(coordinate:string):string {
+        if (coordinate == undefined) {
+            return undefined;
+        }
+        return coordinate.substring(1);
+    }
+
+    private parseTarget(x:string, y:string):Point {
+        let target = this.currentPoint.clone();
+        if (x != undefined) {
+            let value = this.parseCoordinate(x);
+            target.x = (this.isIncremental && target.x != undefined) ? target.x + value : value;
+        }
+        if (y != undefined) {
+            let value = this.parseCoordinate(y);
+            target.y = (this.isIncremental && target.y != undefined) ? target.y + value : value;
+        }
+        return target;
+    }
+
+    /**
+     * Convert an Excellon coordinate to a number.
+     *
+     * Coordinates with a decimal point are used as they are. Otherwise the
+     * number is interpreted using the current number format and zero suppression.
+     */
+    parseCoordinate(coordinate:string):number {
+        if (coordinate.indexOf('.') >= 0) {
+            return Number.parseFloat(coordinate);
+        }
+        let sign = 1;
+        if (coordinate[0] == '-' || coordinate[0] == '+') {
+            if (coordinate[0] == '-') {
+                sign = -1;
+            }
+            coordinate = coordinate.substring(1);
+        }
+        let numDigits = this.numIntPos + this.numDecPos;
+        let zeroMult = 1;
+        if (this.zeros_ == ExcellonZeros.LEADING && coordinate.length < numDigits) {
+            zeroMult = Math.pow(10, numDigits - coordinate.length);
+        }
+        return sign * Number.parseInt(coordinate) * zeroMult * Math.pow(10, -this.numDecPos);
+    }
+
+    private checkTool():ExcellonTool {
+        if (this.currentTool == undefined) {
+            throw new GerberParseException("Tool is not selected", this.lineNumber);
+        }
+        return this.currentTool;
+    }
+
+    private hit(center:Point, cmd:ExcellonCommand) {
+        if (!center.isValid()) {
+            throw new GerberParseException(`Invalid drill location ${center}`, this.lineNumber);
+        }
+        let tool = this.checkTool();
+        this.primitives_.push(new Flash(center, tool.aperture, this.state, cmd));
+    }
+
+    private route(from:Point, to:Point, cmd:ExcellonCommand) {
+        if (!from.isValid() || !to.isValid()) {
+            throw new GerberParseException(`Invalid route ${from} ${to}`, this.lineNumber);
+        }
+        let tool = this.checkTool();
+        this.primitives_.push(new Line(from, to, tool.aperture, this.state, cmd));
+    }
+}
@@ -0,0 +1,272 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains a transformation that expands step and repeat blocks
+ * and block aperture flashes into plain primitives. The result only uses
+ * standard and macro apertures, for writers and tools that do not support
+ * blocks.
+ */
+import {
+    LineSegment,
+    CircleSegment,
+    ArcSegment,
+    Line,
+    Circle,
+    Arc,
+    Flash,
+    Region,
+    RegionContour,
+    RegionSegment,
+    Repeat,
+    GraphicsPrimitive,
+    ObjectPolarity,
+    ObjectMirroring,
+    ObjectState,
+    BlockAperture,
+    ImageTransform,
+    ImagePolarity,
+    AxisSelect,
+    GraphicsObjects,
+    GerberParseException,
+} from "./primitives";
+import {Point} from "./point";
+import {objectsBounds} from "./polygonSet";
+
+export type FlatPrimitive = Line | Circle | Arc | Flash | Region;
+
+/**
+ * Where the content of a block is placed. The content is mirrored, rotated
+ * and scaled like an aperture and then moved to the offset. Inverted
+ * placements swap the dark and clear polarity.
+ */
+class Placement {
+    constructor(
+        readonly offset:Point = new Point(),
+        readonly mirroring:ObjectMirroring = ObjectMirroring.NONE,
+        readonly rotation:number = 0,
+        readonly scale:number = 1,
+        readonly invert:boolean = false) {
+    }
+
+    get isReflection():boolean {
+        return this.mirroring == ObjectMirroring.X_AXIS || this.mirroring == ObjectMirroring.Y_AXIS;
+    }
+
+    point(point:Point):Point {
+        let mirrored = point.mirror(this.mirroring);
+        let angle = this.rotation * Math.PI / 180;
+        // Right angles are exact.
+        let cos = Math.round(Math.cos(angle) * 1E12) / 1E12;
+        let sin = Math.round(Math.sin(angle) * 1E12) / 1E12;
+        return new Point(
+            (mirrored.x * cos - mirrored.y * sin) * this.scale + this.offset.x,
+            (mirrored.x * sin + mirrored.y * cos) * this.scale + this.offset.y);
+    }
+
+    /**
+     * The placement of content transformed by the object transformation
+     * and moved to center, inside this placement.
+     */
+    compose(
+        center:Point,
+        mirroring:ObjectMirroring,
+        rotation:number,
+        scale:number,
+        invert:boolean):Placement {
+        return new Placement(
+            this.point(center),
+            combineMirroring(this.mirroring, mirroring),
+            // Reflections reverse the inner rotation.
+            this.rotation + ((this.isReflection) ? -rotation : rotation),
+            this.scale * scale,
+            this.invert != invert);
+    }
+
+    translate(vector:Point):Placement {
+        return this.compose(vector, ObjectMirroring.NONE, 0, 1, false);
+    }
+
+    state(state:ObjectState):ObjectState {
+        let inner = this.compose(new Point(), state.mirroring, state.rotation, state.scale, false);
+        let polarity = state.polarity;
+        if (this.invert) {
+            polarity = (polarity == ObjectPolarity.LIGHT) ? ObjectPolarity.DARK : ObjectPolarity.LIGHT;
+        }
+        return new ObjectState(
+            polarity,
+            inner.mirroring,
+            inner.scale,
+            inner.rotation,
+            (state.chordTolerance > 0) ? state.chordTolerance * this.scale : state.chordTolerance);
+    }
+}
+
+function combineMirroring(first:ObjectMirroring, second:ObjectMirroring):ObjectMirroring {
+    let x = (first == ObjectMirroring.X_AXIS || first == ObjectMirroring.XY_AXIS)
+        != (second == ObjectMirroring.X_AXIS || second == ObjectMirroring.XY_AXIS);
+    let y = (first == ObjectMirroring.Y_AXIS || first == ObjectMirroring.XY_AXIS)
+        != (second == ObjectMirroring.Y_AXIS || second == ObjectMirroring.XY_AXIS);
+    if (x && y) {
+        return ObjectMirroring.XY_AXIS;
+    } else if (x) {
+        return ObjectMirroring.X_AXIS;
+    } else if (y) {
+        return ObjectMirroring.Y_AXIS;
+    }
+    return ObjectMirroring.NONE;
+}
+
+/**
+ * The image transformation as a placement. Only images scaled by the same
+ * factor on both axes can be placed.
+ */
+function imagePlacement(transform:ImageTransform):Placement {
+    if (!transform.isUniform) {
+        throw new GerberParseException("Image scaled by different factors can not be flattened.");
+    }
+    let mirrorA = transform.mirrorA != (transform.scaleA < 0);
+    let mirrorB = transform.mirrorB != (transform.scaleB < 0);
+    let mirroring = combineMirroring(
+        (mirrorA) ? ObjectMirroring.X_AXIS : ObjectMirroring.NONE,
+        (mirrorB) ? ObjectMirroring.Y_AXIS : ObjectMirroring.NONE);
+    let placement = new Placement(
+        new Point(transform.offsetA, transform.offsetB),
+        ObjectMirroring.NONE,
+        transform.rotation,
+        1,
+        transform.polarity == ImagePolarity.NEGATIVE)
+        .compose(new Point(), mirroring, 0, Math.abs(transform.scaleA), false);
+    if (transform.axisSelect == AxisSelect.AYBX) {
+        // Swapping the axes is a reflection on the Y axis rotated by 90.
+        placement = placement
+            .compose(new Point(), ObjectMirroring.NONE, 90, 1, false)
+            .compose(new Point(), ObjectMirroring.Y_AXIS, 0, 1, false);
+    }
+    return placement;
+}
+
+function placeSegment(segment:RegionSegment, placement:Placement):RegionSegment {
+    if (segment instanceof LineSegment) {
+        return new LineSegment(placement.point(segment.from), placement.point(segment.to), segment.cmd);
+    } else if (segment instanceof ArcSegment) {
+        return new ArcSegment(
+            placement.point(segment.center),
+            segment.radius * placement.scale,
+            placement.point(segment.start),
+            placement.point(segment.end),
+            segment.isCCW != placement.isReflection,
+            segment.cmd);
+    }
+    return new CircleSegment(
+        placement.point(segment.center), segment.radius * placement.scale, segment.cmd);
+}
+
+function placePrimitives(
+    primitives:Array<GraphicsPrimitive>,
+    placement:Placement,
+    result:Array<FlatPrimitive>) {
+    primitives.forEach(p => {
+        if (p instanceof Line) {
+            result.push(new Line(
+                placement.point(p.from),
+                placement.point(p.to),
+                p.aperture,
+                placement.state(p.state),
+                p.cmd,
+                p.attributes));
+        } else if (p instanceof Circle) {
+            result.push(new Circle(
+                placement.point(p.center),
+                p.radius * placement.scale,
+                p.aperture,
+                placement.state(p.state),
+                p.cmd,
+                p.attributes));
+        } else if (p instanceof Arc) {
+            result.push(new Arc(
+                placement.point(p.center),
+                p.radius * placement.scale,
+                placement.point(p.start),
+                placement.point(p.end),
+                p.isCCW != placement.isReflection,
+                p.aperture,
+                placement.state(p.state),
+                p.cmd,
+                p.attributes));
+        } else if (p instanceof Flash) {
+            if (p.aperture instanceof BlockAperture) {
+                placePrimitives(
+                    p.aperture.primitives,
+                    placement.compose(
+                        p.center,
+                        p.state.mirroring,
+                        p.state.rotation,
+                        p.state.scale,
+                        p.state.polarity == ObjectPolarity.LIGHT),
+                    result);
+            } else {
+                result.push(new Flash(
+                    placement.point(p.center),
+                    p.aperture,
+                    placement.state(p.state),
+                    p.cmd,
+                    p.attributes));
+            }
+        } else if (p instanceof Region) {
+            result.push(new Region(
+                p.contours.map(contour => contour.map(segment => placeSegment(segment, placement))),
+                placement.state(p.state),
+                p.cmd,
+                p.attributes));
+        } else {
+            let block = p.block;
+            for (let xCnt = 0; xCnt < block.xRepeat; xCnt++) {
+                for (let yCnt = 0; yCnt < block.yRepeat; yCnt++) {
+                    let offset = new Point(
+                        p.xOffset + xCnt * block.xDelta,
+                        p.yOffset + yCnt * block.yDelta);
+                    placePrimitives(block.primitives, placement.translate(offset), result);
+                }
+            }
+        }
+    });
+}
+
+/**
+ * Expands step and repeat blocks and block aperture flashes into lines,
+ * arcs, flashes and regions. The block offsets, the aperture
+ * transformations of block flashes and the polarity inversion of clear
+ * flashes are applied to the content.
+ *
+ * The primitives of a file with an image transformation keep the file
+ * coordinates, pass the transformation of the file to apply it.
+ */
+export function flattenPrimitives(
+    primitives:Array<GraphicsPrimitive>,
+    transform?:ImageTransform):Array<FlatPrimitive> {
+    let result:Array<FlatPrimitive> = [];
+    let placement = (transform) ? imagePlacement(transform) : new Placement();
+    placePrimitives(primitives, placement, result);
+    if (placement.invert && result.length > 0) {
+        // Negative images are cleared from a dark background.
+        let objects:GraphicsObjects = [];
+        result.forEach(p => objects.push(...p.objects));
+        let bounds = objectsBounds(objects);
+        let corners = [
+            bounds.min,
+            new Point(bounds.max.x, bounds.min.y),
+            bounds.max,
+            new Point(bounds.min.x, bounds.max.y)];
+        let contour:RegionContour = corners.map((corner, idx) =>
+            new LineSegment(corner, corners[(idx + 1) % corners.length], result[0].cmd));
+        result.unshift(new Region([contour], new ObjectState(), result[0].cmd));
+    }
+    return result;
+}
@@ -0,0 +1,277 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains a converter that rewrites a gerber file in a different
+ * coordinate format and units. Unlike the gerber writer it keeps the original
+ * commands, only the coordinates, aperture sizes and macro lengths are
+ * re-encoded. Rounding errors above a threshold are reported.
+ */
+import {
+    CoordinateFormatSpec,
+    CoordinateSkipZeros,
+    CoordinateType,
+    CoordinateUnits,
+    GerberCommand,
+    GerberParseException,
+    Primitive,
+    PrimitiveComment,
+    VariableDefinition,
+    unitsFactor,
+} from "./primitives";
+import {
+    ADCommand,
+    AMCommand,
+    D01Command,
+    D02Command,
+    D03Command,
+    FSCommand,
+    G70Command,
+    G71Command,
+    MOCommand,
+    OFCommand,
+    SRCommand,
+    formatFixedNumber,
+} from "./commands";
+import {GerberParser} from "./grbparser";
+import {DiagnosticCode, DiagnosticReport} from "./diagnostics";
+import {formatFloat} from "./utils";
+
+/**
+ * Indexes of the modifiers that are lengths for each macro primitive code.
+ * The outline lengths depend on the number of modifiers.
+ */
+const MacroLengths:{[code:number]:Array<number>} = {
+    1: [1, 2, 3],
+    2: [1, 2, 3, 4, 5],
+    5: [2, 3, 4],
+    6: [0, 1, 2, 3, 4, 6, 7],
+    7: [0, 1, 2, 3, 4],
+    20: [1, 2, 3, 4, 5],
+    21: [1, 2, 3, 4],
+    22: [1, 2, 3, 4]
+};
+
+/**
+ * Indexes of the modifiers that are lengths for each standard aperture.
+ */
+const ApertureLengths:{[template:string]:Array<number>} = {
+    "C": [0, 1],
+    "R": [0, 1, 2],
+    "O": [0, 1, 2],
+    "P": [0, 3]
+};
+
+export class FormatConverter {
+    public units = CoordinateUnits.MILIMETERS;
+    public integerDigits = 4;
+    public decimalDigits = 6;
+    // Rounding errors above the threshold, in the output units, are reported.
+    public threshold = 1E-6;
+    // The largest rounding error of the last conversion.
+    public maxError = 0;
+    private fmt_:CoordinateFormatSpec;
+    private factor_:number;
+    private lineError_:number;
+
+    constructor(readonly diagnostics:DiagnosticReport = new DiagnosticReport()) {
+    }
+
+    convert(content:string):string {
+        let parser = new GerberParser();
+        parser.parseBlock(content);
+        parser.checkErrors();
+        this.maxError = 0;
+        this.fmt_ = new CoordinateFormatSpec(
+            CoordinateSkipZeros.LEADING,
+            CoordinateType.ABSOLUTE,
+            this.integerDigits,
+            this.decimalDigits,
+            this.integerDigits,
+            this.decimalDigits);
+        this.factor_ = undefined;
+        let result = "";
+        for (let cmd of parser.parsedCommands) {
+            this.lineError_ = 0;
+            let cmdString:string;
+            try {
+                cmdString = this.formatCommand(cmd);
+            } catch (e) {
+                if (e instanceof GerberParseException && e.line == undefined) {
+                    throw new GerberParseException(e.message, cmd.lineNo);
+                }
+                throw e;
+            }
+            if (this.lineError_ > this.threshold) {
+                this.diagnostics.warning(
+                    DiagnosticCode.PRECISION_LOSS,
+                    `Rounding error ${formatFloat(this.lineError_, 9)}`
+                        + ` ${(this.units == CoordinateUnits.MILIMETERS) ? "mm" : "in"}`,
+                    cmd.lineNo,
+                    undefined,
+                    cmdString.substr(0, 100),
+                    "Use more decimal digits");
+            }
+            // The deprecated G70 and G71 are replaced by the extended MO command.
+            if (cmd.isAdvanced || cmd instanceof G70Command || cmd instanceof G71Command) {
+                result += "%" + cmdString + "%";
+            } else {
+                result += cmdString + "*";
+            }
+            result += "\n";
+        }
+        return result;
+    }
+
+    private formatCommand(cmd:GerberCommand):string {
+        if (cmd instanceof FSCommand) {
+            this.fmt_ = new CoordinateFormatSpec(
+                CoordinateSkipZeros.LEADING,
+                cmd.coordinateFormat.coordType,
+                this.integerDigits,
+                this.decimalDigits,
+                this.integerDigits,
+                this.decimalDigits);
+            return new FSCommand(
+                `FSL${(cmd.coordinateFormat.coordType == CoordinateType.ABSOLUTE) ? "A" : "I"}`
+                + `X${this.integerDigits}${this.decimalDigits}`
+                + `Y${this.integerDigits}${this.decimalDigits}*`).formatOutput();
+        } else if (cmd instanceof MOCommand) {
+            return this.setUnits(cmd.units);
+        } else if (cmd instanceof G70Command) {
+            return this.setUnits(CoordinateUnits.INCHES);
+        } else if (cmd instanceof G71Command) {
+            return this.setUnits(CoordinateUnits.MILIMETERS);
+        } else if (cmd instanceof D01Command) {
+            return this.coordinate("X", cmd.x)
+                + this.coordinate("Y", cmd.y)
+                + this.coordinate("I", cmd.i)
+                + this.coordinate("J", cmd.j)
+                + "D01";
+        } else if (cmd instanceof D02Command || cmd instanceof D03Command) {
+            return this.coordinate("X", cmd.x)
+                + this.coordinate("Y", cmd.y)
+                + cmd.name;
+        } else if (cmd instanceof ADCommand) {
+            return this.formatAperture(cmd);
+        } else if (cmd instanceof AMCommand) {
+            return this.formatMacro(cmd);
+        } else if (cmd instanceof SRCommand) {
+            if (cmd.x == undefined) {
+                return cmd.formatOutput();
+            }
+            return `SRX${cmd.x}Y${cmd.y}I${this.length(cmd.i)}J${this.length(cmd.j)}*`;
+        } else if (cmd instanceof OFCommand) {
+            return `OFA${this.length(cmd.offsetA)}B${this.length(cmd.offsetB)}*`;
+        }
+        return cmd.formatOutput(this.fmt_);
+    }
+
+    private setUnits(units:CoordinateUnits):string {
+        this.factor_ = unitsFactor(units, this.units);
+        return (this.units == CoordinateUnits.MILIMETERS) ? "MOMM*" : "MOIN*";
+    }
+
+    private get factor():number {
+        if (this.factor_ == undefined) {
+            throw new GerberParseException("Coordinate units are not set.");
+        }
+        return this.factor_;
+    }
+
+    private coordinate(axis:string, value:number):string {
+        if (value == undefined) {
+            return "";
+        }
+        let scaled = value * this.factor;
+        let result = formatFixedNumber(scaled, this.decimalDigits, this.integerDigits, this.fmt_.coordFormat);
+        let pow = Math.pow(10, this.decimalDigits);
+        this.addError(Math.abs(scaled - Math.round(scaled * pow) / pow));
+        return axis + result;
+    }
+
+    /**
+     * Lengths outside of coordinates are decimal numbers, they keep at
+     * least six decimal digits.
+     */
+    private length(value:number):string {
+        let scaled = value * this.factor;
+        let result = formatFloat(scaled, Math.max(this.decimalDigits, 6));
+        this.addError(Math.abs(scaled - Number.parseFloat(result)));
+        return result;
+    }
+
+    private addError(error:number) {
+        this.lineError_ = Math.max(this.lineError_, error);
+        this.maxError = Math.max(this.maxError, error);
+    }
+
+    private formatAperture(cmd:ADCommand):string {
+        let definition = cmd.definition;
+        let lengths = ApertureLengths[definition.templateName];
+        // Macro apertures are scaled in the macro definition.
+        let modifiers = definition.modifiers.map((m, idx) =>
+            (lengths && lengths.indexOf(idx) >= 0) ? this.length(m) : m.toString());
+        return `ADD${definition.apertureId}${definition.templateName}`
+            + ((modifiers.length > 0) ? "," + modifiers.join("X") : "")
+            + "*";
+    }
+
+    private formatMacro(cmd:AMCommand):string {
+        let result = "AM" + cmd.macro.macroName + "*";
+        for (let part of cmd.macro.content) {
+            result += "\n";
+            if (part instanceof VariableDefinition) {
+                result += "$" + part.id + "=" + part.expression + "*";
+            } else if (part instanceof PrimitiveComment) {
+                result += "0 " + part.text + "*";
+            } else {
+                let primitive = part as Primitive;
+                let lengths = MacroLengths[primitive.code];
+                if (primitive.code == 4) {
+                    // Outline, the vertices are between the vertex count and
+                    // the rotation.
+                    lengths = primitive.modifiers.map((m, idx) => idx).slice(2, -1);
+                }
+                let modifiers = primitive.modifiers.map((m, idx) => {
+                    let expression = m.toString();
+                    if (!lengths || lengths.indexOf(idx) < 0 || this.factor == 1) {
+                        return expression;
+                    }
+                    if (/^[\+\-]?(?:\d*\.\d+|\d+)$/.test(expression)) {
+                        return this.length(Number.parseFloat(expression));
+                    }
+                    return `(${expression})x${formatFloat(this.factor, 12)}`;
+                });
+                result += [primitive.code, ...modifiers].join(",") + "*";
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Converts a gerber file to the coordinate format and units, for example
+     * 2.4 inch files to 4.6 millimeters. The diagnostics report the rounding
+     * errors above the threshold.
+     */
+    public static ConvertFormat(
+        content:string,
+        units:CoordinateUnits,
+        integerDigits:number,
+        decimalDigits:number,
+        threshold:number = 1E-6,
+        diagnostics:DiagnosticReport = new DiagnosticReport()):string {
+        let converter = new FormatConverter(diagnostics);
+        converter.units = units;
+        converter.integerDigits = integerDigits;
+        converter.decimalDigits = decimalDigits;
+        converter.threshold = threshold;
+        return converter.convert(content);
+    }
+}
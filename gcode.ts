@@ -0,0 +1,343 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains a toolpath generator for milling prototype boards. The
+ * copper is isolated by cutting around the solids offset by the tool radius,
+ * the drill hits are plunged and the board is cut out along the outline
+ * leaving holding tabs. The toolpaths are written as RS-274 G-code.
+ */
+import {
+    ApertureDefinition,
+    CoordinateUnits,
+    Flash,
+    GraphicsPrimitive,
+    Line,
+} from "./primitives";
+import {Point} from "./point";
+import {
+    JoinType,
+    Polygon,
+    PolygonSet,
+    enclosedArea,
+    offsetPolygonSet,
+    splitIslands,
+} from "./polygonSet";
+import {GerberToPolygons, PrimitiveConverter} from "./converters";
+import {formatFloat} from "./utils";
+import {Build} from "./build";
+
+export enum ToolpathType {
+    ISOLATION,
+    DRILL,
+    CUTOUT
+}
+
+export class Toolpath {
+    constructor(
+        readonly type:ToolpathType,
+        // x, y pairs, closed paths end with the start point.
+        readonly points:Polygon,
+        // Depth of the cut below the surface.
+        readonly depth:number,
+        readonly toolDiameter:number) {
+    }
+
+    get start():Point {
+        return new Point(this.points[0], this.points[1]);
+    }
+
+    get end():Point {
+        let len = this.points.length;
+        return new Point(this.points[len - 2], this.points[len - 1]);
+    }
+}
+
+function closePath(poly:Polygon):Polygon {
+    let len = poly.length;
+    if (len >= 2 && poly[0] == poly[len - 2] && poly[1] == poly[len - 1]) {
+        return poly;
+    }
+    let result = new Float64Array(len + 2);
+    result.set(poly);
+    result[len] = poly[0];
+    result[len + 1] = poly[1];
+    return result;
+}
+
+function pathLength(path:Polygon):number {
+    let result = 0;
+    for (let idx = 2; idx < path.length; idx += 2) {
+        result += Math.hypot(path[idx] - path[idx - 2], path[idx + 1] - path[idx - 1]);
+    }
+    return result;
+}
+
+/**
+ * Splits a path at the distances along it, the distances must be sorted.
+ */
+function splitPath(path:Polygon, distances:Array<number>):Array<Polygon> {
+    let result:Array<Polygon> = [];
+    let current:Array<number> = [path[0], path[1]];
+    let travelled = 0;
+    let next = 0;
+    for (let idx = 2; idx < path.length; idx += 2) {
+        let x1 = path[idx - 2];
+        let y1 = path[idx - 1];
+        let x2 = path[idx];
+        let y2 = path[idx + 1];
+        let length = Math.hypot(x2 - x1, y2 - y1);
+        while (next < distances.length && distances[next] <= travelled + length) {
+            let t = (length > 0) ? (distances[next] - travelled) / length : 0;
+            let x = x1 + (x2 - x1) * t;
+            let y = y1 + (y2 - y1) * t;
+            current.push(x, y);
+            result.push(Float64Array.from(current));
+            current = [x, y];
+            next++;
+        }
+        current.push(x2, y2);
+        travelled += length;
+    }
+    result.push(Float64Array.from(current));
+    return result;
+}
+
+/**
+ * Generates the milling toolpaths of a board. All sizes, depths and feed
+ * rates are in the router units, the input is converted to them.
+ */
+export class IsolationRouter {
+    public units = CoordinateUnits.MILIMETERS;
+    public toolDiameter = 0.2;
+    public passes = 1;
+    // Overlap of the consecutive isolation passes, a fraction of the tool.
+    public overlap = 0.5;
+    public depth = 0.1;
+    public safeHeight = 2;
+    // Feed rates per minute.
+    public feedRate = 200;
+    public plungeRate = 50;
+    public spindleSpeed = 10000;
+    public drillDepth = 1.8;
+    public cutoutToolDiameter = 1;
+    public cutoutDepth = 1.8;
+    public cutoutStepDown = 0.6;
+    public tabs = 4;
+    public tabWidth = 2;
+    // Material left under the tabs.
+    public tabHeight = 0.6;
+    // Chord error of the round offsets and arcs.
+    public tolerance = 0.01;
+    readonly toolpaths:Array<Toolpath> = [];
+
+    /**
+     * Cuts around the copper solids, each pass further away from the
+     * copper.
+     */
+    isolate(solids:PolygonSet):Array<Toolpath> {
+        let result:Array<Toolpath> = [];
+        let step = this.toolDiameter * (1 - this.overlap);
+        for (let pass = 0; pass < this.passes; pass++) {
+            let offset = this.toolDiameter / 2 + pass * step;
+            offsetPolygonSet(solids, offset, JoinType.ROUND, 2, this.tolerance).polygonSet
+                .forEach(poly => result.push(new Toolpath(
+                    ToolpathType.ISOLATION, closePath(poly), this.depth, this.toolDiameter)));
+        }
+        return this.add(result);
+    }
+
+    /**
+     * Drill hits and routed slots, grouped by the tool from the smallest.
+     */
+    drill(primitives:Array<GraphicsPrimitive>):Array<Toolpath> {
+        let result:Array<Toolpath> = [];
+        primitives.forEach(p => {
+            if (!(p instanceof Flash || p instanceof Line)
+                || !(p.aperture instanceof ApertureDefinition)) {
+                return;
+            }
+            let diameter = p.aperture.modifiers[0] * p.state.scale;
+            let points = (p instanceof Flash)
+                ? Float64Array.of(p.center.x, p.center.y)
+                : Float64Array.of(p.from.x, p.from.y, p.to.x, p.to.y);
+            result.push(new Toolpath(ToolpathType.DRILL, points, this.drillDepth, diameter));
+        });
+        let tools = Array.from(new Set(result.map(path => path.toolDiameter))).sort((a, b) => a - b);
+        let sorted:Array<Toolpath> = [];
+        tools.forEach(tool => sorted.push(...result.filter(path => path.toolDiameter == tool)));
+        return this.add(sorted);
+    }
+
+    /**
+     * Cuts the board out outside of the board area, in steps down to the
+     * cutout depth. The outer edges keep tabs, the inner cutouts fall out.
+     */
+    cutout(board:PolygonSet):Array<Toolpath> {
+        let radius = this.cutoutToolDiameter / 2;
+        let paths = offsetPolygonSet(board, radius, JoinType.ROUND, 2, this.tolerance).polygonSet;
+        let inner:Array<Polygon> = [];
+        let outer:Array<Polygon> = [];
+        splitIslands(paths).forEach(island => island.forEach((poly, idx) => {
+            ((idx == 0) ? outer : inner).push(closePath(poly));
+        }));
+        let tabDepth = this.cutoutDepth - this.tabHeight;
+        let result:Array<Toolpath> = [];
+        [...inner, ...outer].forEach(path => {
+            let pieces = (outer.indexOf(path) >= 0) ? this.tabPieces(path) : [{points:path, tab:false}];
+            let depth = 0;
+            while (depth < this.cutoutDepth - 1E-9) {
+                depth = Math.min(depth + this.cutoutStepDown, this.cutoutDepth);
+                pieces.forEach(piece => result.push(new Toolpath(
+                    ToolpathType.CUTOUT,
+                    piece.points,
+                    (piece.tab) ? Math.min(depth, tabDepth) : depth,
+                    this.cutoutToolDiameter)));
+            }
+        });
+        return this.add(result);
+    }
+
+    /**
+     * G-code of the toolpaths. The tool is changed when the toolpath type or
+     * the diameter changes, a drill and an end mill of the same size are
+     * different tools. Consecutive cuts that continue where the last one
+     * ended change the depth without retracting.
+     */
+    write():string {
+        let result = `(Generated by grbparser ${Build})\n`;
+        result += (this.units == CoordinateUnits.MILIMETERS) ? "G21\n" : "G20\n";
+        result += "G90\nG94\n";
+        result += `G00 Z${this.format(this.safeHeight)}\n`;
+        let tool:Toolpath;
+        let toolNumber = 0;
+        let last:Toolpath;
+        // The feed rate is modal, it is written when it changes.
+        let currentFeed:number;
+        let feed = (rate:number):string => {
+            if (rate == currentFeed) {
+                return "";
+            }
+            currentFeed = rate;
+            return ` F${this.format(rate)}`;
+        };
+        this.toolpaths.forEach(path => {
+            if (!tool || path.type != tool.type || path.toolDiameter != tool.toolDiameter) {
+                tool = path;
+                toolNumber++;
+                if (last) {
+                    result += `G00 Z${this.format(this.safeHeight)}\nM05\n`;
+                }
+                result += `T${toolNumber} M06 (Tool ${this.format(tool.toolDiameter)})\n`;
+                result += `M03 S${this.spindleSpeed}\n`;
+                last = undefined;
+            }
+            let continues = last
+                && last.type != ToolpathType.DRILL
+                && path.type != ToolpathType.DRILL
+                && last.end.distance(path.start) < 1E-9;
+            if (!continues) {
+                if (last) {
+                    result += `G00 Z${this.format(this.safeHeight)}\n`;
+                }
+                result += `G00 X${this.format(path.points[0])} Y${this.format(path.points[1])}\n`;
+            }
+            if (!continues || last.depth != path.depth) {
+                result += `G01 Z${this.format(-path.depth)}${feed(this.plungeRate)}\n`;
+            }
+            for (let idx = 2; idx < path.points.length; idx += 2) {
+                result += `G01 X${this.format(path.points[idx])} Y${this.format(path.points[idx + 1])}`;
+                result += `${feed(this.feedRate)}\n`;
+            }
+            last = path;
+        });
+        result += `G00 Z${this.format(this.safeHeight)}\nM05\nM30\n`;
+        return result;
+    }
+
+    /**
+     * Generates the toolpaths of the copper, drill and outline files and
+     * returns the G-code.
+     */
+    generate(copper:string, drill?:string, outline?:string):string {
+        this.toolpaths.splice(0);
+        let options = {chordTolerance:this.tolerance, outputUnits:this.units};
+        this.isolate(GerberToPolygons(copper, true, options).solids);
+        if (drill) {
+            this.drill(PrimitiveConverter.ExcellonToPrimitives(drill, options));
+        }
+        if (outline) {
+            let solids = GerberToPolygons(outline, true, options).solids;
+            this.cutout(enclosedArea(solids));
+        }
+        return this.write();
+    }
+
+    public static GerberToGCode(
+        copper:string,
+        drill?:string,
+        outline?:string,
+        units:CoordinateUnits = CoordinateUnits.MILIMETERS):string {
+        let router = new IsolationRouter();
+        if (units == CoordinateUnits.INCHES) {
+            router.convertSettings(1 / 25.4);
+            router.units = units;
+        }
+        return router.generate(copper, drill, outline);
+    }
+
+    /**
+     * Scales all sizes and feed rates, when changing the router units.
+     */
+    convertSettings(factor:number) {
+        this.toolDiameter *= factor;
+        this.depth *= factor;
+        this.safeHeight *= factor;
+        this.feedRate *= factor;
+        this.plungeRate *= factor;
+        this.drillDepth *= factor;
+        this.cutoutToolDiameter *= factor;
+        this.cutoutDepth *= factor;
+        this.cutoutStepDown *= factor;
+        this.tabWidth *= factor;
+        this.tabHeight *= factor;
+        this.tolerance *= factor;
+    }
+
+    /**
+     * Splits a closed path at the tabs, spaced evenly along the path. The
+     * tool is lifted over the tab width and the tool diameter.
+     */
+    private tabPieces(path:Polygon):Array<{points:Polygon, tab:boolean}> {
+        let length = pathLength(path);
+        let tabLength = this.tabWidth + this.cutoutToolDiameter;
+        if (this.tabs <= 0 || this.tabHeight <= 0 || tabLength * this.tabs >= length) {
+            return [{points:path, tab:false}];
+        }
+        let distances:Array<number> = [];
+        for (let idx = 0; idx < this.tabs; idx++) {
+            let center = (idx + 0.5) * length / this.tabs;
+            distances.push(center - tabLength / 2, center + tabLength / 2);
+        }
+        // The path starts between the tabs, every other piece is a tab.
+        return splitPath(path, distances).map((points, idx) => {
+            return {points:points, tab:(idx % 2) == 1};
+        });
+    }
+
+    private add(toolpaths:Array<Toolpath>):Array<Toolpath> {
+        this.toolpaths.push(...toolpaths);
+        return toolpaths;
+    }
+
+    private format(n:number):string {
+        let result = formatFloat(n, (this.units == CoordinateUnits.MILIMETERS) ? 4 : 5);
+        return (result == "-0.0") ? "0.0" : result;
+    }
+}
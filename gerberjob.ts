@@ -0,0 +1,293 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains the reader for Ucamco Gerber job files (.gbrjob).
+ * The job file is a JSON document describing the board stackup and the
+ * function of each Gerber or drill file in the fabrication data set.
+ */
+
+import {GerberParseException} from "./primitives";
+import {
+    BoardLayer,
+    BoardSide,
+    FilePolarity,
+    GerberUtils,
+    LayerInfo,
+    LayerInfoSource} from "./gerberutils";
+
+// Thickness of 1oz/ft^2 copper in mm.
+const CopperOzThickness = 0.035;
+
+export class JobFileBinding {
+    constructor(
+        readonly path:string,
+        readonly fileFunction:Array<string>,
+        readonly polarity:FilePolarity,
+        readonly side:BoardSide,
+        readonly layer:BoardLayer,
+        readonly copperIndex?:number) {
+    }
+
+    get layerInfo():LayerInfo {
+        let layerType = GerberUtils.fileFunctionToLayer(this.fileFunction);
+        return {
+            side:this.side,
+            layer:this.layer,
+            copperIndex:this.copperIndex,
+            plated:(layerType) ? layerType.plated : undefined,
+            drillSpan:(layerType) ? layerType.drillSpan : undefined,
+            polarity:this.polarity,
+            source:LayerInfoSource.JobFile,
+            confidence:1
+        };
+    }
+}
+
+export class StackupLayer {
+    readonly files:Array<JobFileBinding> = [];
+
+    constructor(
+        readonly type:string,
+        readonly name:string,
+        readonly thickness?:number,
+        readonly material?:string,
+        readonly color?:string,
+        readonly dielectricConstant?:number,
+        readonly lossTangent?:number) {
+    }
+
+    get isCopper():boolean {
+        return this.type == "Copper";
+    }
+
+    /**
+     * Finished copper weight in oz/ft^2, undefined for non copper layers or
+     * when the thickness is not specified.
+     */
+    get copperWeight():number {
+        if (!this.isCopper || this.thickness == undefined) {
+            return undefined;
+        }
+        return this.thickness / CopperOzThickness;
+    }
+}
+
+export class BoardStackup {
+    constructor(
+        readonly name:string,
+        readonly layers:Array<StackupLayer>,
+        readonly files:Array<JobFileBinding>,
+        readonly boardThickness?:number,
+        readonly layerCount?:number,
+        readonly finish?:string,
+        readonly width?:number,
+        readonly height?:number) {
+    }
+
+    get copperLayers():Array<StackupLayer> {
+        return this.layers.filter(l => l.isCopper);
+    }
+
+    /**
+     * Sum of the layer thicknesses, undefined if any layer has no thickness.
+     */
+    get stackupThickness():number {
+        let result = 0;
+        for (let layer of this.layers) {
+            if (layer.thickness == undefined) {
+                return undefined;
+            }
+            result += layer.thickness;
+        }
+        return result;
+    }
+
+    /**
+     * Finds the binding for a file. Job files use paths relative to the job
+     * file location, so only the file names are compared.
+     */
+    getFile(path:string):JobFileBinding {
+        let fileName = GerberUtils.getFileName(path).toLowerCase();
+        return this.files.find(
+            f => GerberUtils.getFileName(f.path).toLowerCase() == fileName);
+    }
+}
+
+export class GerberJobParser {
+    private static layerTypes:{[type:string]:BoardLayer} = {
+        "Copper":BoardLayer.Copper,
+        "SolderMask":BoardLayer.SolderMask,
+        "Legend":BoardLayer.Silk,
+        "SolderPaste":BoardLayer.Paste,
+    };
+
+    static parse(content:string):BoardStackup {
+        let job:any;
+        try {
+            job = JSON.parse(content);
+        } catch (e) {
+            throw new GerberParseException(`Invalid job file: ${e.message}`);
+        }
+        if (typeof job != "object" || job == null) {
+            throw new GerberParseException("Invalid job file: not a JSON object");
+        }
+        let specs = GerberJobParser.getObject(job, "GeneralSpecs");
+        let projectId = GerberJobParser.getObject(specs, "ProjectId");
+        let size = GerberJobParser.getObject(specs, "Size");
+        let files = GerberJobParser.getArray(job, "FilesAttributes")
+            .map(f => GerberJobParser.parseFile(f));
+        let layers = GerberJobParser.getArray(job, "MaterialStackup")
+            .map(l => GerberJobParser.parseLayer(l));
+        if (layers.length == 0) {
+            layers = GerberJobParser.layersFromFiles(files);
+        }
+        GerberJobParser.bindFiles(layers, files);
+        return new BoardStackup(
+            GerberJobParser.getString(projectId, "Name"),
+            layers,
+            files,
+            GerberJobParser.getNumber(specs, "BoardThickness"),
+            GerberJobParser.getNumber(specs, "LayerNumber"),
+            GerberJobParser.getString(specs, "Finish"),
+            GerberJobParser.getNumber(size, "X"),
+            GerberJobParser.getNumber(size, "Y"));
+    }
+
+    private static parseFile(file:any):JobFileBinding {
+        let path = GerberJobParser.getString(file, "Path");
+        if (path == undefined) {
+            throw new GerberParseException("Invalid job file: file entry without path");
+        }
+        let fileFunction = GerberJobParser.getString(file, "FileFunction");
+        let fields = (fileFunction) ? fileFunction.split(",").map(f => f.trim()) : [];
+        let polarity:FilePolarity;
+        switch (GerberJobParser.getString(file, "FilePolarity")) {
+            case "Positive": polarity = FilePolarity.Positive; break;
+            case "Negative": polarity = FilePolarity.Negative; break;
+            default: polarity = FilePolarity.Unknown; break;
+        }
+        let layerType = GerberUtils.fileFunctionToLayer(fields);
+        if (!layerType) {
+            layerType = {side:BoardSide.Unknown, layer:BoardLayer.Unknown};
+        }
+        return new JobFileBinding(
+            path,
+            fields,
+            polarity,
+            layerType.side,
+            layerType.layer,
+            layerType.copperIndex);
+    }
+
+    private static parseLayer(layer:any):StackupLayer {
+        let type = GerberJobParser.getString(layer, "Type");
+        if (type == undefined) {
+            throw new GerberParseException("Invalid job file: stackup layer without type");
+        }
+        return new StackupLayer(
+            type,
+            GerberJobParser.getString(layer, "Name"),
+            GerberJobParser.getNumber(layer, "Thickness"),
+            GerberJobParser.getString(layer, "Material"),
+            GerberJobParser.getString(layer, "Color"),
+            GerberJobParser.getNumber(layer, "DielectricConstant"),
+            GerberJobParser.getNumber(layer, "LossTangent"));
+    }
+
+    /**
+     * Job files without MaterialStackup still describe the layers with the
+     * file functions, build the stackup order from those.
+     */
+    private static layersFromFiles(files:Array<JobFileBinding>):Array<StackupLayer> {
+        let sideLayers = (side:BoardSide, types:Array<string>) => {
+            let result:Array<StackupLayer> = [];
+            for (let type of types) {
+                let layer = GerberJobParser.layerTypes[type];
+                if (files.some(f => f.side == side && f.layer == layer)) {
+                    result.push(new StackupLayer(type, `${BoardSide[side]} ${type}`));
+                }
+            }
+            return result;
+        }
+        let copperCount = 0;
+        files
+            .filter(f => f.layer == BoardLayer.Copper && f.copperIndex != undefined)
+            .forEach(f => copperCount = Math.max(copperCount, f.copperIndex));
+        let copper:Array<StackupLayer> = [];
+        for (let idx = 1; idx <= copperCount; idx++) {
+            copper.push(new StackupLayer("Copper", `L${idx}`));
+        }
+        return [
+            ...sideLayers(BoardSide.Top, ["SolderPaste", "Legend", "SolderMask"]),
+            ...copper,
+            ...sideLayers(BoardSide.Bottom, ["SolderMask", "Legend", "SolderPaste"])
+        ];
+    }
+
+    private static bindFiles(layers:Array<StackupLayer>, files:Array<JobFileBinding>) {
+        let copper = layers.filter(l => l.isCopper);
+        let firstCopper = layers.indexOf(copper[0]);
+        let lastCopper = layers.indexOf(copper[copper.length - 1]);
+        for (let file of files) {
+            let layer:StackupLayer;
+            if (file.layer == BoardLayer.Copper) {
+                if (file.copperIndex != undefined) {
+                    layer = copper[file.copperIndex - 1];
+                }
+            } else if (file.side == BoardSide.Top || file.side == BoardSide.Bottom) {
+                let candidates = layers;
+                if (copper.length > 0) {
+                    candidates = (file.side == BoardSide.Top)
+                        ? layers.slice(0, firstCopper)
+                        : layers.slice(lastCopper + 1);
+                }
+                layer = candidates.find(l => GerberJobParser.layerTypes[l.type] == file.layer);
+            }
+            if (layer) {
+                layer.files.push(file);
+            }
+        }
+    }
+
+    private static getObject(obj:any, name:string):any {
+        if (obj == undefined || typeof obj[name] != "object" || obj[name] == null) {
+            return undefined;
+        }
+        return obj[name];
+    }
+
+    private static getArray(obj:any, name:string):Array<any> {
+        if (obj == undefined || obj[name] == undefined) {
+            return [];
+        }
+        if (!Array.isArray(obj[name])) {
+            throw new GerberParseException(`Invalid job file: ${name} is not an array`);
+        }
+        return obj[name];
+    }
+
+    private static getString(obj:any, name:string):string {
+        if (obj == undefined || obj[name] == undefined) {
+            return undefined;
+        }
+        return String(obj[name]);
+    }
+
+    private static getNumber(obj:any, name:string):number {
+        if (obj == undefined || obj[name] == undefined) {
+            return undefined;
+        }
+        let result = Number(obj[name]);
+        if (isNaN(result)) {
+            throw new GerberParseException(`Invalid job file: ${name} is not a number`);
+        }
+        return result;
+    }
+}
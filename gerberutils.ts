@@ -27,6 +27,36 @@ export enum BoardFileType {
     Unsupported
 }
 
+export enum FilePolarity {
+    Positive,
+    Negative,
+    Unknown,
+}
+
+export enum LayerInfoSource {
+    JobFile,
+    FileAttributes,
+    FileName,
+    None,
+}
+
+export interface LayerInfo {
+    readonly side:BoardSide;
+    readonly layer:BoardLayer;
+    // Copper layer number from the L<p> field, 1 is the top layer.
+    readonly copperIndex?:number;
+    // Plating of drill and rout layers, undefined when it is not known.
+    readonly plated?:boolean;
+    // First and last copper layer joined by a plated drill layer.
+    readonly drillSpan?:[number, number];
+    readonly polarity:FilePolarity;
+    // Identifier from .SameCoordinates, empty string if the attribute has no value.
+    readonly sameCoordinates?:string;
+    readonly source:LayerInfoSource;
+    // 1 when the layer is taken from X2 attributes, lower for name based guesses.
+    readonly confidence:number;
+}
+
 class FileNameDescriptor {
     readonly fileString:string;
     readonly boardType: { side: BoardSide, layer: BoardLayer };
@@ -368,6 +398,163 @@ export class GerberUtils {
         return result;
     }
 
+    private static fileFunctionExp = /TF\.FileFunction,([^*%\r\n]*)/;
+    private static filePolarityExp = /TF\.FilePolarity,([^*%\r\n]*)/;
+    private static sameCoordinatesExp = /TF\.SameCoordinates(?:,([^*%\r\n]*))?[*\r\n]/;
+    private static drillTypeExp = /TYPE=(NON_)?PLATED/i;
+
+    /**
+     * Maps the fields of a .FileFunction attribute to board side and layer.
+     * Returns undefined for an empty or unknown function.
+     */
+    public static fileFunctionToLayer(fields:Array<string>)
+        : { side: BoardSide, layer: BoardLayer, copperIndex?:number, plated?:boolean, drillSpan?:[number, number] } {
+        if (fields.length == 0) {
+            return undefined;
+        }
+        let sideField = (idx:number):BoardSide => {
+            switch (fields[idx]) {
+                case "Top": return BoardSide.Top;
+                case "Bot": return BoardSide.Bottom;
+                case "Inr": return BoardSide.Internal;
+            }
+            return BoardSide.Unknown;
+        }
+        switch (fields[0]) {
+            case "Copper": {
+                let match = /^L(\d+)$/.exec(fields[1]);
+                if (!match) {
+                    return { side:sideField(2), layer:BoardLayer.Copper };
+                }
+                return {
+                    side:sideField(2),
+                    layer:BoardLayer.Copper,
+                    copperIndex:Number.parseInt(match[1])
+                };
+            }
+            case "Soldermask":
+            case "SolderMask":
+                return { side:sideField(1), layer:BoardLayer.SolderMask };
+            case "Legend":
+                return { side:sideField(1), layer:BoardLayer.Silk };
+            case "Paste":
+                return { side:sideField(1), layer:BoardLayer.Paste };
+            case "Carbonmask":
+                return { side:sideField(1), layer:BoardLayer.Carbon };
+            case "Profile":
+                return { side:BoardSide.Both, layer:BoardLayer.Outline };
+            case "Plated":
+            case "NonPlated": {
+                let plated = fields[0] == "Plated";
+                let from = Number.parseInt(fields[1]);
+                let to = Number.parseInt(fields[2]);
+                let drillSpan:[number, number] = (plated && from > 0 && to > 0)
+                    ? [Math.min(from, to), Math.max(from, to)]
+                    : undefined;
+                if (fields[4] == "Rout") {
+                    return { side:BoardSide.Both, layer:BoardLayer.Mill, plated:plated, drillSpan:drillSpan };
+                }
+                return { side:BoardSide.Both, layer:BoardLayer.Drill, plated:plated, drillSpan:drillSpan };
+            }
+            case "Depthrout":
+            case "Vcut":
+                return { side:sideField(1), layer:BoardLayer.Mill };
+            case "AssemblyDrawing":
+            case "Component":
+                return { side:sideField(fields.length - 1), layer:BoardLayer.Assembly };
+            case "Drillmap":
+            case "FabricationDrawing":
+            case "Vcutmap":
+            case "ArrayDrawing":
+            case "OtherDrawing":
+                return { side:BoardSide.Both, layer:BoardLayer.Notes };
+            case "Glue":
+            case "Goldmask":
+            case "Heatsinkmask":
+            case "Peelablemask":
+            case "Silvermask":
+            case "Tinmask":
+            case "Pads":
+                return { side:sideField(1), layer:BoardLayer.Mechanical };
+            case "Keep-out":
+            case "Viafill":
+            case "Other":
+                return { side:BoardSide.Both, layer:BoardLayer.Mechanical };
+        }
+        return undefined;
+    }
+
+    /**
+     * Identifies the layer from the X2 file attributes in the content, both
+     * the %TF...*% form and the G04 #@! / Excellon comment forms. Falls back
+     * to the file name heuristics when there is no usable .FileFunction.
+     */
+    public static determineLayerInfo(fileName:string, content:string):LayerInfo {
+        let polarity = FilePolarity.Unknown;
+        let match = GerberUtils.filePolarityExp.exec(content);
+        if (match) {
+            switch (match[1].trim()) {
+                case "Positive": polarity = FilePolarity.Positive; break;
+                case "Negative": polarity = FilePolarity.Negative; break;
+            }
+        }
+        let sameCoordinates:string;
+        match = GerberUtils.sameCoordinatesExp.exec(content);
+        if (match) {
+            sameCoordinates = (match[1]) ? match[1].trim() : "";
+        }
+        match = GerberUtils.fileFunctionExp.exec(content);
+        if (match) {
+            let fields = match[1].split(",").map(f => f.trim());
+            let layerType = GerberUtils.fileFunctionToLayer(fields);
+            if (layerType) {
+                return {
+                    side:layerType.side,
+                    layer:layerType.layer,
+                    copperIndex:layerType.copperIndex,
+                    plated:layerType.plated,
+                    drillSpan:layerType.drillSpan,
+                    polarity:polarity,
+                    sameCoordinates:sameCoordinates,
+                    source:LayerInfoSource.FileAttributes,
+                    confidence:1
+                };
+            }
+        }
+        let nameType = GerberUtils.determineSideAndLayer(fileName);
+        let known = nameType.side != BoardSide.Unknown && nameType.layer != BoardLayer.Unknown;
+        // Drill files without attributes can have a plating comment or
+        // an NPTH file name.
+        let plated:boolean;
+        match = GerberUtils.drillTypeExp.exec(content);
+        if (match) {
+            plated = !match[1];
+        } else if (/(?:^|[^a-z])npth?(?:[^a-z]|$)|non.?plated/i.test(fileName)) {
+            plated = false;
+        }
+        return {
+            side:nameType.side,
+            layer:nameType.layer,
+            plated:plated,
+            polarity:polarity,
+            sameCoordinates:sameCoordinates,
+            source:(known) ? LayerInfoSource.FileName : LayerInfoSource.None,
+            confidence:(known) ? 0.5 : 0
+        };
+    }
+
+    /**
+     * Returns true for archive entries that are never board files, like
+     * OS metadata or files with banned extensions.
+     */
+    public static isIgnoredFile(fileName:string):boolean {
+        if (fileName.endsWith('.DS_Store') || fileName.indexOf('__MACOSX') >= 0) {
+            return true;
+        }
+        let fileExt = GerberUtils.getFileExt(fileName.toLowerCase());
+        return GerberUtils.bannedExtensions.indexOf(fileExt) >= 0;
+    }
+
     public static getFileExt(fileName:string):string {
         let dotIdx = fileName.lastIndexOf(".");
         if (dotIdx < 0) {
@@ -0,0 +1,593 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains a writer that generates a Gerber X2 file from graphics
+ * primitives. The primitives can come from different files or be modified,
+ * the writer defines every aperture once and writes the objects with the
+ * modern commands only. In X1 mode the attributes, blocks and aperture
+ * transformations are left out for older readers.
+ */
+import {
+    LineSegment,
+    CircleSegment,
+    ArcSegment,
+    Line,
+    Circle,
+    Arc,
+    Flash,
+    Region,
+    RegionContour,
+    Repeat,
+    GraphicsPrimitive,
+    GraphicsObjects,
+    ObjectPolarity,
+    ObjectMirroring,
+    ObjectState,
+    ApertureBase,
+    ApertureDefinition,
+    BlockAperture,
+    ApertureMacro,
+    VariableDefinition,
+    PrimitiveComment,
+    Primitive,
+    Attribute,
+    AttributeDictionary,
+    AttributeType,
+    CoordinateUnits,
+    GerberState,
+    GerberParseException,
+    scalePrimitives,
+    unitsFactor,
+} from "./primitives";
+import {Point} from "./point";
+import {Polygon, PolygonSet, polygonArea} from "./polygonSet";
+import {formatFloat} from "./utils";
+import {GerberParser} from "./grbparser";
+import {ConverterBase} from "./converters";
+import {M02Command} from "./commands";
+import {flattenPrimitives} from "./flatten";
+import {Build} from "./build";
+
+/**
+ * How a primitive uses an aperture. Standard apertures have the object
+ * scale and the right angle rotations applied to their size, the rest is
+ * written with LM, LR and LS.
+ */
+interface ApertureUse {
+    readonly key:string;
+    readonly templateName:string;
+    readonly modifiers:Array<number>;
+    readonly mirroring:ObjectMirroring;
+    readonly rotation:number;
+    readonly scale:number;
+}
+
+/**
+ * Writes primitives as a Gerber X2 file. The primitives must be in the
+ * writer units, or the units passed to write are converted.
+ */
+export class GerberWriter extends ConverterBase<string> {
+    public units = CoordinateUnits.MILIMETERS;
+    public integerDigits = 4;
+    public decimalDigits = 6;
+    // Written as TF attributes in the header.
+    public fileAttributes:AttributeDictionary = {};
+    // Write a Gerber X1 file, without attributes, LM, LR, LS and blocks.
+    public x1 = false;
+    private apertureIds_ = new Map<string, number>();
+    private apertureDefinitions_:Array<string> = [];
+    private macroNames_ = new Map<ApertureMacro, string>();
+    private definedMacros_ = new Set<ApertureMacro>();
+    private currentPoint_:string;
+    private currentAperture_:number;
+    private interpolation_:string;
+    private polarity_:ObjectPolarity;
+    private mirroring_:ObjectMirroring;
+    private rotation_:number;
+    private scale_:number;
+    private objectAttributes_:AttributeDictionary;
+
+    write(primitives:Array<GraphicsPrimitive>, units?:CoordinateUnits):string {
+        if (units != undefined && units != this.units) {
+            primitives = scalePrimitives(primitives, unitsFactor(units, this.units));
+        }
+        return this.convert(primitives).filter(s => s.length > 0).join("\n") + "\n";
+    }
+
+    header(primitives:Array<GraphicsPrimitive>):Array<string> {
+        this.apertureIds_.clear();
+        this.apertureDefinitions_ = [];
+        this.macroNames_.clear();
+        this.definedMacros_.clear();
+        this.currentPoint_ = undefined;
+        this.currentAperture_ = undefined;
+        this.interpolation_ = undefined;
+        this.polarity_ = ObjectPolarity.DARK;
+        this.mirroring_ = ObjectMirroring.NONE;
+        this.rotation_ = 0;
+        this.scale_ = 1;
+        this.objectAttributes_ = {};
+        // Define all apertures before the first object.
+        this.defineApertures(primitives);
+        let fileAttributes = (this.x1) ? {} : Object.assign({}, this.fileAttributes);
+        if (!this.x1 && !fileAttributes[".GenerationSoftware"]) {
+            fileAttributes[".GenerationSoftware"] = new Attribute(
+                AttributeType.FILE, ".GenerationSoftware", ["grbparser", "GerberWriter", Build]);
+        }
+        let fmt = `${this.integerDigits}${this.decimalDigits}`;
+        return [
+            ...Object.keys(fileAttributes).map(name => GerberWriter.attribute("TF", fileAttributes[name])),
+            `%FSLAX${fmt}Y${fmt}*%`,
+            (this.units == CoordinateUnits.MILIMETERS) ? "%MOMM*%" : "%MOIN*%",
+            ...this.apertureDefinitions_,
+            "G75*",
+            "%LPD*%"];
+    }
+
+    footer():Array<string> {
+        return ["M02*"];
+    }
+
+    convertLine(l:Line):string {
+        let aperture = this.selectAperture(l.aperture, l.state);
+        if (aperture == undefined) {
+            return this.objects(l.objects, l.attributes);
+        }
+        return [
+            ...this.attributes(l.attributes),
+            ...aperture,
+            ...this.moveTo(l.from),
+            ...this.interpolation("G01"),
+            this.operation(l.to, "D01")].join("\n");
+    }
+
+    convertArc(a:Arc):string {
+        let aperture = this.selectAperture(a.aperture, a.state);
+        if (aperture == undefined) {
+            return this.objects(a.objects, a.attributes);
+        }
+        return [
+            ...this.attributes(a.attributes),
+            ...aperture,
+            ...this.arc(a.center, a.start, a.end, a.isCCW)].join("\n");
+    }
+
+    convertCircle(c:Circle):string {
+        let aperture = this.selectAperture(c.aperture, c.state);
+        if (aperture == undefined) {
+            return this.objects(c.objects, c.attributes);
+        }
+        let start = new Point(c.center.x + c.radius, c.center.y);
+        return [
+            ...this.attributes(c.attributes),
+            ...aperture,
+            ...this.arc(c.center, start, start, true)].join("\n");
+    }
+
+    convertFlash(f:Flash):string {
+        if (this.x1 && f.aperture instanceof BlockAperture) {
+            return this.flatten(f);
+        }
+        let aperture = this.selectAperture(f.aperture, f.state);
+        if (aperture == undefined) {
+            return this.objects(f.objects, f.attributes);
+        }
+        return [
+            ...this.attributes(f.attributes),
+            ...aperture,
+            this.operation(f.center, "D03")].join("\n");
+    }
+
+    convertRegion(r:Region):string {
+        let result = [
+            ...this.attributes(r.attributes),
+            ...this.polarity(r.state.polarity),
+            "G36*"];
+        r.contours
+            .filter(contour => contour.length > 0)
+            .forEach(contour => result.push(...this.contour(contour)));
+        result.push("G37*");
+        return result.join("\n");
+    }
+
+    convertRepeat(r:Repeat):string {
+        let block = r.block;
+        let offset = new Point(r.xOffset, r.yOffset);
+        if (block.xRepeat * block.yRepeat <= 1) {
+            // Single copies come from the image transformations, the objects
+            // are already transformed.
+            return this.objects(r.objects, {});
+        }
+        if (this.x1) {
+            return this.flatten(r);
+        }
+        let result = [
+            `%SRX${block.xRepeat}Y${block.yRepeat}I${this.modifier(block.xDelta)}J${this.modifier(block.yDelta)}*%`];
+        block.primitives.forEach(p => result.push(this.convertPrimitive(p.translate(offset))));
+        result.push("%SR*%");
+        return result.filter(s => s.length > 0).join("\n");
+    }
+
+    /**
+     * Writes a block flash or a repeated block as plain primitives.
+     */
+    private flatten(primitive:Flash|Repeat):string {
+        return flattenPrimitives([primitive])
+            .map(p => this.convertPrimitive(p))
+            .filter(s => s.length > 0)
+            .join("\n");
+    }
+
+    private defineApertures(primitives:Array<GraphicsPrimitive>) {
+        primitives.forEach(p => {
+            if (p instanceof Repeat) {
+                this.defineApertures(p.block.primitives);
+            } else if (this.x1 && p instanceof Flash && p.aperture instanceof BlockAperture) {
+                this.defineApertures(flattenPrimitives([p]));
+            } else if (p instanceof Line || p instanceof Circle || p instanceof Arc || p instanceof Flash) {
+                let use = this.apertureUse(p.aperture, p.state);
+                if (use != undefined && !this.apertureIds_.has(use.key)) {
+                    this.defineAperture(use, p.aperture as ApertureDefinition);
+                }
+            }
+        });
+    }
+
+    private defineAperture(use:ApertureUse, aperture:ApertureDefinition) {
+        let id = this.apertureIds_.size + 10;
+        this.apertureIds_.set(use.key, id);
+        if (aperture.isMacro()) {
+            this.defineMacro(aperture.macro);
+        }
+        let attributes = (this.x1) ? {} : aperture.attributes;
+        let names = Object.keys(attributes);
+        let modifiers = use.modifiers.map(m => this.modifier(m)).join("X");
+        this.apertureDefinitions_.push(
+            ...names.map(name => GerberWriter.attribute("TA", attributes[name])),
+            `%ADD${id}${use.templateName}${(modifiers.length > 0) ? "," + modifiers : ""}*%`,
+            ...names.map(name => `%TD${name}*%`));
+    }
+
+    /**
+     * Macros with the same name can come from different files, the name
+     * is made unique.
+     */
+    private macroName(macro:ApertureMacro):string {
+        let name = this.macroNames_.get(macro);
+        if (name == undefined) {
+            let names = Array.from(this.macroNames_.values());
+            name = macro.macroName;
+            for (let idx = 1; names.indexOf(name) >= 0; idx++) {
+                name = `${macro.macroName}_${idx}`;
+            }
+            this.macroNames_.set(macro, name);
+        }
+        return name;
+    }
+
+    private defineMacro(macro:ApertureMacro) {
+        if (this.definedMacros_.has(macro)) {
+            return;
+        }
+        this.definedMacros_.add(macro);
+        let content = macro.content.map(part => {
+            if (part instanceof VariableDefinition) {
+                return `$${part.id}=${part.expression}*`;
+            } else if (part instanceof PrimitiveComment) {
+                return `0 ${part.text}*`;
+            }
+            let primitive = part as Primitive;
+            return [primitive.code, ...primitive.modifiers.map(m => m.toString())].join(",") + "*";
+        });
+        this.apertureDefinitions_.push(
+            `%AM${this.macroName(macro)}*`, ...content.slice(0, -1), content[content.length - 1] + "%");
+    }
+
+    /**
+     * Undefined for apertures that can not be written, the objects of the
+     * primitive are written as regions instead.
+     */
+    private apertureUse(aperture:ApertureBase, state:ObjectState):ApertureUse {
+        if (!(aperture instanceof ApertureDefinition)
+            || (!aperture.isMacro() && !aperture.isDrawable())) {
+            return undefined;
+        }
+        let templateName = (aperture.isMacro()) ? this.macroName(aperture.macro) : aperture.templateName;
+        let modifiers = aperture.modifiers.slice();
+        let mirroring = state.mirroring;
+        let rotation = state.rotation;
+        let scale = state.scale;
+        if (!aperture.isMacro()) {
+            // Scale the sizes, the polygon vertex count and rotation stay.
+            modifiers = modifiers.map((m, idx) =>
+                (templateName == "P" && (idx == 1 || idx == 2)) ? m : m * scale);
+            scale = 1;
+            if (templateName == "C") {
+                mirroring = ObjectMirroring.NONE;
+                rotation = 0;
+            } else if (templateName == "R" || templateName == "O") {
+                // Symmetric shapes, right angles swap the sides.
+                mirroring = ObjectMirroring.NONE;
+                let angle = ((rotation % 360) + 360) % 360;
+                if (Math.abs(angle % 90) < 1E-9) {
+                    if (Math.abs(angle - 90) < 1E-9 || Math.abs(angle - 270) < 1E-9) {
+                        modifiers = [modifiers[1], modifiers[0], ...modifiers.slice(2)];
+                    }
+                    rotation = 0;
+                }
+            }
+        }
+        if (this.x1
+            && (mirroring != ObjectMirroring.NONE || Math.abs(rotation) > 1E-9 || Math.abs(scale - 1) > 1E-9)) {
+            // X1 has no aperture transformations, the objects are written.
+            return undefined;
+        }
+        // The transformation is not part of the definition.
+        let key = [
+            templateName,
+            ...modifiers.map(m => this.modifier(m)),
+            ...Object.keys(aperture.attributes).map(name => `${name}=${aperture.attributes[name].value}`)
+        ].join(";");
+        return {
+            key:key,
+            templateName:templateName,
+            modifiers:modifiers,
+            mirroring:mirroring,
+            rotation:rotation,
+            scale:scale
+        };
+    }
+
+    /**
+     * Commands to select the aperture and the aperture transformation,
+     * undefined if the aperture can not be written.
+     */
+    private selectAperture(aperture:ApertureBase, state:ObjectState):Array<string> {
+        let use = this.apertureUse(aperture, state);
+        if (use == undefined) {
+            return undefined;
+        }
+        let result = this.polarity(state.polarity);
+        if (use.mirroring != this.mirroring_) {
+            this.mirroring_ = use.mirroring;
+            result.push(`%LM${GerberWriter.mirroring(use.mirroring)}*%`);
+        }
+        if (use.rotation != this.rotation_) {
+            this.rotation_ = use.rotation;
+            result.push(`%LR${formatFloat(use.rotation, 6)}*%`);
+        }
+        if (use.scale != this.scale_) {
+            this.scale_ = use.scale;
+            result.push(`%LS${formatFloat(use.scale, 6)}*%`);
+        }
+        let id = this.apertureIds_.get(use.key);
+        if (id != this.currentAperture_) {
+            this.currentAperture_ = id;
+            result.push(`D${id}*`);
+        }
+        return result;
+    }
+
+    private polarity(polarity:ObjectPolarity):Array<string> {
+        if (polarity == this.polarity_ || polarity == ObjectPolarity.THIN) {
+            return [];
+        }
+        this.polarity_ = polarity;
+        return [(polarity == ObjectPolarity.LIGHT) ? "%LPC*%" : "%LPD*%"];
+    }
+
+    /**
+     * Updates the object attributes to the attributes of the next object.
+     */
+    private attributes(attributes:AttributeDictionary):Array<string> {
+        if (this.x1 || attributes == this.objectAttributes_) {
+            return [];
+        }
+        let result:Array<string> = [];
+        let current = this.objectAttributes_;
+        Object.keys(current)
+            .filter(name => !attributes[name])
+            .forEach(name => result.push(`%TD${name}*%`));
+        Object.keys(attributes)
+            .filter(name => !current[name] || current[name].value != attributes[name].value)
+            .forEach(name => result.push(GerberWriter.attribute("TO", attributes[name])));
+        this.objectAttributes_ = attributes;
+        return result;
+    }
+
+    private interpolation(code:string):Array<string> {
+        if (code == this.interpolation_) {
+            return [];
+        }
+        this.interpolation_ = code;
+        return [code + "*"];
+    }
+
+    private operation(point:Point, code:string, offset:string = ""):string {
+        let coordinates = this.coordinates(point);
+        this.currentPoint_ = coordinates;
+        return coordinates + offset + code + "*";
+    }
+
+    private moveTo(point:Point):Array<string> {
+        if (this.coordinates(point) == this.currentPoint_) {
+            return [];
+        }
+        return [this.operation(point, "D02")];
+    }
+
+    private arc(center:Point, start:Point, end:Point, isCCW:boolean):Array<string> {
+        let offset = center.subtract(start);
+        return [
+            ...this.moveTo(start),
+            ...this.interpolation((isCCW) ? "G03" : "G02"),
+            this.operation(end, "D01", `I${this.coordinate(offset.x)}J${this.coordinate(offset.y)}`)];
+    }
+
+    private contour(contour:RegionContour):Array<string> {
+        let result:Array<string> = [];
+        let first = contour[0];
+        let start:Point;
+        if (first instanceof LineSegment) {
+            start = first.from;
+        } else if (first instanceof ArcSegment) {
+            start = first.start;
+        } else {
+            start = new Point(first.center.x + first.radius, first.center.y);
+        }
+        // Every contour starts with D02, even at the current point.
+        this.currentPoint_ = undefined;
+        result.push(...this.moveTo(start));
+        contour.forEach(segment => {
+            if (segment instanceof LineSegment) {
+                result.push(...this.interpolation("G01"), this.operation(segment.to, "D01"));
+            } else if (segment instanceof ArcSegment) {
+                result.push(...this.arc(segment.center, segment.start, segment.end, segment.isCCW));
+            } else {
+                let circleStart = new Point(segment.center.x + segment.radius, segment.center.y);
+                result.push(...this.arc(segment.center, circleStart, circleStart, true));
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Writes the objects as regions, for primitives with apertures that
+     * have no definition like block apertures. The holes of a polygon set
+     * follow their outer polygon and are connected to it with cut-ins.
+     */
+    private objects(objects:GraphicsObjects, attributes:AttributeDictionary):string {
+        let result = this.attributes(attributes);
+        objects
+            .filter(o => o.polarity != ObjectPolarity.THIN)
+            .forEach(o => {
+                let contours = GerberWriter.cutIn(o.polySet);
+                if (contours.length == 0) {
+                    return;
+                }
+                result.push(...this.polarity(o.polarity), "G36*");
+                contours.forEach(contour => {
+                    this.currentPoint_ = undefined;
+                    result.push(...this.moveTo(new Point(contour[0], contour[1])));
+                    result.push(...this.interpolation("G01"));
+                    for (let idx = 2; idx < contour.length; idx += 2) {
+                        result.push(this.operation(new Point(contour[idx], contour[idx + 1]), "D01"));
+                    }
+                });
+                result.push("G37*");
+            });
+        return result.join("\n");
+    }
+
+    /**
+     * Closed contours of a polygon set, the holes are joined to their outer
+     * polygon with a cut-in from its first vertex.
+     */
+    private static cutIn(polySet:PolygonSet):Array<Polygon> {
+        let result:Array<Array<number>> = [];
+        let outerSign = 0;
+        polySet
+            .filter(polygon => polygon.length >= 6)
+            .forEach(polygon => {
+                let sign = Math.sign(polygonArea(polygon));
+                let points = Array.from(polygon);
+                if (points[0] != points[points.length - 2] || points[1] != points[points.length - 1]) {
+                    points.push(points[0], points[1]);
+                }
+                if (result.length == 0 || sign == outerSign || sign == 0) {
+                    outerSign = sign;
+                    result.push(points);
+                } else {
+                    let outer = result[result.length - 1];
+                    outer.push(...points, outer[0], outer[1]);
+                }
+            });
+        return result.map(points => Float64Array.from(points));
+    }
+
+    private coordinates(point:Point):string {
+        return `X${this.coordinate(point.x)}Y${this.coordinate(point.y)}`;
+    }
+
+    private coordinate(value:number):string {
+        let result = Math.round(value * Math.pow(10, this.decimalDigits));
+        if (Math.abs(result) >= Math.pow(10, this.integerDigits + this.decimalDigits)) {
+            throw new GerberParseException(
+                `Coordinate ${value} does not fit the ${this.integerDigits}.${this.decimalDigits} format`);
+        }
+        // Avoid -0 for values that round to zero.
+        return (result == 0) ? "0" : result.toFixed(0);
+    }
+
+    private modifier(value:number):string {
+        return formatFloat(value, this.decimalDigits);
+    }
+
+    private static mirroring(mirroring:ObjectMirroring):string {
+        switch (mirroring) {
+            case ObjectMirroring.X_AXIS: return "X";
+            case ObjectMirroring.Y_AXIS: return "Y";
+            case ObjectMirroring.XY_AXIS: return "XY";
+        }
+        return "N";
+    }
+
+    private static attribute(command:string, attribute:Attribute):string {
+        return `%${command}${[attribute.name, ...attribute.fields].join(",")}*%`;
+    }
+
+    private static execute(content:string):GerberState {
+        let parser = new GerberParser();
+        parser.parseBlock(content);
+        let ctx = new GerberState();
+        parser.execute(ctx);
+        parser.checkErrors();
+        if (!ctx.isDone) {
+            ctx.endFile(new M02Command("M02"));
+        }
+        return ctx;
+    }
+
+    private static writer(ctx:GerberState, units?:CoordinateUnits):GerberWriter {
+        let writer = new GerberWriter();
+        if (units != undefined) {
+            writer.units = units;
+        } else if (ctx.fileUnits != undefined) {
+            writer.units = ctx.fileUnits;
+        }
+        return writer;
+    }
+
+    /**
+     * Regenerates a gerber file, with the file attributes of the original.
+     * The output is in the file units unless other units are given.
+     */
+    public static GerberToX2(content:string, units?:CoordinateUnits):string {
+        let ctx = GerberWriter.execute(content);
+        let writer = GerberWriter.writer(ctx, units);
+        writer.fileAttributes = ctx.fileAttributes;
+        return writer.write(ctx.primitives, ctx.fileUnits);
+    }
+
+    /**
+     * Regenerates a gerber file for readers that only support Gerber X1.
+     * Blocks, block apertures and the image transformation are flattened.
+     * Images scaled by different factors on each axis are written as regions.
+     */
+    public static GerberToX1(content:string, units?:CoordinateUnits):string {
+        let ctx = GerberWriter.execute(content);
+        let writer = GerberWriter.writer(ctx, units);
+        writer.x1 = true;
+        let primitives = (ctx.imageTransform.isIdentity || !ctx.imageTransform.isUniform)
+            ? ctx.primitives
+            : flattenPrimitives(ctx.primitives, ctx.imageTransform);
+        return writer.write(primitives, ctx.fileUnits);
+    }
+}
@@ -13,6 +13,7 @@ import {
     CoordinateFormatSpec,
     GerberParseException} from "./primitives";
 import * as cmds from "./commands";
+import {DiagnosticCode, DiagnosticReport} from "./diagnostics";
 
 /**
  * This is an internal class to "tokenize" the gerber commands from the stream.
@@ -24,20 +25,21 @@ import * as cmds from "./commands";
  */
 export class CommandParser {
     public lineNumber = 1;
+    public diagnostics = new DiagnosticReport();
     private nextTokenSeparator = '*';
     private consumer:(cmd:string, line:number, isAdvanced:boolean) => void
         = CommandParser.emptyConsumer;
     private commandLineStart:number;
     private command = "";
     private errorHandler:(line:number, buffer:string, idx:number) => void
-        = CommandParser.consoleError;
+        = (line, buffer, idx) => this.reportError(line, buffer, idx);
     private static gCodeSplit = /^(G\d+)((?:[XYIJ][\+\-]?\d+)*(?:D\d+)?)$/;
     private static gdmnCodeSplit = /^([GDMN]\d+)((?:[GDMN]\d+)+)$/;
     private static g04Match = /^G0*4$/;
     private static dCmdMatch = /^([XYIJ][\+\-]?\d+)?([XYIJ][\+\-]?\d+)?([XYIJ][\+\-]?\d+)?([XYIJ][\+\-]?\d+)?(D\d+)$/;
     private static coordinatesOrder = "XYIJ";
 
-    parseBlock(buffer:string) {
+    parseBlock(buffer:string):DiagnosticReport {
         let idx:number;
         for(idx = 0; idx < buffer.length; idx++) {
             let nextChar = buffer[idx];
@@ -56,7 +58,13 @@ export class CommandParser {
                 continue;
             } else if (nextChar == '%') {
                 if (this.command.trim().length != 0) {
-                    console.log(`Error, what to do with '${this.command}?'`);
+                    this.diagnostics.warning(
+                        DiagnosticCode.UNTERMINATED_COMMAND,
+                        "Command is not terminated by '*' and is ignored",
+                        this.commandLineStart,
+                        undefined,
+                        this.command.trim().substr(0, 100),
+                        "Terminate the command with '*'");
                 }
                 this.command = "";
                 this.nextTokenSeparator = '%';
@@ -64,6 +72,25 @@ export class CommandParser {
                 this.append(nextChar);
             }
         }
+        return this.diagnostics;
+    }
+
+    /**
+     * Processes the command left at the end of the input without its
+     * terminator. Returns the command text, or undefined if there is none.
+     */
+    flush():string {
+        let cmd = this.command.trim();
+        if (cmd.length == 0) {
+            return undefined;
+        }
+        if (this.nextTokenSeparator == '%' && !this.command.endsWith('*')) {
+            this.command += '*';
+        }
+        this.commandPreprocessor();
+        this.command = "";
+        this.nextTokenSeparator = '*';
+        return cmd;
     }
 
     private append(chr:string) {
@@ -73,10 +100,9 @@ export class CommandParser {
         this.command += chr;
     }
 
-    private static consoleError(lineNumber:number, buffer:string, idx:number) {
-        console.log(`Error at line ${lineNumber}`);
-        console.log(`   ${buffer}`);
-        console.log(`---${'-'.repeat(idx + 1)}^`);
+    private reportError(lineNumber:number, buffer:string, idx:number) {
+        this.diagnostics.error(
+            DiagnosticCode.SYNTAX_ERROR, "Syntax error", lineNumber, idx + 1, buffer.substr(0, 100));
     }
 
     private static emptyConsumer(cmd:string, line:number) {
@@ -172,7 +198,7 @@ export class CommandParser {
 }
 
 class ParserCommand {
-    constructor(readonly cmd:GerberCommand, readonly lineNo:number) {
+    constructor(readonly cmd:GerberCommand, readonly lineNo:number, readonly text:string) {
     }
 }
 
@@ -185,6 +211,8 @@ export class GerberParser {
     private commandParser:CommandParser = new CommandParser();
     private fmt:CoordinateFormatSpec;
     private lastDcmd:number = -1;
+    // Skip or repair invalid commands instead of reporting them as errors.
+    public recoveryMode = false;
 
     // Order in this array is important, because some regex are more broad
     // and would detect previous commands.
@@ -242,31 +270,37 @@ export class GerberParser {
         [/^M0*1/, null],
         [/^T(A|F|O)/, (cmd, lineNo:number) => new cmds.TCommand(cmd, lineNo)],
         [/^TD/, (cmd, lineNo:number) => new cmds.TDCommand(cmd, lineNo)],
-        [/^IP(?:POS|NEG)\*$/, null],
-        [/^LN(?:.+)/, null],
-        [/^IN.*\*$/, null],
+        [/^IP/, (cmd, lineNo:number) => new cmds.IPCommand(cmd, lineNo)],
+        [/^LN/, (cmd, lineNo:number) => new cmds.LNCommand(cmd, lineNo)],
+        [/^IN/, (cmd, lineNo:number) => new cmds.INCommand(cmd, lineNo)],
         [/^ICAS\*$/, null],
         [/^IJ(?:.+)/, null],
         [/^IO(?:.+)/, null],
-        [/^IR(?:.+)/, null],
-        [/^AS(?:.+)/, null],
+        [/^IR/, (cmd, lineNo:number) => new cmds.IRCommand(cmd, lineNo)],
+        [/^AS/, (cmd, lineNo:number) => new cmds.ASCommand(cmd, lineNo)],
         [/^KO(?:.+)/, null],
-        [/^MI(?:.+)/, null],
-        [/^OF(?:.+)/, null],
+        [/^MI/, (cmd, lineNo:number) => new cmds.MICommand(cmd, lineNo)],
+        [/^OF/, (cmd, lineNo:number) => new cmds.OFCommand(cmd, lineNo)],
         [/^RO(?:.+)/, null],
-        [/^SF(?:.+)/, null],
+        [/^SF/, (cmd, lineNo:number) => new cmds.SFCommand(cmd, lineNo)],
         [/^G[0]*0$/, null], // Move
         [/^G[0]*54$/, null], // Prepare tool
         [/^G[0]*55$/, null]  // Prepare to flash
     ];
     private commands:Array<ParserCommand> = [];
 
-    constructor() {
+    constructor(readonly diagnostics:DiagnosticReport = new DiagnosticReport()) {
+        this.commandParser.diagnostics = diagnostics;
         this.commandParser.setConsumer((cmd:string, lineNo:number) => this.parseCommand(cmd, lineNo));
     }
 
-    parseBlock(block:string) {
-        this.commandParser.parseBlock(block);
+    /**
+     * Parses a block of the file. Problems are added to the parser diagnostics,
+     * which are returned. Invalid commands are reported as errors and left
+     * out, parsing continues with the next command.
+     */
+    parseBlock(block:string):DiagnosticReport {
+        return this.commandParser.parseBlock(block);
     }
 
     private parseCommand(cmd:string, lineNo:number) {
@@ -274,32 +308,98 @@ export class GerberParser {
             return;
         }
         try {
-            let dispatcher = this.commandDispatcher.find(d => d[0].test(cmd));
-            if (dispatcher == undefined) {
-                throw new GerberParseException(`Invalid command ${cmd.substr(0, 100)}`);
-            }
-            if (dispatcher[1] == null) {
-                //console.log(`WARNING: ignoring ${cmd}`);
+            this.addCommand(cmd, lineNo);
+        } catch (e) {
+            let message = (e instanceof GerberParseException) ? e.message : `${e}`;
+            if (this.recoveryMode) {
+                if (!this.repairCommand(cmd, lineNo, message)) {
+                    this.diagnostics.warning(
+                        DiagnosticCode.COMMAND_SKIPPED,
+                        `${message}, command skipped`,
+                        lineNo,
+                        undefined,
+                        cmd.substr(0, 100),
+                        "Remove or fix the command");
+                }
                 return;
             }
-            let command = dispatcher[1](cmd, lineNo);
-            this.commands.push(new ParserCommand(command, lineNo));
-            if (command.name === "FS") {
-                let fsCmd = command as cmds.FSCommand;
-                if (this.fmt != undefined) {
-                    //throw new GerberParseException("Format is already defined");
-                    console.log("Format is already defined");
-                }
-                this.fmt = fsCmd.coordinateFormat;
+            if (this.commandDispatcher.find(d => d[0].test(cmd)) == undefined) {
+                this.diagnostics.error(
+                    DiagnosticCode.INVALID_COMMAND,
+                    "Unknown command",
+                    lineNo,
+                    undefined,
+                    cmd.substr(0, 100),
+                    "Remove the command or replace it with a supported one");
+            } else {
+                this.diagnostics.error(
+                    DiagnosticCode.SYNTAX_ERROR, message, lineNo, undefined, cmd.substr(0, 100));
             }
-        } catch (e) {
-            console.log(`Error parsing gerber file at line ${lineNo}.`);
-            console.log(`Offending command: ${cmd.substr(0, 100)}`);
-            console.log(`Message: ${e}`);
-            throw e;
         }
     }
 
+    private addCommand(cmd:string, lineNo:number) {
+        let dispatcher = this.commandDispatcher.find(d => d[0].test(cmd));
+        if (dispatcher == undefined) {
+            throw new GerberParseException(`Invalid command ${cmd.substr(0, 100)}`, lineNo);
+        }
+        if (dispatcher[1] == null) {
+            //console.log(`WARNING: ignoring ${cmd}`);
+            return;
+        }
+        let command = dispatcher[1](cmd, lineNo);
+        if (command == null) {
+            throw new GerberParseException(`Coordinates without an operation code ${cmd}`, lineNo);
+        }
+        this.commands.push(new ParserCommand(command, lineNo, cmd));
+        if (command.name === "FS") {
+            let fsCmd = command as cmds.FSCommand;
+            if (this.fmt != undefined) {
+                this.diagnostics.warning(
+                    DiagnosticCode.FORMAT_REDEFINED,
+                    "Format is already defined",
+                    lineNo,
+                    undefined,
+                    cmd.substr(0, 100),
+                    "Remove the duplicate FS command");
+            }
+            this.fmt = fsCmd.coordinateFormat;
+        }
+    }
+
+    /**
+     * Tries to parse a cleaned up version of an invalid command, with
+     * white space removed and in upper case.
+     */
+    private repairCommand(cmd:string, lineNo:number, message:string):boolean {
+        let stripped = cmd.replace(/\s+/g, "");
+        let candidates = [stripped, stripped.toUpperCase()]
+            .filter((c, idx, all) => c.length > 0 && c != cmd && all.indexOf(c) == idx);
+        for (let candidate of candidates) {
+            try {
+                this.addCommand(candidate, lineNo);
+            } catch (e) {
+                continue;
+            }
+            this.diagnostics.warning(
+                DiagnosticCode.COMMAND_REPAIRED,
+                `${message}, parsed as '${candidate.substr(0, 100)}'`,
+                lineNo,
+                undefined,
+                cmd.substr(0, 100),
+                `Replace the command with '${candidate.substr(0, 100)}'`);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * The parsed commands in file order.
+     */
+    get parsedCommands():Array<GerberCommand> {
+        return this.commands.map(c => c.cmd);
+    }
+
     public output():string {
         let result = "";
         for (let parseCommand of this.commands) {
@@ -315,9 +415,82 @@ export class GerberParser {
         return result;
     }
 
-    public execute(ctx:GerberState) {
+    /**
+     * Executes the parsed commands. The state reports its warnings to the
+     * parser diagnostics, which are returned. Commands that fail are reported
+     * as errors and execution continues with the next command.
+     *
+     * In recovery mode commands that fail are skipped, a command left
+     * unterminated at the end of the input is parsed and a file without
+     * M02 is closed.
+     */
+    public execute(ctx:GerberState):DiagnosticReport {
+        ctx.diagnostics = this.diagnostics;
+        if (this.recoveryMode) {
+            let lineNo = this.commandParser.lineNumber;
+            let truncated = this.commandParser.flush();
+            if (truncated != undefined) {
+                this.diagnostics.warning(
+                    DiagnosticCode.TRUNCATED_COMMAND,
+                    "Command at the end of the file is not terminated",
+                    lineNo,
+                    undefined,
+                    truncated.substr(0, 100),
+                    "Terminate the command with '*'");
+            }
+        }
         for (let parseCommand of this.commands) {
-            parseCommand.cmd.execute(ctx);
+            if (this.recoveryMode && ctx.isDone) {
+                break;
+            }
+            ctx.currentLine = parseCommand.lineNo;
+            ctx.currentCommand = parseCommand.text;
+            try {
+                parseCommand.cmd.execute(ctx);
+            } catch (e) {
+                let message = (e instanceof GerberParseException) ? e.message : `${e}`;
+                if (this.recoveryMode) {
+                    this.diagnostics.warning(
+                        DiagnosticCode.COMMAND_SKIPPED,
+                        `${message}, command skipped`,
+                        parseCommand.lineNo,
+                        undefined,
+                        parseCommand.text.substr(0, 100));
+                    continue;
+                }
+                this.diagnostics.error(
+                    DiagnosticCode.EXECUTE_ERROR,
+                    message,
+                    parseCommand.lineNo,
+                    undefined,
+                    parseCommand.text.substr(0, 100));
+            }
+        }
+        ctx.currentLine = undefined;
+        ctx.currentCommand = undefined;
+        if (this.recoveryMode && !ctx.isDone) {
+            let closed = ctx.closeFile(new cmds.M02Command("M02"));
+            this.diagnostics.warning(
+                DiagnosticCode.MISSING_END,
+                (closed > 0)
+                    ? `File ends without M02, ${closed} open region or block(s) closed`
+                    : "File ends without M02",
+                this.commandParser.lineNumber,
+                undefined,
+                undefined,
+                "End the file with M02");
+        }
+        return this.diagnostics;
+    }
+
+    /**
+     * Throws the first error of the diagnostics, for callers that can not
+     * use a file with errors. The exception carries the whole report.
+     */
+    public checkErrors() {
+        let errors = this.diagnostics.errors;
+        if (errors.length > 0) {
+            throw new GerberParseException(errors[0].message, errors[0].line, this.diagnostics);
         }
     }
 }
@@ -0,0 +1,247 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains helpers to compare rendered images with reference
+ * renders. Images are reduced to binary masks of the drawn (dark) pixels and
+ * compared by intersection over union with an optional pixel tolerance.
+ */
+
+import {RasterImage} from "./rasterizer";
+
+export interface PixelRect {
+    readonly x:number;
+    readonly y:number;
+    readonly width:number;
+    readonly height:number;
+}
+
+export interface RgbaImage {
+    readonly width:number;
+    readonly height:number;
+    readonly pixels:Uint8Array|Uint8ClampedArray;
+}
+
+export class ImageMask {
+    constructor(
+        readonly width:number,
+        readonly height:number,
+        readonly data:Uint8Array = new Uint8Array(width * height)) {
+    }
+
+    /**
+     * Marks the dark pixels of an image. Colored pixels, like the axis
+     * markers viewers draw in screenshots, and transparent pixels are not
+     * part of the mask.
+     */
+    static fromImage(image:RgbaImage, threshold:number = 128, maxSaturation:number = 60):ImageMask {
+        let result = new ImageMask(image.width, image.height);
+        let pixels = image.pixels;
+        for (let idx = 0; idx < result.data.length; idx++) {
+            let offset = idx * 4;
+            let r = pixels[offset];
+            let g = pixels[offset + 1];
+            let b = pixels[offset + 2];
+            if (pixels[offset + 3] < 128
+                || Math.max(r, g, b) - Math.min(r, g, b) > maxSaturation) {
+                continue;
+            }
+            if ((r + g + b) / 3 < threshold) {
+                result.data[idx] = 1;
+            }
+        }
+        return result;
+    }
+
+    static fromCoverage(coverage:Float32Array, width:number, height:number, threshold:number = 0.5):ImageMask {
+        let result = new ImageMask(width, height);
+        for (let idx = 0; idx < coverage.length; idx++) {
+            if (coverage[idx] >= threshold) {
+                result.data[idx] = 1;
+            }
+        }
+        return result;
+    }
+
+    get count():number {
+        let result = 0;
+        for (let idx = 0; idx < this.data.length; idx++) {
+            result += this.data[idx];
+        }
+        return result;
+    }
+
+    /**
+     * Bounding rectangle of the set pixels, undefined for an empty mask.
+     */
+    get bounds():PixelRect {
+        let minx = this.width;
+        let miny = this.height;
+        let maxx = -1;
+        let maxy = -1;
+        for (let y = 0; y < this.height; y++) {
+            let offset = y * this.width;
+            for (let x = 0; x < this.width; x++) {
+                if (this.data[offset + x]) {
+                    minx = Math.min(minx, x);
+                    maxx = Math.max(maxx, x);
+                    miny = Math.min(miny, y);
+                    maxy = Math.max(maxy, y);
+                }
+            }
+        }
+        if (maxx < 0) {
+            return undefined;
+        }
+        return {x:minx, y:miny, width:maxx - minx + 1, height:maxy - miny + 1};
+    }
+
+    crop(rect:PixelRect):ImageMask {
+        let result = new ImageMask(rect.width, rect.height);
+        for (let y = 0; y < rect.height; y++) {
+            let srcY = rect.y + y;
+            if (srcY < 0 || srcY >= this.height) {
+                continue;
+            }
+            for (let x = 0; x < rect.width; x++) {
+                let srcX = rect.x + x;
+                if (srcX >= 0 && srcX < this.width) {
+                    result.data[y * rect.width + x] = this.data[srcY * this.width + srcX];
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Nearest neighbor resize.
+     */
+    resize(width:number, height:number):ImageMask {
+        if (width == this.width && height == this.height) {
+            return this;
+        }
+        let result = new ImageMask(width, height);
+        for (let y = 0; y < height; y++) {
+            let srcY = Math.min(this.height - 1, Math.floor((y + 0.5) * this.height / height));
+            for (let x = 0; x < width; x++) {
+                let srcX = Math.min(this.width - 1, Math.floor((x + 0.5) * this.width / width));
+                result.data[y * width + x] = this.data[srcY * this.width + srcX];
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns a mask with every pixel within the radius of a set pixel set.
+     */
+    dilate(radius:number):ImageMask {
+        if (radius <= 0) {
+            return this;
+        }
+        let result = new ImageMask(this.width, this.height);
+        for (let y = 0; y < this.height; y++) {
+            for (let x = 0; x < this.width; x++) {
+                if (!this.data[y * this.width + x]) {
+                    continue;
+                }
+                for (let dy = -radius; dy <= radius; dy++) {
+                    let ny = y + dy;
+                    if (ny < 0 || ny >= this.height) {
+                        continue;
+                    }
+                    for (let dx = -radius; dx <= radius; dx++) {
+                        let nx = x + dx;
+                        if (nx >= 0 && nx < this.width) {
+                            result.data[ny * this.width + nx] = 1;
+                        }
+                    }
+                }
+            }
+        }
+        return result;
+    }
+}
+
+export class MaskComparison {
+    constructor(
+        readonly expected:ImageMask,
+        readonly actual:ImageMask,
+        readonly missing:ImageMask,
+        readonly extra:ImageMask,
+        readonly iou:number) {
+    }
+
+    /**
+     * Diff image: pixels in both masks are black, missing pixels (only in
+     * the expected mask) red and extra pixels (only in the actual mask) blue.
+     */
+    diffImage():RasterImage {
+        let result = new RasterImage(this.expected.width, this.expected.height, 0xffffff, 1);
+        let pixels = result.pixels;
+        for (let idx = 0; idx < this.expected.data.length; idx++) {
+            let offset = idx * 4;
+            if (this.missing.data[idx]) {
+                pixels[offset] = 255;
+                pixels[offset + 1] = 0;
+                pixels[offset + 2] = 0;
+            } else if (this.extra.data[idx]) {
+                pixels[offset] = 0;
+                pixels[offset + 1] = 0;
+                pixels[offset + 2] = 255;
+            } else if (this.expected.data[idx] || this.actual.data[idx]) {
+                pixels[offset] = 0;
+                pixels[offset + 1] = 0;
+                pixels[offset + 2] = 0;
+            }
+        }
+        return result;
+    }
+}
+
+/**
+ * Compares two masks of the same size. With a tolerance, pixels that have a
+ * matching pixel in the other mask within that many pixels are counted as
+ * matching. With tolerance 0 the result is the exact intersection over union.
+ */
+export function compareMasks(expected:ImageMask, actual:ImageMask, tolerance:number = 0):MaskComparison {
+    if (expected.width != actual.width || expected.height != actual.height) {
+        throw new Error(
+            `Mask size mismatch ${expected.width}x${expected.height} and ${actual.width}x${actual.height}`);
+    }
+    let expectedNear = expected.dilate(tolerance);
+    let actualNear = actual.dilate(tolerance);
+    let missing = new ImageMask(expected.width, expected.height);
+    let extra = new ImageMask(expected.width, expected.height);
+    let expectedCount = 0;
+    let actualCount = 0;
+    let matchedExpected = 0;
+    let matchedActual = 0;
+    for (let idx = 0; idx < expected.data.length; idx++) {
+        if (expected.data[idx]) {
+            expectedCount++;
+            if (actualNear.data[idx]) {
+                matchedExpected++;
+            } else {
+                missing.data[idx] = 1;
+            }
+        }
+        if (actual.data[idx]) {
+            actualCount++;
+            if (expectedNear.data[idx]) {
+                matchedActual++;
+            } else {
+                extra.data[idx] = 1;
+            }
+        }
+    }
+    let intersection = (matchedExpected + matchedActual) / 2;
+    let union = expectedCount + actualCount - intersection;
+    let iou = (union > 0) ? intersection / union : 1;
+    return new MaskComparison(expected, actual, missing, extra, iou);
+}
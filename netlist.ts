@@ -0,0 +1,295 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains the connectivity extraction. The copper of a layer that
+ * touches forms an island, plated drill hits join the islands of the layers
+ * they go through. Each group of joined islands is a net.
+ */
+import {
+    Bounds,
+    Flash,
+    GraphicsObjects,
+    GraphicsPrimitive,
+    ImageTransform,
+    ObjectPolarity,
+    composeSolidImage,
+} from "./primitives";
+import {Point} from "./point";
+import {
+    PolygonSet,
+    boundsOverlap,
+    intersectPolygonSet,
+    polySetBounds,
+    splitIslands,
+} from "./polygonSet";
+import {FlatPrimitive, flattenPrimitives} from "./flatten";
+import {Board, BoardLayerFile} from "./board";
+import {BoardLayer, BoardSide} from "./gerberutils";
+
+export interface NetlistLayer {
+    readonly name:string;
+    readonly primitives:Array<GraphicsPrimitive>;
+    // Copper layer number, 1 is the top layer.
+    readonly copperIndex?:number;
+    // Transformation of the image, the primitives are flattened with it.
+    readonly imageTransform?:ImageTransform;
+}
+
+export interface NetlistDrill {
+    readonly name:string;
+    readonly primitives:Array<GraphicsPrimitive>;
+    // First and last copper layer number of the holes, all layers if undefined.
+    readonly span?:[number, number];
+    readonly imageTransform?:ImageTransform;
+}
+
+export class NetMember {
+    constructor(readonly layer:string, readonly primitive:FlatPrimitive) {
+    }
+}
+
+/**
+ * A component pin from the .P attribute.
+ */
+export class NetPad {
+    constructor(
+        readonly reference:string,
+        readonly pin:string,
+        readonly center:Point,
+        readonly layer:string) {
+    }
+}
+
+export class Net {
+    readonly members:Array<NetMember> = [];
+    // Plated drill hits that join the layers of the net.
+    readonly drills:Array<NetMember> = [];
+    readonly pads:Array<NetPad> = [];
+    // The .N attribute values of the members.
+    readonly names:Array<string> = [];
+
+    get name():string {
+        return this.names[0];
+    }
+
+    get layers():Array<string> {
+        let result:Array<string> = [];
+        this.members.forEach(m => {
+            if (result.indexOf(m.layer) < 0) {
+                result.push(m.layer);
+            }
+        });
+        return result;
+    }
+}
+
+/**
+ * Connected copper of one layer, an outer polygon and its holes.
+ */
+interface Island {
+    readonly layer:number;
+    readonly polygonSet:PolygonSet;
+    readonly bounds:Bounds;
+    readonly members:Array<NetMember>;
+}
+
+function touches(polygonSet:PolygonSet, bounds:Bounds, island:Island):boolean {
+    return boundsOverlap(bounds, island.bounds)
+        && intersectPolygonSet(polygonSet, island.polygonSet).polygonSet.length > 0;
+}
+
+/**
+ * The dark copper of a primitive, clear and zero width objects do not
+ * conduct.
+ */
+function copper(primitive:FlatPrimitive):PolygonSet {
+    let result:PolygonSet = [];
+    primitive.objects
+        .filter(o => o.polarity == ObjectPolarity.DARK)
+        .forEach(o => result.push(...o.polySet));
+    return result;
+}
+
+export class Netlist {
+    constructor(readonly nets:Array<Net>) {
+    }
+
+    findNet(name:string):Net {
+        return this.nets.find(net => net.names.indexOf(name) >= 0);
+    }
+
+    /**
+     * Nets with more than one name, the copper shorts the CAD nets.
+     */
+    get shorts():Array<Net> {
+        return this.nets.filter(net => net.names.length > 1);
+    }
+
+    /**
+     * Names found in more than one net, the copper of the CAD net is open.
+     */
+    get opens():Array<string> {
+        let seen = new Set<string>();
+        let result:Array<string> = [];
+        this.nets.forEach(net => net.names.forEach(name => {
+            if (seen.has(name) && result.indexOf(name) < 0) {
+                result.push(name);
+            }
+            seen.add(name);
+        }));
+        return result;
+    }
+
+    /**
+     * Extracts the nets of copper layers joined by plated drills. All
+     * layers must be in the same units. Blocks are flattened with the image
+     * transformation, the primitives of the nets are the flattened ones.
+     */
+    public static Extract(layers:Array<NetlistLayer>, drills:Array<NetlistDrill> = []):Netlist {
+        let islands:Array<Island> = [];
+        layers.forEach((layer, layerIdx) => {
+            let primitives = flattenPrimitives(layer.primitives, layer.imageTransform);
+            let objects:GraphicsObjects = [];
+            primitives.forEach(p => objects.push(...p.objects));
+            let layerIslands = splitIslands(composeSolidImage(objects, true).polygonSet)
+                .map(polygonSet => {
+                    return {
+                        layer:layerIdx,
+                        polygonSet:polygonSet,
+                        bounds:polySetBounds(polygonSet),
+                        members:[]
+                    };
+                });
+            primitives.forEach(p => {
+                let polygonSet = copper(p);
+                if (polygonSet.length == 0) {
+                    return;
+                }
+                let bounds = polySetBounds(polygonSet);
+                layerIslands
+                    .filter(island => touches(polygonSet, bounds, island))
+                    .forEach(island => island.members.push(new NetMember(layer.name, p)));
+            });
+            islands.push(...layerIslands);
+        });
+        let parents = islands.map((island, idx) => idx);
+        let root = (idx:number):number => {
+            while (parents[idx] != idx) {
+                parents[idx] = parents[parents[idx]];
+                idx = parents[idx];
+            }
+            return idx;
+        };
+        let drillMembers = new Map<number, Array<NetMember>>();
+        drills.forEach(drill => {
+            let spanLayers = layers
+                .map((layer, layerIdx) => layerIdx)
+                .filter(layerIdx => {
+                    let index = layers[layerIdx].copperIndex;
+                    return drill.span == undefined || index == undefined
+                        || (index >= drill.span[0] && index <= drill.span[1]);
+                });
+            flattenPrimitives(drill.primitives, drill.imageTransform).forEach(p => {
+                let polygonSet = copper(p);
+                if (polygonSet.length == 0) {
+                    return;
+                }
+                let bounds = polySetBounds(polygonSet);
+                let touched = islands
+                    .map((island, idx) => idx)
+                    .filter(idx => spanLayers.indexOf(islands[idx].layer) >= 0
+                        && touches(polygonSet, bounds, islands[idx]));
+                if (touched.length == 0) {
+                    return;
+                }
+                touched.forEach(idx => parents[root(idx)] = root(touched[0]));
+                let members = drillMembers.get(touched[0]) || [];
+                members.push(new NetMember(drill.name, p));
+                drillMembers.set(touched[0], members);
+            });
+        });
+        let nets = new Map<number, Net>();
+        // Primitives cut by clear objects can be in more than one island.
+        let netPrimitives = new Map<Net, Set<FlatPrimitive>>();
+        islands.forEach((island, idx) => {
+            let net = nets.get(root(idx));
+            if (!net) {
+                net = new Net();
+                nets.set(root(idx), net);
+                netPrimitives.set(net, new Set<FlatPrimitive>());
+            }
+            let primitives = netPrimitives.get(net);
+            island.members
+                .filter(m => !primitives.has(m.primitive))
+                .forEach(m => {
+                    primitives.add(m.primitive);
+                    net.members.push(m);
+                    Netlist.addAttributes(net, m);
+                });
+            net.drills.push(...(drillMembers.get(idx) || []));
+        });
+        return new Netlist(Array.from(nets.values()));
+    }
+
+    private static addAttributes(net:Net, member:NetMember) {
+        let primitive = member.primitive;
+        let netAttribute = primitive.attributes[".N"];
+        if (netAttribute) {
+            netAttribute.fields
+                .filter(name => name.length > 0 && net.names.indexOf(name) < 0)
+                .forEach(name => net.names.push(name));
+        }
+        let pin = primitive.attributes[".P"];
+        if (pin && pin.fields.length >= 2) {
+            let center:Point;
+            if (primitive instanceof Flash) {
+                center = primitive.center;
+            } else {
+                let bounds = primitive.bounds;
+                center = bounds.min.midPoint(bounds.max);
+            }
+            net.pads.push(new NetPad(pin.fields[0], pin.fields[1], center, member.layer));
+        }
+    }
+
+    /**
+     * The nets of the board copper layers, from the top to the bottom
+     * layer, joined by the plated drills.
+     */
+    public static FromBoard(board:Board):Netlist {
+        let copperLayers = [
+            ...board.getLayers(BoardSide.Top, BoardLayer.Copper),
+            ...board.getLayers(BoardSide.Internal, BoardLayer.Copper),
+            ...board.getLayers(BoardSide.Bottom, BoardLayer.Copper)];
+        let layers = copperLayers.map((layer, idx) => {
+            return {
+                name:layer.fileName,
+                primitives:layer.primitives,
+                copperIndex:(layer.info.copperIndex != undefined) ? layer.info.copperIndex : idx + 1,
+                imageTransform:layer.imageTransform
+            };
+        });
+        let isPlated = (file:BoardLayerFile) => (file.layer == BoardLayer.Mill)
+            ? file.info.plated === true
+            : file.info.plated !== false;
+        let drills = board.drills
+            .concat(board.layers.filter(l => l.layer == BoardLayer.Mill))
+            .filter(isPlated)
+            .map(drill => {
+                return {
+                    name:drill.fileName,
+                    primitives:drill.primitives,
+                    span:drill.info.drillSpan,
+                    imageTransform:drill.imageTransform
+                };
+            });
+        return Netlist.Extract(layers, drills);
+    }
+}
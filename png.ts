@@ -0,0 +1,553 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains a minimal PNG encoder and decoder without native
+ * dependencies. The encoder writes uncompressed (stored) deflate blocks, the
+ * decoder has a complete inflate implementation.
+ */
+
+const PngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const MaxStoredBlock = 65535;
+
+let crcTable:Uint32Array = undefined;
+
+function makeCrcTable():Uint32Array {
+    let table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = (c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1);
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+}
+
+export function crc32(data:Uint8Array, start:number = 0, end:number = data.length):number {
+    if (!crcTable) {
+        crcTable = makeCrcTable();
+    }
+    let crc = 0xffffffff;
+    for (let idx = start; idx < end; idx++) {
+        crc = crcTable[(crc ^ data[idx]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function adler32(data:Uint8Array):number {
+    let a = 1;
+    let b = 0;
+    let len = data.length;
+    let idx = 0;
+    while (idx < len) {
+        // 5552 is the largest block that can not overflow b.
+        let blockEnd = Math.min(idx + 5552, len);
+        for (; idx < blockEnd; idx++) {
+            a += data[idx];
+            b += a;
+        }
+        a %= 65521;
+        b %= 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+}
+
+function writeUint32(buffer:Uint8Array, offset:number, value:number) {
+    buffer[offset] = (value >>> 24) & 0xff;
+    buffer[offset + 1] = (value >>> 16) & 0xff;
+    buffer[offset + 2] = (value >>> 8) & 0xff;
+    buffer[offset + 3] = value & 0xff;
+}
+
+function chunk(type:string, data:Uint8Array):Uint8Array {
+    let result = new Uint8Array(data.length + 12);
+    writeUint32(result, 0, data.length);
+    for (let idx = 0; idx < 4; idx++) {
+        result[4 + idx] = type.charCodeAt(idx);
+    }
+    result.set(data, 8);
+    writeUint32(result, data.length + 8, crc32(result, 4, data.length + 8));
+    return result;
+}
+
+/**
+ * Wraps the data in a zlib stream made of stored deflate blocks.
+ */
+function zlibStore(data:Uint8Array):Uint8Array {
+    let blocks = Math.max(1, Math.ceil(data.length / MaxStoredBlock));
+    let result = new Uint8Array(2 + data.length + blocks * 5 + 4);
+    // CMF: deflate with 32K window, FLG: no dictionary, check bits.
+    result[0] = 0x78;
+    result[1] = 0x01;
+    let offset = 2;
+    for (let block = 0; block < blocks; block++) {
+        let start = block * MaxStoredBlock;
+        let len = Math.min(MaxStoredBlock, data.length - start);
+        result[offset] = (block == blocks - 1) ? 1 : 0;
+        result[offset + 1] = len & 0xff;
+        result[offset + 2] = (len >>> 8) & 0xff;
+        result[offset + 3] = ~len & 0xff;
+        result[offset + 4] = (~len >>> 8) & 0xff;
+        result.set(data.subarray(start, start + len), offset + 5);
+        offset += len + 5;
+    }
+    writeUint32(result, offset, adler32(data));
+    return result;
+}
+
+/**
+ * Encodes 8 bit RGBA pixels as a PNG file.
+ */
+export function encodePng(width:number, height:number, rgba:Uint8Array|Uint8ClampedArray):Uint8Array {
+    if (rgba.length != width * height * 4) {
+        throw new Error(`Invalid RGBA data size ${rgba.length} for ${width}x${height} image`);
+    }
+    let header = new Uint8Array(13);
+    writeUint32(header, 0, width);
+    writeUint32(header, 4, height);
+    header[8] = 8;  // Bit depth
+    header[9] = 6;  // Color type RGBA
+    header[10] = 0; // Compression
+    header[11] = 0; // Filter
+    header[12] = 0; // Interlace
+    let stride = width * 4;
+    let raw = new Uint8Array((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        // Each row starts with filter type 0 (none).
+        raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    }
+    let chunks = [
+        Uint8Array.from(PngSignature),
+        chunk("IHDR", header),
+        chunk("IDAT", zlibStore(raw)),
+        chunk("IEND", new Uint8Array(0))];
+    let size = 0;
+    chunks.forEach(c => size += c.length);
+    let result = new Uint8Array(size);
+    let offset = 0;
+    chunks.forEach(c => {
+        result.set(c, offset);
+        offset += c.length;
+    });
+    return result;
+}
+
+const LengthBase = [
+    3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31,
+    35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LengthExtra = [
+    0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2,
+    3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DistanceBase = [
+    1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+    257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+    8193, 12289, 16385, 24577];
+const DistanceExtra = [
+    0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6,
+    7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CodeLengthOrder = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+class Huffman {
+    readonly counts = new Uint16Array(16);
+    readonly symbols:Uint16Array;
+
+    constructor(lengths:ArrayLike<number>) {
+        this.symbols = new Uint16Array(lengths.length);
+        for (let idx = 0; idx < lengths.length; idx++) {
+            this.counts[lengths[idx]]++;
+        }
+        this.counts[0] = 0;
+        let offsets = new Uint16Array(16);
+        for (let len = 1; len < 16; len++) {
+            offsets[len] = offsets[len - 1] + this.counts[len - 1];
+        }
+        for (let idx = 0; idx < lengths.length; idx++) {
+            if (lengths[idx] != 0) {
+                this.symbols[offsets[lengths[idx]]++] = idx;
+            }
+        }
+    }
+}
+
+class BitReader {
+    private pos_:number;
+    private bitBuf_ = 0;
+    private bitCount_ = 0;
+
+    constructor(private readonly data:Uint8Array, start:number) {
+        this.pos_ = start;
+    }
+
+    bits(count:number):number {
+        while (this.bitCount_ < count) {
+            if (this.pos_ >= this.data.length) {
+                throw new Error("Unexpected end of compressed data");
+            }
+            this.bitBuf_ |= this.data[this.pos_++] << this.bitCount_;
+            this.bitCount_ += 8;
+        }
+        let result = this.bitBuf_ & ((1 << count) - 1);
+        this.bitBuf_ >>>= count;
+        this.bitCount_ -= count;
+        return result;
+    }
+
+    alignToByte() {
+        this.bitBuf_ = 0;
+        this.bitCount_ = 0;
+    }
+
+    readByte():number {
+        if (this.pos_ >= this.data.length) {
+            throw new Error("Unexpected end of compressed data");
+        }
+        return this.data[this.pos_++];
+    }
+
+    decode(h:Huffman):number {
+        let code = 0;
+        let first = 0;
+        let index = 0;
+        for (let len = 1; len < 16; len++) {
+            code |= this.bits(1);
+            let count = h.counts[len];
+            if (code - count < first) {
+                return h.symbols[index + (code - first)];
+            }
+            index += count;
+            first += count;
+            first <<= 1;
+            code <<= 1;
+        }
+        throw new Error("Invalid Huffman code");
+    }
+}
+
+class ByteBuffer {
+    private data_ = new Uint8Array(1 << 16);
+    private length_ = 0;
+
+    get length():number {
+        return this.length_;
+    }
+
+    push(value:number) {
+        if (this.length_ == this.data_.length) {
+            let data = new Uint8Array(this.data_.length * 2);
+            data.set(this.data_);
+            this.data_ = data;
+        }
+        this.data_[this.length_++] = value;
+    }
+
+    at(idx:number):number {
+        return this.data_[idx];
+    }
+
+    toArray():Uint8Array {
+        return this.data_.slice(0, this.length_);
+    }
+}
+
+let fixedLiterals:Huffman = undefined;
+let fixedDistances:Huffman = undefined;
+
+function inflateBlock(reader:BitReader, out:ByteBuffer, literals:Huffman, distances:Huffman) {
+    for (;;) {
+        let symbol = reader.decode(literals);
+        if (symbol < 256) {
+            out.push(symbol);
+        } else if (symbol == 256) {
+            return;
+        } else {
+            symbol -= 257;
+            if (symbol >= 29) {
+                throw new Error("Invalid length code");
+            }
+            let len = LengthBase[symbol] + reader.bits(LengthExtra[symbol]);
+            let distSymbol = reader.decode(distances);
+            if (distSymbol >= 30) {
+                throw new Error("Invalid distance code");
+            }
+            let dist = DistanceBase[distSymbol] + reader.bits(DistanceExtra[distSymbol]);
+            if (dist > out.length) {
+                throw new Error("Distance too far back");
+            }
+            let start = out.length - dist;
+            for (let idx = 0; idx < len; idx++) {
+                out.push(out.at(start + idx));
+            }
+        }
+    }
+}
+
+function dynamicTables(reader:BitReader):{literals:Huffman, distances:Huffman} {
+    let nlen = reader.bits(5) + 257;
+    let ndist = reader.bits(5) + 1;
+    let ncode = reader.bits(4) + 4;
+    let lengths = new Uint8Array(19);
+    for (let idx = 0; idx < ncode; idx++) {
+        lengths[CodeLengthOrder[idx]] = reader.bits(3);
+    }
+    let lencode = new Huffman(lengths);
+    let codeLengths = new Uint8Array(nlen + ndist);
+    let idx = 0;
+    while (idx < nlen + ndist) {
+        let symbol = reader.decode(lencode);
+        if (symbol < 16) {
+            codeLengths[idx++] = symbol;
+            continue;
+        }
+        let value = 0;
+        let repeat:number;
+        if (symbol == 16) {
+            if (idx == 0) {
+                throw new Error("Repeat with no previous code length");
+            }
+            value = codeLengths[idx - 1];
+            repeat = 3 + reader.bits(2);
+        } else if (symbol == 17) {
+            repeat = 3 + reader.bits(3);
+        } else {
+            repeat = 11 + reader.bits(7);
+        }
+        if (idx + repeat > nlen + ndist) {
+            throw new Error("Too many code lengths");
+        }
+        while (repeat-- > 0) {
+            codeLengths[idx++] = value;
+        }
+    }
+    return {
+        literals:new Huffman(codeLengths.subarray(0, nlen)),
+        distances:new Huffman(codeLengths.subarray(nlen))
+    };
+}
+
+/**
+ * Decompresses a zlib stream.
+ */
+export function inflate(data:Uint8Array):Uint8Array {
+    if (data.length < 2 || (data[0] & 0x0f) != 8 || ((data[0] << 8) | data[1]) % 31 != 0) {
+        throw new Error("Invalid zlib header");
+    }
+    if (data[1] & 0x20) {
+        throw new Error("Preset dictionary is not supported");
+    }
+    let reader = new BitReader(data, 2);
+    let out = new ByteBuffer();
+    let last = 0;
+    while (!last) {
+        last = reader.bits(1);
+        let type = reader.bits(2);
+        if (type == 0) {
+            reader.alignToByte();
+            let len = reader.readByte() | (reader.readByte() << 8);
+            let nlen = reader.readByte() | (reader.readByte() << 8);
+            if (len != (~nlen & 0xffff)) {
+                throw new Error("Invalid stored block length");
+            }
+            while (len-- > 0) {
+                out.push(reader.readByte());
+            }
+        } else if (type == 1) {
+            if (!fixedLiterals) {
+                let lengths = new Uint8Array(288);
+                lengths.fill(8, 0, 144);
+                lengths.fill(9, 144, 256);
+                lengths.fill(7, 256, 280);
+                lengths.fill(8, 280, 288);
+                fixedLiterals = new Huffman(lengths);
+                fixedDistances = new Huffman(new Uint8Array(30).fill(5));
+            }
+            inflateBlock(reader, out, fixedLiterals, fixedDistances);
+        } else if (type == 2) {
+            let tables = dynamicTables(reader);
+            inflateBlock(reader, out, tables.literals, tables.distances);
+        } else {
+            throw new Error("Invalid deflate block type");
+        }
+    }
+    return out.toArray();
+}
+
+export class PngImage {
+    constructor(
+        readonly width:number,
+        readonly height:number,
+        readonly pixels:Uint8ClampedArray) {
+    }
+}
+
+function readUint32(data:Uint8Array, offset:number):number {
+    return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
+
+function paeth(a:number, b:number, c:number):number {
+    let p = a + b - c;
+    let pa = Math.abs(p - a);
+    let pb = Math.abs(p - b);
+    let pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) {
+        return a;
+    }
+    return (pb <= pc) ? b : c;
+}
+
+/**
+ * Reverses the scanline filters of one (sub)image in place and returns the
+ * offset of the next image in the data.
+ */
+function unfilter(data:Uint8Array, offset:number, stride:number, height:number, bpp:number):number {
+    let prev:Uint8Array = undefined;
+    for (let y = 0; y < height; y++) {
+        let filter = data[offset];
+        let line = data.subarray(offset + 1, offset + 1 + stride);
+        for (let x = 0; x < stride; x++) {
+            let a = (x >= bpp) ? line[x - bpp] : 0;
+            let b = (prev) ? prev[x] : 0;
+            let c = (prev && x >= bpp) ? prev[x - bpp] : 0;
+            switch (filter) {
+                case 0: break;
+                case 1: line[x] += a; break;
+                case 2: line[x] += b; break;
+                case 3: line[x] += (a + b) >>> 1; break;
+                case 4: line[x] += paeth(a, b, c); break;
+                default: throw new Error(`Invalid PNG filter type ${filter}`);
+            }
+        }
+        prev = line;
+        offset += stride + 1;
+    }
+    return offset;
+}
+
+const Adam7 = [
+    {x:0, y:0, dx:8, dy:8},
+    {x:4, y:0, dx:8, dy:8},
+    {x:0, y:4, dx:4, dy:8},
+    {x:2, y:0, dx:4, dy:4},
+    {x:0, y:2, dx:2, dy:4},
+    {x:1, y:0, dx:2, dy:2},
+    {x:0, y:1, dx:1, dy:2}];
+
+/**
+ * Decodes a PNG file to 8 bit RGBA pixels. Supports 8 bit gray, RGB,
+ * palette, gray with alpha and RGBA images, with or without interlacing.
+ */
+export function decodePng(data:Uint8Array):PngImage {
+    for (let idx = 0; idx < PngSignature.length; idx++) {
+        if (data[idx] != PngSignature[idx]) {
+            throw new Error("Not a PNG file");
+        }
+    }
+    let width = 0;
+    let height = 0;
+    let colorType = 0;
+    let interlace = 0;
+    let palette:Uint8Array = undefined;
+    let transparency:Uint8Array = undefined;
+    let idat:Array<Uint8Array> = [];
+    let offset = 8;
+    while (offset + 8 <= data.length) {
+        let len = readUint32(data, offset);
+        let type = String.fromCharCode(data[offset + 4], data[offset + 5], data[offset + 6], data[offset + 7]);
+        let body = data.subarray(offset + 8, offset + 8 + len);
+        switch (type) {
+            case "IHDR":
+                width = readUint32(body, 0);
+                height = readUint32(body, 4);
+                if (body[8] != 8) {
+                    throw new Error(`Unsupported PNG bit depth ${body[8]}`);
+                }
+                colorType = body[9];
+                interlace = body[12];
+                break;
+            case "PLTE": palette = body; break;
+            case "tRNS": transparency = body; break;
+            case "IDAT": idat.push(body); break;
+        }
+        if (type == "IEND") {
+            break;
+        }
+        offset += len + 12;
+    }
+    let channels:number;
+    switch (colorType) {
+        case 0: channels = 1; break;
+        case 2: channels = 3; break;
+        case 3: channels = 1; break;
+        case 4: channels = 2; break;
+        case 6: channels = 4; break;
+        default: throw new Error(`Unsupported PNG color type ${colorType}`);
+    }
+    let size = 0;
+    idat.forEach(d => size += d.length);
+    let compressed = new Uint8Array(size);
+    size = 0;
+    idat.forEach(d => {
+        compressed.set(d, size);
+        size += d.length;
+    });
+    let raw = inflate(compressed);
+    let pixels = new Uint8ClampedArray(width * height * 4);
+    let setPixel = (x:number, y:number, src:Uint8Array, srcOffset:number) => {
+        let dst = (y * width + x) * 4;
+        switch (colorType) {
+            case 0:
+                pixels[dst] = pixels[dst + 1] = pixels[dst + 2] = src[srcOffset];
+                pixels[dst + 3] = 255;
+                break;
+            case 2:
+                pixels[dst] = src[srcOffset];
+                pixels[dst + 1] = src[srcOffset + 1];
+                pixels[dst + 2] = src[srcOffset + 2];
+                pixels[dst + 3] = 255;
+                break;
+            case 3: {
+                let idx = src[srcOffset];
+                pixels[dst] = palette[idx * 3];
+                pixels[dst + 1] = palette[idx * 3 + 1];
+                pixels[dst + 2] = palette[idx * 3 + 2];
+                pixels[dst + 3] = (transparency && idx < transparency.length) ? transparency[idx] : 255;
+                break;
+            }
+            case 4:
+                pixels[dst] = pixels[dst + 1] = pixels[dst + 2] = src[srcOffset];
+                pixels[dst + 3] = src[srcOffset + 1];
+                break;
+            case 6:
+                pixels[dst] = src[srcOffset];
+                pixels[dst + 1] = src[srcOffset + 1];
+                pixels[dst + 2] = src[srcOffset + 2];
+                pixels[dst + 3] = src[srcOffset + 3];
+                break;
+        }
+    }
+    let passes = (interlace) ? Adam7 : [{x:0, y:0, dx:1, dy:1}];
+    offset = 0;
+    for (let pass of passes) {
+        let passWidth = Math.ceil((width - pass.x) / pass.dx);
+        let passHeight = Math.ceil((height - pass.y) / pass.dy);
+        if (passWidth <= 0 || passHeight <= 0) {
+            continue;
+        }
+        let stride = passWidth * channels;
+        let start = offset;
+        offset = unfilter(raw, offset, stride, passHeight, channels);
+        for (let y = 0; y < passHeight; y++) {
+            let lineOffset = start + y * (stride + 1) + 1;
+            for (let x = 0; x < passWidth; x++) {
+                setPixel(pass.x + x * pass.dx, pass.y + y * pass.dy, raw, lineOffset + x * channels);
+            }
+        }
+    }
+    return new PngImage(width, height, pixels);
+}
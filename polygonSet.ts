@@ -14,6 +14,7 @@ import {
     Epsilon,
     GraphicsObjects,
     SimpleBounds} from "./primitives";
+import {arcSteps, circleToPolygon, reversePolygon} from "./polygonTools";
 import {ClipperSubModule} from "clipperjs/clipper";
 
 const clipperModule = import("clipperjs/clipper_js");
@@ -185,6 +186,25 @@ export function objectsBounds(objects:GraphicsObjects):Bounds {
     return bounds;
 }
 
+/**
+ * Signed area of a polygon, positive for counter clockwise polygons.
+ */
+export function polygonArea(poly:Polygon):number {
+    let len = poly.length;
+    if (len < 6) {
+        return 0;
+    }
+    let area = 0;
+    let prevx = poly[len - 2];
+    let prevy = poly[len - 1];
+    for (let idx = 0; idx < len; idx += 2) {
+        area += prevx * poly[idx + 1] - poly[idx] * prevy;
+        prevx = poly[idx];
+        prevy = poly[idx + 1];
+    }
+    return area / 2;
+}
+
 export function unionPolygonSet(one:PolygonSet, other:PolygonSet):PolygonSetWithBounds {
     let clipper = new cl.Clipper<Point>(100000000);
     clipper.addPathArrays(one, cl.PathType.Subject, false);
@@ -229,6 +249,275 @@ export function subtractPolygonSet(one:PolygonSet, other:PolygonSet):PolygonSetW
     };
 }
 
+function clipPolygonSets(
+    clipType:number, one:PolygonSet, other:PolygonSet):PolygonSetWithBounds {
+    let clipper = new cl.Clipper<Point>(100000000);
+    clipper.addPathArrays(one, cl.PathType.Subject, false);
+    clipper.addPathArrays(other, cl.PathType.Clip, false);
+    let result = clipper.executeClosedToArrays(clipType, cl.FillRule.NonZero);
+    clipper.delete();
+    if (result.success) {
+        return {
+            polygonSet: result.solution_closed,
+            bounds: result.bounds_closed
+        };
+    }
+    return {
+        polygonSet: result.solution_closed,
+        bounds: undefined
+    };
+}
+
+export function intersectPolygonSet(one:PolygonSet, other:PolygonSet):PolygonSetWithBounds {
+    if (one.length == 0 || other.length == 0) {
+        return {
+            polygonSet: [],
+            bounds: undefined
+        };
+    }
+    return clipPolygonSets(cl.ClipType.Intersection, one, other);
+}
+
+/**
+ * The area covered by exactly one of the polygon sets.
+ */
+export function xorPolygonSet(one:PolygonSet, other:PolygonSet):PolygonSetWithBounds {
+    if (one.length == 0) {
+        return unionPolygonSet(other, []);
+    }
+    if (other.length == 0) {
+        return unionPolygonSet(one, []);
+    }
+    return clipPolygonSets(cl.ClipType.Xor, one, other);
+}
+
+export enum JoinType {
+    ROUND,
+    SQUARE,
+    MITER
+}
+
+/**
+ * Orients the polygon counter clockwise, so overlapping shapes do not cancel
+ * out with the non-zero fill rule.
+ */
+function positivePolygon(poly:Polygon):Polygon {
+    if (polygonArea(poly) < 0) {
+        reversePolygon(poly);
+    }
+    return poly;
+}
+
+/**
+ * Shapes that sweep the edges of a polygon by the distance, and fill the
+ * corners that open towards the outward normals. The material is on the left
+ * of the edges when side is positive.
+ */
+function offsetShapes(
+    poly:Polygon,
+    side:number,
+    distance:number,
+    joinType:JoinType,
+    miterLimit:number,
+    circle:Polygon,
+    result:PolygonSet) {
+    let points:Array<Point> = [];
+    for (let idx = 0; idx < poly.length; idx += 2) {
+        let point = new Point(poly[idx], poly[idx + 1]);
+        if (points.length == 0 || points[points.length - 1].distance(point) > Epsilon) {
+            points.push(point);
+        }
+    }
+    while (points.length > 1 && points[0].distance(points[points.length - 1]) <= Epsilon) {
+        points.pop();
+    }
+    let len = points.length;
+    if (len < 3) {
+        return;
+    }
+    let directions:Array<Point> = [];
+    let normals:Array<Point> = [];
+    points.forEach((point, idx) => {
+        let next = points[(idx + 1) % len];
+        let length = point.distance(next);
+        let direction = new Point((next.x - point.x) / length, (next.y - point.y) / length);
+        let normal = new Point(direction.y * side, -direction.x * side);
+        directions.push(direction);
+        normals.push(normal);
+        let offset = new Point(normal.x * distance, normal.y * distance);
+        result.push(positivePolygon(Float64Array.of(
+            point.x + offset.x, point.y + offset.y,
+            next.x + offset.x, next.y + offset.y,
+            next.x - offset.x, next.y - offset.y,
+            point.x - offset.x, point.y - offset.y)));
+    });
+    points.forEach((point, idx) => {
+        let prevIdx = (idx + len - 1) % len;
+        let d1 = directions[prevIdx];
+        let d2 = directions[idx];
+        let n1 = normals[prevIdx];
+        let n2 = normals[idx];
+        // The corner turns away from the growth side, the edges cover it.
+        if (d1.x * n2.x + d1.y * n2.y <= Epsilon) {
+            return;
+        }
+        if (joinType == JoinType.ROUND) {
+            let shape = copyPolygon(circle);
+            translatePolygon(shape, point);
+            result.push(positivePolygon(shape));
+            return;
+        }
+        let dot = n1.x * n2.x + n1.y * n2.y;
+        let miter = new Point((n1.x + n2.x) / (1 + dot), (n1.y + n2.y) / (1 + dot));
+        if (joinType == JoinType.MITER
+            && Math.sqrt(miter.x * miter.x + miter.y * miter.y) <= miterLimit) {
+            result.push(positivePolygon(Float64Array.of(
+                point.x, point.y,
+                point.x + n1.x * distance, point.y + n1.y * distance,
+                point.x + miter.x * distance, point.y + miter.y * distance,
+                point.x + n2.x * distance, point.y + n2.y * distance)));
+            return;
+        }
+        // Square the corner at the offset distance along the bisector.
+        let bisectorLength = Math.sqrt(2 + 2 * dot);
+        let bisector = new Point((n1.x + n2.x) / bisectorLength, (n1.y + n2.y) / bisectorLength);
+        let s1 = distance * (1 - (n1.x * bisector.x + n1.y * bisector.y))
+            / (d1.x * bisector.x + d1.y * bisector.y);
+        let s2 = distance * (1 - (n2.x * bisector.x + n2.y * bisector.y))
+            / -(d2.x * bisector.x + d2.y * bisector.y);
+        result.push(positivePolygon(Float64Array.of(
+            point.x, point.y,
+            point.x + n1.x * distance, point.y + n1.y * distance,
+            point.x + n1.x * distance + d1.x * s1, point.y + n1.y * distance + d1.y * s1,
+            point.x + n2.x * distance - d2.x * s2, point.y + n2.y * distance - d2.y * s2,
+            point.x + n2.x * distance, point.y + n2.y * distance)));
+    });
+}
+
+/**
+ * Grows the polygons by delta, or shrinks them when delta is negative. The
+ * result is the union of the polygons with their edges swept by the offset,
+ * or the difference for negative offsets. The swept shapes of all edges go
+ * through a single clipper operation. Miter joins longer than miterLimit
+ * times the offset are squared, the tolerance sets the chord error of the
+ * round joins.
+ */
+export function offsetPolygonSet(
+    polygonSet:PolygonSet,
+    delta:number,
+    joinType:JoinType = JoinType.ROUND,
+    miterLimit:number = 2,
+    tolerance?:number):PolygonSetWithBounds {
+    let solid = unionPolygonSet(polygonSet, []);
+    if (Math.abs(delta) < Epsilon || solid.polygonSet.length == 0) {
+        return solid;
+    }
+    let distance = Math.abs(delta);
+    let circle = circleToPolygon(distance, arcSteps(distance, tolerance));
+    let shapes:PolygonSet = [];
+    splitIslands(solid.polygonSet).forEach(island => island.forEach((poly, idx) => {
+        // The material is on the left of the counter clockwise outer polygons
+        // and the clockwise holes. Shrinking grows the space around it.
+        let side = ((idx == 0) == (polygonArea(poly) > 0)) ? 1 : -1;
+        offsetShapes(poly, (delta > 0) ? side : -side, distance, joinType, miterLimit, circle, shapes);
+    }));
+    if (delta > 0) {
+        return unionPolygonSet(solid.polygonSet, shapes);
+    }
+    return subtractPolygonSet(solid.polygonSet, unionPolygonSet(shapes, []).polygonSet);
+}
+
+/**
+ * Even-odd test of a point against a polygon. Points on the edges can be
+ * inside or outside.
+ */
+export function pointInPolygon(x:number, y:number, poly:Polygon):boolean {
+    let inside = false;
+    let len = poly.length;
+    let prevx = poly[len - 2];
+    let prevy = poly[len - 1];
+    for (let idx = 0; idx < len; idx += 2) {
+        let px = poly[idx];
+        let py = poly[idx + 1];
+        if ((py > y) != (prevy > y)
+            && x < (prevx - px) * (y - py) / (prevy - py) + px) {
+            inside = !inside;
+        }
+        prevx = px;
+        prevy = py;
+    }
+    return inside;
+}
+
+export function boundsOverlap(one:Bounds, other:Bounds):boolean {
+    return one.min.x <= other.max.x && other.min.x <= one.max.x
+        && one.min.y <= other.max.y && other.min.y <= one.max.y;
+}
+
+/**
+ * Groups a union result to outer polygons with their holes. Polygons
+ * inside an even number of other polygons are outer polygons.
+ */
+export function splitIslands(polygonSet:PolygonSet):Array<PolygonSet> {
+    let bounds = polygonSet.map(polygon => polygonBounds(polygon));
+    let parents = polygonSet.map((polygon, idx) =>
+        polygonSet
+            .map((other, otherIdx) => otherIdx)
+            .filter(otherIdx => otherIdx != idx
+                && boundsOverlap(bounds[idx], bounds[otherIdx])
+                && pointInPolygon(polygon[0], polygon[1], polygonSet[otherIdx])));
+    let result:Array<PolygonSet> = [];
+    let outerIslands = new Map<number, PolygonSet>();
+    polygonSet.forEach((polygon, idx) => {
+        if (parents[idx].length % 2 == 0) {
+            let island = [polygon];
+            outerIslands.set(idx, island);
+            result.push(island);
+        }
+    });
+    polygonSet.forEach((polygon, idx) => {
+        let depth = parents[idx].length;
+        if (depth % 2 == 1) {
+            // The outer polygon is the parent one level up.
+            let outer = parents[idx].find(parent => parents[parent].length == depth - 1);
+            if (outer != undefined) {
+                outerIslands.get(outer).push(polygon);
+            }
+        }
+    });
+    return result;
+}
+
+/**
+ * Area of a union result, the holes are subtracted.
+ */
+export function polygonSetArea(polygonSet:PolygonSet):number {
+    let result = 0;
+    splitIslands(polygonSet).forEach(island => island.forEach((poly, idx) => {
+        let area = Math.abs(polygonArea(poly));
+        result += (idx == 0) ? area : -area;
+    }));
+    return result;
+}
+
+/**
+ * The area enclosed by the outline strokes, without the strokes. Outlines
+ * drawn as filled regions are the enclosed area.
+ */
+export function enclosedArea(outline:PolygonSet):PolygonSet {
+    let outerPolygons = splitIslands(outline).map(island => island[0]);
+    let filled:PolygonSet = [];
+    splitIslands(outerPolygons).forEach(island => island.forEach((poly, idx) => {
+        let copy = copyPolygon(poly);
+        if ((idx == 0) != (polygonArea(copy) > 0)) {
+            reversePolygon(copy);
+        }
+        filled.push(copy);
+    }));
+    let result = subtractPolygonSet(filled, outline).polygonSet;
+    return (result.length > 0) ? result : filled;
+}
+
 export function distance2(x1:number, y1:number, x2:number, y2:number):number {
     let dx = x1 - x2;
     let dy = y1 - y2;
@@ -17,6 +17,31 @@ import {Polygon} from "./polygonSet";
 const PI2 = Math.PI * 2;
 export const NUMSTEPS = 40;
 const NUMSTEPS2 = NUMSTEPS / 2;
+const MAXSTEPS = 4096;
+
+/**
+ * Number of steps to approximate an arc with the given radius and angle, so
+ * no chord deviates more than the tolerance from the arc. Without a
+ * tolerance the default number of steps is used.
+ */
+export function arcSteps(
+    radius:number,
+    tolerance?:number,
+    angle:number = PI2,
+    defaultSteps:number = NUMSTEPS):number {
+    if (!(tolerance > 0)) {
+        return defaultSteps;
+    }
+    angle = Math.abs(angle);
+    // At least one step per quadrant.
+    let minSteps = Math.max(1, Math.ceil(angle / (Math.PI / 2) - 1E-9));
+    if (tolerance >= radius) {
+        return minSteps;
+    }
+    let stepAngle = 2 * Math.acos(1 - tolerance / radius);
+    let steps = Math.ceil(angle / stepAngle - 1E-9);
+    return Math.min(MAXSTEPS, Math.max(minSteps, steps));
+}
 
 export function circleToPolygon(
     radius:number,
@@ -45,28 +70,29 @@ export function rectangleToPolygon(width:number, height:number):Polygon {
         width2, -height2);
 }
 
-export function obroundToPolygon(width:number, height:number):Polygon {
-    let result:Polygon = new Float64Array((NUMSTEPS + 3) * 2);
+export function obroundToPolygon(width:number, height:number, tolerance?:number):Polygon {
+    let steps2 = arcSteps(Math.min(width, height) / 2, tolerance, Math.PI, NUMSTEPS2);
+    let result:Polygon = new Float64Array((steps2 * 2 + 3) * 2);
     if (width < height) {
         let radius = width / 2;
         let innerHeight = height - width;
         let height2 = innerHeight / 2;
         result[0] = radius;
         result[1] = -height2;
-        let step = Math.PI / NUMSTEPS2;
-        for (let idx = 0; idx <= NUMSTEPS2; idx++) {
+        let step = Math.PI / steps2;
+        for (let idx = 0; idx <= steps2; idx++) {
             let dx = Math.cos(idx * step) * radius;
             let dy = Math.sin(idx * step) * radius + height2;
             //result[idx + 1] = new Point(dx, dy);
             result[idx * 2 + 2] = dx;
             result[idx * 2 + 3] = dy;
         }
-        for (let idx = 0; idx <= NUMSTEPS2; idx++) {
+        for (let idx = 0; idx <= steps2; idx++) {
             let dx = Math.cos(idx * step + Math.PI) * radius;
             let dy = Math.sin(idx * step + Math.PI) * radius - height2;
-            //result[idx + NUMSTEPS2 + 2] = new Point(dx, dy);
-            result[idx * 2 + NUMSTEPS2 * 2 + 4] = dx;
-            result[idx * 2 + NUMSTEPS2 * 2 + 5] = dy;
+            //result[idx + steps2 + 2] = new Point(dx, dy);
+            result[idx * 2 + steps2 * 2 + 4] = dx;
+            result[idx * 2 + steps2 * 2 + 5] = dy;
         }
     } else {
         let radius = height / 2;
@@ -74,20 +100,20 @@ export function obroundToPolygon(width:number, height:number):Polygon {
         let width2 = innerWidth / 2;
         result[0] = -width2;
         result[1] = -radius;
-        let step = Math.PI / NUMSTEPS2;
-        for (let idx = 0; idx <= NUMSTEPS2; idx++) {
+        let step = Math.PI / steps2;
+        for (let idx = 0; idx <= steps2; idx++) {
             let dx = Math.sin(idx * step) * radius + width2;
             let dy = -Math.cos(idx * step) * radius;
             // result[idx + 1] = new Point(dx, dy);
             result[idx * 2 + 2] = dx;
             result[idx * 2 + 3] = dy;
         }
-        for (let idx = 0; idx <= NUMSTEPS2; idx++) {
+        for (let idx = 0; idx <= steps2; idx++) {
             let dx = -Math.sin(idx * step) * radius - width2;
             let dy = Math.cos(idx * step) * radius;
-            // result[idx + NUMSTEPS2 + 2] = new Point(dx, dy);
-            result[idx * 2 + NUMSTEPS2 * 2 + 4] = dx;
-            result[idx * 2 + NUMSTEPS2 * 2 + 5] = dy;
+            // result[idx + steps2 + 2] = new Point(dx, dy);
+            result[idx * 2 + steps2 * 2 + 4] = dx;
+            result[idx * 2 + steps2 * 2 + 5] = dy;
         }
     }
     return result;
@@ -98,23 +124,25 @@ export function arcToPolygon(
     end:Point,
     center:Point,
     closeEnd:boolean = true,
-    closeStart:boolean = true):Polygon {
-    let result:Polygon = new Float64Array(
-        2 * (NUMSTEPS - ((closeStart) ? 0 : 1) - ((closeEnd) ? 0 : 1)));
+    closeStart:boolean = true,
+    tolerance?:number):Polygon {
     let startAngle = center.angleFrom(start);
     let endAngle = center.angleFrom(end);
     if (endAngle < startAngle) {
         endAngle += Math.PI * 2;
     }
     let radius = (center.distance(start) + center.distance(end)) / 2;
-    let step = (endAngle - startAngle) / NUMSTEPS;
+    let nsteps = arcSteps(radius, tolerance, endAngle - startAngle, NUMSTEPS - 1);
+    let result:Polygon = new Float64Array(
+        2 * (nsteps + 1 - ((closeStart) ? 0 : 1) - ((closeEnd) ? 0 : 1)));
+    let step = (endAngle - startAngle) / nsteps;
     let startOffset = -2;
     if (closeStart) {
         result[0] = start.x;
         result[1] = start.y;
         startOffset = 0;
     }
-    for (let idx = 1; idx < NUMSTEPS; idx++) {
+    for (let idx = 1; idx < nsteps; idx++) {
         let angle = idx * step + startAngle;
         let x = center.x + radius * Math.cos(angle);
         let y = center.y + radius * Math.sin(angle);
@@ -122,12 +150,26 @@ export function arcToPolygon(
         result[idx * 2 + startOffset + 1] = y;
     }
     if (closeEnd) {
-        result[NUMSTEPS * 2 - 2 + startOffset] = end.x;
-        result[NUMSTEPS * 2 - 1 + startOffset] = end.y;
+        result[nsteps * 2 + startOffset] = end.x;
+        result[nsteps * 2 + 1 + startOffset] = end.y;
     }
     return result;
 }
 
+/**
+ * Concatenates the points of several polygons into one polygon.
+ */
+export function joinPolygons(parts:Array<Polygon>):Polygon {
+    let length = parts.reduce((sum, part) => sum + part.length, 0);
+    let result:Polygon = new Float64Array(length);
+    let offset = 0;
+    parts.forEach(part => {
+        result.set(part, offset);
+        offset += part.length;
+    });
+    return result;
+}
+
 export function reversePolygon(poly:Polygon) {
     let len = poly.length;
     if (len < 2) {
@@ -142,4 +184,184 @@ export function reversePolygon(poly:Polygon) {
         poly[lenMinus2 - idx] = tmpx;
         poly[lenMinus2 - idx + 1] = tmpy;
     }
-}
\ No newline at end of file
+}
+/**
+ * Convex hull of a set of points, as a closed counter clockwise polygon.
+ */
+export function convexHull(points:Polygon):Polygon {
+    let indexes:Array<number> = [];
+    for (let idx = 0; idx < points.length; idx += 2) {
+        indexes.push(idx);
+    }
+    indexes.sort((a, b) => (points[a] - points[b]) || (points[a + 1] - points[b + 1]));
+    // Drop duplicates, like the closing point of a polygon.
+    indexes = indexes.filter((idx, pos) => pos == 0
+        || Math.abs(points[idx] - points[indexes[pos - 1]]) > 1E-9
+        || Math.abs(points[idx + 1] - points[indexes[pos - 1] + 1]) > 1E-9);
+    let cross = (o:number, a:number, b:number) =>
+        (points[a] - points[o]) * (points[b + 1] - points[o + 1])
+        - (points[a + 1] - points[o + 1]) * (points[b] - points[o]);
+    let lower:Array<number> = [];
+    for (let idx of indexes) {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], idx) <= 0) {
+            lower.pop();
+        }
+        lower.push(idx);
+    }
+    let upper:Array<number> = [];
+    for (let pos = indexes.length - 1; pos >= 0; pos--) {
+        let idx = indexes[pos];
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], idx) <= 0) {
+            upper.pop();
+        }
+        upper.push(idx);
+    }
+    lower.pop();
+    upper.pop();
+    let hull = lower.concat(upper);
+    if (hull.length == 0) {
+        return new Float64Array(0);
+    }
+    hull.push(hull[0]);
+    let result = new Float64Array(hull.length * 2);
+    hull.forEach((idx, pos) => {
+        result[pos * 2] = points[idx];
+        result[pos * 2 + 1] = points[idx + 1];
+    });
+    return result;
+}
+
+/**
+ * Area swept by a convex shape moving along a line. The shape is relative
+ * to the moving point.
+ */
+export function sweepLine(shape:Polygon, start:Point, end:Point):Polygon {
+    let points = new Float64Array(shape.length * 2);
+    for (let idx = 0; idx < shape.length; idx += 2) {
+        points[idx] = shape[idx] + start.x;
+        points[idx + 1] = shape[idx + 1] + start.y;
+        points[shape.length + idx] = shape[idx] + end.x;
+        points[shape.length + idx + 1] = shape[idx + 1] + end.y;
+    }
+    return convexHull(points);
+}
+
+/**
+ * Index of the hull vertex furthest in the given direction.
+ */
+function supportVertex(hull:Polygon, count:number, dx:number, dy:number):number {
+    let result = 0;
+    let max = -Infinity;
+    for (let idx = 0; idx < count; idx++) {
+        let dot = hull[idx * 2] * dx + hull[idx * 2 + 1] * dy;
+        if (dot > max + 1E-12) {
+            max = dot;
+            result = idx;
+        }
+    }
+    return result;
+}
+
+/**
+ * Appends the points of the path, offset by the hull vertex furthest in the
+ * normal direction, which is the path normal times the sign. When that
+ * vertex changes between path points the hull vertices in between are
+ * added, stepping forward (counter clockwise) or backward through the hull.
+ */
+function appendSweepSide(
+    result:Array<number>,
+    hull:Polygon,
+    count:number,
+    path:Polygon,
+    center:Point,
+    sign:number,
+    step:number,
+    reverse:boolean):number {
+    let pathCount = path.length / 2;
+    let previous = -1;
+    for (let pos = 0; pos < pathCount; pos++) {
+        let idx = (reverse) ? pathCount - 1 - pos : pos;
+        let x = path[idx * 2];
+        let y = path[idx * 2 + 1];
+        let vertex = supportVertex(hull, count, (x - center.x) * sign, (y - center.y) * sign);
+        // The vertex only moves forward, a large jump is a rounding error.
+        if (previous >= 0 && ((vertex - previous) * step + count) % count <= count / 2) {
+            for (let v = previous; v != vertex; v = (v + step + count) % count) {
+                result.push(x + hull[v * 2], y + hull[v * 2 + 1]);
+            }
+        }
+        result.push(x + hull[vertex * 2], y + hull[vertex * 2 + 1]);
+        previous = vertex;
+    }
+    return previous;
+}
+
+/**
+ * The outer side of a swept arc is further from the center than the path,
+ * scale the tolerance so the path steps keep the outer side within it.
+ */
+function sweepTolerance(hull:Polygon, radius:number, tolerance?:number):number {
+    if (!(tolerance > 0)) {
+        return tolerance;
+    }
+    let reach = 0;
+    for (let idx = 0; idx < hull.length; idx += 2) {
+        reach = Math.max(reach, Math.sqrt(hull[idx] * hull[idx] + hull[idx + 1] * hull[idx + 1]));
+    }
+    return tolerance * radius / (radius + reach);
+}
+
+/**
+ * Area swept by a convex shape moving counter clockwise along an arc from
+ * start to end. The shape is relative to the moving point.
+ */
+export function sweepArc(
+    shape:Polygon, start:Point, end:Point, center:Point, tolerance?:number):Polygon {
+    let hull = convexHull(shape);
+    let count = hull.length / 2 - 1;
+    if (count < 1) {
+        return new Float64Array(0);
+    }
+    let radius = center.distance(start);
+    let path = arcToPolygon(
+        start, end, center, true, true, sweepTolerance(hull, radius, tolerance));
+    let result:Array<number> = [];
+    // Outer side from start to end, the cap in front of the end point, the
+    // inner side back to the start and the cap behind the start point.
+    let outerEnd = appendSweepSide(result, hull, count, path, center, 1, 1, false);
+    let innerEnd = supportVertex(hull, count, center.x - end.x, center.y - end.y);
+    for (let v = (outerEnd + 1) % count; v != innerEnd; v = (v + 1) % count) {
+        result.push(end.x + hull[v * 2], end.y + hull[v * 2 + 1]);
+    }
+    let innerStart = appendSweepSide(result, hull, count, path, center, -1, -1, true);
+    let outerStart = supportVertex(hull, count, start.x - center.x, start.y - center.y);
+    for (let v = (innerStart + 1) % count; v != outerStart; v = (v + 1) % count) {
+        result.push(start.x + hull[v * 2], start.y + hull[v * 2 + 1]);
+    }
+    result.push(result[0], result[1]);
+    return Float64Array.from(result);
+}
+
+/**
+ * Area swept by a convex shape moving along a full circle. Returns the
+ * outer boundary and the inner boundary as a hole.
+ */
+export function sweepCircle(
+    shape:Polygon, center:Point, radius:number, tolerance?:number):Array<Polygon> {
+    let hull = convexHull(shape);
+    let count = hull.length / 2 - 1;
+    if (count < 1) {
+        return [];
+    }
+    let path = circleToPolygon(
+        radius, arcSteps(radius, sweepTolerance(hull, radius, tolerance)));
+    for (let idx = 0; idx < path.length; idx += 2) {
+        path[idx] += center.x;
+        path[idx + 1] += center.y;
+    }
+    let outer:Array<number> = [];
+    appendSweepSide(outer, hull, count, path, center, 1, 1, false);
+    let inner:Array<number> = [];
+    appendSweepSide(inner, hull, count, path, center, -1, -1, true);
+    return [Float64Array.from(outer), Float64Array.from(inner)];
+}
@@ -37,6 +37,7 @@ import {
     unionPolygonSet,
     subtractPolygonSet,
     scalePolySet,
+    scalePolygon,
     mirrorPolygon,
     objectsBounds,
     translateObjects,
@@ -45,13 +46,19 @@ import {
     copyObjects,
 } from "./polygonSet";
 import {Point} from "./point";
+import {DiagnosticCode, DiagnosticReport} from "./diagnostics";
 import {
+    arcSteps,
     arcToPolygon,
     circleToPolygon,
     rectangleToPolygon,
     obroundToPolygon,
-    NUMSTEPS,
+    joinPolygons,
     reversePolygon,
+    convexHull,
+    sweepLine,
+    sweepArc,
+    sweepCircle,
 } from "./polygonTools";
 
 export enum CoordinateUnits {
@@ -91,6 +98,16 @@ export enum ObjectMirroring {
     XY_AXIS
 }
 
+export enum ImagePolarity {
+    POSITIVE,
+    NEGATIVE
+}
+
+export enum AxisSelect {
+    AXBY,
+    AYBX
+}
+
 export enum AttributeType {
     FILE,
     APERTURE,
@@ -173,7 +190,11 @@ export class CoordinateFormatSpec {
 }
 
 export class GerberParseException {
-    constructor(readonly message:string, readonly line?:number) {
+    constructor(
+        readonly message:string,
+        readonly line?:number,
+        // All problems of the file, when the exception reports a parse.
+        readonly diagnostics?:DiagnosticReport) {
     }
 
     toString():string {
@@ -186,9 +207,10 @@ export class GerberParseException {
 
 export interface ApertureBase {
     readonly apertureId:number;
+    readonly attributes:AttributeDictionary;
     
     isDrawable():boolean;
-    objects(polarity:ObjectPolarity, primitive:ExecutivePrimitive):GraphicsObjects;
+    objects(polarity:ObjectPolarity, primitive:ExecutivePrimitive, tolerance?:number):GraphicsObjects;
     generateArcDraw(start:Point, end:Point, center:Point, state:ObjectState):PolyongWithThinkness;
     generateCircleDraw(center:Point, radius:number, state:ObjectState):PolyongSetWithThinkness;
     generateLineDraw(start:Point, end:Point, state:ObjectState):PolyongWithThinkness;
@@ -197,9 +219,15 @@ export interface ApertureBase {
 export class BlockAperture implements ApertureBase {
     private objects_:GraphicsObjects;
 
+    /**
+     * The objects are used to flash the block, the primitives keep the
+     * block content for the writers.
+     */
     constructor(
         readonly apertureId:number,
-        objects:GraphicsObjects) {
+        objects:GraphicsObjects,
+        readonly attributes:AttributeDictionary = {},
+        readonly primitives:Array<GraphicsPrimitive> = []) {
         this.objects_ = objects;
     }
 
@@ -231,6 +259,8 @@ export class ApertureDefinition implements ApertureBase {
     private macro_:ApertureMacro = undefined;
     private static standardTemplates = ["C", "R", "O", "P"];
     private polygonSet_:PolygonSet = undefined;
+    private polygonSetTolerance_:number = undefined;
+    private attributes_:AttributeDictionary = {};
 
     constructor(
         readonly apertureId:number,
@@ -238,13 +268,19 @@ export class ApertureDefinition implements ApertureBase {
         readonly modifiers:number[]) {
     }
 
+    get attributes():AttributeDictionary {
+        return this.attributes_;
+    }
+
     isMacro():boolean {
         return ApertureDefinition.standardTemplates.indexOf(this.templateName) < 0;
     }
 
     isDrawable():boolean {
         return (this.templateName === 'C' && this.modifiers.length == 1)
-            || (this.templateName === 'R' && this.modifiers.length == 2);
+            || (this.templateName === 'R' && this.modifiers.length == 2)
+            || (this.templateName === 'O' && this.modifiers.length == 2)
+            || (this.templateName === 'P' && this.modifiers.length >= 2 && this.modifiers.length <= 3);
     }
 
     get macro():ApertureMacro {
@@ -255,27 +291,65 @@ export class ApertureDefinition implements ApertureBase {
         if (this.isMacro()) {
             this.macro_ = ctx.getApertureMacro(this.templateName);
         }
+        this.attributes_ = ctx.apertureAttributes;
+    }
+
+    /**
+     * The aperture shape used to draw, after the object mirroring, rotation
+     * and scaling. Undefined for circles and zero size apertures.
+     */
+    private drawShape(state:ObjectState):Polygon {
+        let shape:Polygon;
+        if (this.templateName == "R" && this.modifiers.length >= 2) {
+            shape = rectangleToPolygon(this.modifiers[0], this.modifiers[1]);
+        } else if (this.templateName == "O" && this.modifiers.length >= 2) {
+            shape = obroundToPolygon(this.modifiers[0], this.modifiers[1], state.unscaledTolerance);
+        } else if (this.templateName == "P" && this.modifiers.length >= 2) {
+            shape = circleToPolygon(
+                this.modifiers[0] / 2,
+                this.modifiers[1],
+                (this.modifiers.length > 2) ? this.modifiers[2] : 0);
+        } else {
+            return undefined;
+        }
+        mirrorPolygon(shape, state.mirroring);
+        rotatePolygon(shape, state.rotation);
+        scalePolygon(shape, state.scale);
+        let hull = convexHull(shape);
+        if (hull.length < 8) {
+            return undefined;
+        }
+        return hull;
+    }
+
+    private checkDrawTemplate() {
+        if (["C", "R", "O", "P"].indexOf(this.templateName) < 0) {
+            throw new GerberParseException(`Draw with this aperture is not supported. ${this.templateName}`);
+        }
     }
 
     generateArcDraw(start:Point, end:Point, center:Point, state:ObjectState):PolyongWithThinkness {
-        let result:Polygon;
+        this.checkDrawTemplate();
+        let tolerance = state.chordTolerance;
+        if (this.templateName != "C") {
+            let shape = this.drawShape(state);
+            if (!shape) {
+                return {polygon:arcToPolygon(start, end, center, true, true, tolerance), is_solid:false};
+            }
+            if (start.distance(end) < Epsilon) {
+                translatePolygon(shape, start.midPoint(end));
+                return {polygon:shape, is_solid:true};
+            }
+            return {polygon:sweepArc(shape, start, end, center, tolerance), is_solid:true};
+        }
         if (start.distance(end) < Epsilon) {
-            if (this.templateName == "C" || this.templateName == "O") {
-                let radius = state.scale * this.modifiers[0] / 2;
-                if (radius < Epsilon) {
-                    return {polygon:Float64Array.of(), is_solid:false};
-                }
-                let polygon = circleToPolygon(radius);
-                translatePolygon(polygon, start.midPoint(end));
-                return {polygon:polygon, is_solid:true};
-            } else if (this.templateName == "R") {
-                let polygon = rectangleToPolygon(
-                    state.scale * this.modifiers[0],
-                    state.scale * this.modifiers[1]);
-                translatePolygon(polygon, start.midPoint(end))
-                return {polygon:polygon, is_solid:true};
+            let radius = state.scale * this.modifiers[0] / 2;
+            if (radius < Epsilon) {
+                return {polygon:Float64Array.of(), is_solid:false};
             }
-            throw new GerberParseException(`Draw with this aperture is not supported. ${this.templateName}`);
+            let polygon = circleToPolygon(radius, arcSteps(radius, tolerance));
+            translatePolygon(polygon, start.midPoint(end));
+            return {polygon:polygon, is_solid:true};
         }
         let startVector = {x:start.x - center.x, y:start.y - center.y};
         let endVector = {x:end.x - center.x, y:end.y - center.y};
@@ -291,190 +365,115 @@ export class ApertureDefinition implements ApertureBase {
         let outerStart = new Point(outerStartVector.x + center.x, outerStartVector.y + center.y);
         let innerEnd = new Point(innerEndVector.x + center.x, innerEndVector.y + center.y);
         let outerEnd = new Point(outerEndVector.x + center.x, outerEndVector.y + center.y);
-        if (this.templateName == "C" || this.templateName == "O") {
-            if (apertureRadius < Epsilon) {
-                return {polygon:arcToPolygon(start, end, center), is_solid:false};
-            }
-            result = new Float64Array(NUMSTEPS * 8 - 6);
-            result.set(arcToPolygon(innerStart, outerStart, innerStart.midPoint(outerStart), false));
-            result.set(arcToPolygon(outerStart, outerEnd, center, false), NUMSTEPS * 2 - 2);
-            result.set(arcToPolygon(outerEnd, innerEnd, outerEnd.midPoint(innerEnd), false), NUMSTEPS * 4 - 4);
-            let closingArc = arcToPolygon(innerStart, innerEnd, center);
-            reversePolygon(closingArc);
-            result.set(closingArc, NUMSTEPS * 6 - 6);
-            return {polygon:result, is_solid:true};
-        } else if (this.templateName == "R") {
-            if (Math.abs(state.rotation) > Epsilon
-                || state.mirroring != ObjectMirroring.NONE) {
-                throw new GerberParseException(`Unimplemented rotation or mirroring with rectangular apertures`)
-            }
-            let startLine = {x:outerStart.x - innerStart.x, y:outerStart.y - innerStart.y};
-            let endLine = {x:outerEnd.x - innerEnd.x, y:outerEnd.y - innerEnd.y};
-            let pStartLineCCW = scaleVector(unitVector({x:startLine.y, y:-startLine.x}), this.modifiers[1]);
-            let pEncLineCW = scaleVector(unitVector({x:-endLine.y, y:endLine.x}), this.modifiers[1]);
-            result = new Float64Array(10 + NUMSTEPS * 4);
-            result[0] = innerStart.x;
-            result[1] = innerStart.y;
-            result[2] = innerStart.x + pStartLineCCW.x;
-            result[3] = innerStart.y + pStartLineCCW.y;
-            result[4] = outerStart.x + pStartLineCCW.x;
-            result[5] = outerStart.y + pStartLineCCW.y;
-            result.set(arcToPolygon(outerStart, outerEnd, center, false), 6);
-            result[4 + NUMSTEPS * 2] = outerEnd.x;
-            result[5 + NUMSTEPS * 2] = outerEnd.y;
-            result[6 + NUMSTEPS * 2] = outerEnd.x + pEncLineCW.x;
-            result[7 + NUMSTEPS * 2] = outerEnd.y + pEncLineCW.y;
-            result[8 + NUMSTEPS * 2] = innerEnd.x + pEncLineCW.x;
-            result[9 + NUMSTEPS * 2] = innerEnd.y + pEncLineCW.y;
-            let closingArc = arcToPolygon(innerStart, innerEnd, center);
-            reversePolygon(closingArc);
-            result.set(closingArc, 10 + NUMSTEPS * 2);
-            return {polygon:result, is_solid:true};
-        }
-        throw new GerberParseException(`Draw with this aperture is not supported. ${this.templateName}`);
+        if (apertureRadius < Epsilon) {
+            return {polygon:arcToPolygon(start, end, center, true, true, tolerance), is_solid:false};
+        }
+        let closingArc = arcToPolygon(innerStart, innerEnd, center, true, true, tolerance);
+        reversePolygon(closingArc);
+        let result = joinPolygons([
+            arcToPolygon(innerStart, outerStart, innerStart.midPoint(outerStart), false, true, tolerance),
+            arcToPolygon(outerStart, outerEnd, center, false, true, tolerance),
+            arcToPolygon(outerEnd, innerEnd, outerEnd.midPoint(innerEnd), false, true, tolerance),
+            closingArc]);
+        return {polygon:result, is_solid:true};
     }
 
     generateCircleDraw(center:Point, radius:number, state:ObjectState):PolyongSetWithThinkness {
-        if (this.templateName == "C" || this.templateName == "O" || this.templateName == "R") {
-            let result:PolygonSet = [];
-            let apertureRadius = state.scale * this.modifiers[0] / 2;
-            if (apertureRadius < Epsilon) {
-                let polygon = circleToPolygon(radius);
-                translatePolygon(polygon, center)
-                return {polygonSet:[polygon], is_solid:false};
+        this.checkDrawTemplate();
+        let tolerance = state.chordTolerance;
+        if (this.templateName != "C") {
+            let shape = this.drawShape(state);
+            if (shape) {
+                return {polygonSet:sweepCircle(shape, center, radius, tolerance), is_solid:true};
             }
-            let polygon = circleToPolygon(radius + apertureRadius);
+            let polygon = circleToPolygon(radius, arcSteps(radius, tolerance));
             translatePolygon(polygon, center)
-            result.push(polygon);
-            let innerCircle = circleToPolygon(radius - apertureRadius);
-            translatePolygon(innerCircle, center);
-            reversePolygon(innerCircle);
-            result.push(innerCircle);
-            return {polygonSet:result, is_solid:true};
+            return {polygonSet:[polygon], is_solid:false};
         }
-        throw new GerberParseException(`Draw with this aperture is not supported. ${this.templateName}`);
+        let result:PolygonSet = [];
+        let apertureRadius = state.scale * this.modifiers[0] / 2;
+        if (apertureRadius < Epsilon) {
+            let polygon = circleToPolygon(radius, arcSteps(radius, tolerance));
+            translatePolygon(polygon, center)
+            return {polygonSet:[polygon], is_solid:false};
+        }
+        let polygon = circleToPolygon(
+            radius + apertureRadius, arcSteps(radius + apertureRadius, tolerance));
+        translatePolygon(polygon, center)
+        result.push(polygon);
+        let innerCircle = circleToPolygon(
+            radius - apertureRadius, arcSteps(radius - apertureRadius, tolerance));
+        translatePolygon(innerCircle, center);
+        reversePolygon(innerCircle);
+        result.push(innerCircle);
+        return {polygonSet:result, is_solid:true};
     }
 
     generateLineDraw(start:Point, end:Point, state:ObjectState):PolyongWithThinkness {
-        let result:Polygon;
-        if (start.distance(end) < Epsilon) {
-            if (this.templateName == "C" || this.templateName == "O") {
-                let radius = state.scale * this.modifiers[0] / 2;
-                if (radius < Epsilon) {
-                    return {polygon:Float64Array.of(), is_solid:false};
-                }
-                let polygon = circleToPolygon(radius);
-                translatePolygon(polygon, start.midPoint(end));
-                return {polygon: polygon, is_solid:true};
-            } else if (this.templateName == "R") {
-                let polygon = rectangleToPolygon(
-                    state.scale * this.modifiers[0],
-                    state.scale * this.modifiers[1]);
-                mirrorPolygon(polygon, state.mirroring);
-                rotatePolygon(polygon, state.rotation);
-                translatePolygon(polygon, start.midPoint(end));
-                return {polygon:polygon, is_solid:true};
+        this.checkDrawTemplate();
+        let tolerance = state.chordTolerance;
+        if (this.templateName != "C") {
+            let shape = this.drawShape(state);
+            if (!shape) {
+                return {polygon: Float64Array.of(start.x, start.y, end.x, end.y), is_solid:false};
             }
-            throw new GerberParseException(`Draw with this aperture is not supported. ${this.templateName}`);
+            return {polygon:sweepLine(shape, start, end), is_solid:true};
         }
-        let angle = start.angleFrom(end);
-
-        if (this.templateName == "C" || this.templateName == "O") {
+        if (start.distance(end) < Epsilon) {
             let radius = state.scale * this.modifiers[0] / 2;
             if (radius < Epsilon) {
-                return {polygon: Float64Array.of(start.x, start.y, end.x, end.y), is_solid:false};
+                return {polygon:Float64Array.of(), is_solid:false};
             }
-            let vector = {x:end.x - start.x, y:end.y - start.y};
-            let uVector = unitVector(vector);
-
-            let pCW = scaleVector({x:uVector.y, y:-uVector.x}, radius);
-            let pCCW = scaleVector({x:-uVector.y, y:uVector.x}, radius);
-
-            let startLeft = addVector({x:start.x, y:start.y}, pCCW);
-            let endLeft = addVector(startLeft, vector);
-            let startRight = addVector({x:start.x, y:start.y}, pCW);
-            let endRight = addVector(startRight, vector);
-            result = new Float64Array(NUMSTEPS * 4 + 2);
-            result.set(arcToPolygon(
+            let polygon = circleToPolygon(radius, arcSteps(radius, tolerance));
+            translatePolygon(polygon, start.midPoint(end));
+            return {polygon: polygon, is_solid:true};
+        }
+        let radius = state.scale * this.modifiers[0] / 2;
+        if (radius < Epsilon) {
+            return {polygon: Float64Array.of(start.x, start.y, end.x, end.y), is_solid:false};
+        }
+        let vector = {x:end.x - start.x, y:end.y - start.y};
+        let uVector = unitVector(vector);
+
+        let pCW = scaleVector({x:uVector.y, y:-uVector.x}, radius);
+        let pCCW = scaleVector({x:-uVector.y, y:uVector.x}, radius);
+
+        let startLeft = addVector({x:start.x, y:start.y}, pCCW);
+        let endLeft = addVector(startLeft, vector);
+        let startRight = addVector({x:start.x, y:start.y}, pCW);
+        let endRight = addVector(startRight, vector);
+        let result = joinPolygons([
+            arcToPolygon(
                 new Point(startLeft.x, startLeft.y),
                 new Point(startRight.x, startRight.y),
-                start));
-            result.set(arcToPolygon(
+                start,
+                true,
+                true,
+                tolerance),
+            arcToPolygon(
                 new Point(endRight.x, endRight.y),
                 new Point(endLeft.x, endLeft.y),
-                end),
-                NUMSTEPS * 2);
-            result[NUMSTEPS * 4] = startLeft.x;
-            result[NUMSTEPS * 4 + 1] = startLeft.y;
-            return {polygon:result, is_solid:true};
-        } else if (this.templateName == "R") {
-            if (Math.abs(state.rotation) > Epsilon
-                || state.mirroring != ObjectMirroring.NONE) {
-                throw new GerberParseException(`Unimplemented rotation or mirroring with rectangular apertures`)
-            }
-            let width2 = state.scale * this.modifiers[0] / 2;
-            let height2 = state.scale * this.modifiers[1] / 2;
-            if (Math.abs(start.x - end.x) < Epsilon) { // Vertical Line
-                let polygon = rectangleToPolygon(this.modifiers[0], Math.abs(end.y - start.y) + this.modifiers[1]);
-                translatePolygon(polygon, start.midPoint(end));
-                return {polygon:polygon, is_solid:true};
-            } else if (Math.abs(start.y - end.y) < Epsilon) { // Horizontal Line
-                let polygon = rectangleToPolygon(Math.abs(end.x - start.x) + this.modifiers[0], this.modifiers[1]);
-                translatePolygon(polygon, start.midPoint(end));
-                return {polygon:polygon, is_solid:true};
-            } else {
-                let vector = {x:end.x - start.x, y:end.y - start.y};
-                if (angle < Math.PI / 2) {
-                    result = Float64Array.of(
-                        start.x - width2, start.y - height2,
-                        start.x + width2, start.y - height2,
-                        end.x + width2, end.y - height2,
-                        end.x + width2, end.y + height2,
-                        end.x - width2, end.y + height2,
-                        start.x - width2, start.y + height2,
-                        start.x - width2, start.y - height2);
-                } else if (angle < Math.PI) {
-                    result = Float64Array.of(
-                        start.x - width2, start.y - height2,
-                        start.x + width2, start.y - height2,
-                        start.x + width2, start.y + height2,
-                        end.x + width2, end.y + height2,
-                        end.x - width2, end.y + height2,
-                        end.x - width2, end.y - height2,
-                        start.x - width2, start.y - height2);
-                } else if (angle < 3 * Math.PI / 2) {
-                    result = Float64Array.of(
-                        end.x - width2, end.y - height2,
-                        end.x + width2, end.y - height2,
-                        start.x + width2, start.y - height2,
-                        start.x + width2, start.y + height2,
-                        start.x - width2, start.y + height2,
-                        end.x - width2, end.y + height2,
-                        end.x - width2, end.y - height2);
-                } else {
-                    result = Float64Array.of(
-                        end.x - width2, end.y - height2,
-                        end.x + width2, end.y - height2,
-                        end.x + width2, end.y + height2,
-                        start.x + width2, start.y + height2,
-                        start.x - width2, start.y + height2,
-                        start.x - width2, start.y - height2,
-                        start.x - width2, start.y - height2);
-                }
-                return {polygon:result, is_solid:true};
-            }
-        }
-        throw new GerberParseException(`Draw with this aperture is not supported. ${this.templateName}`);
+                end,
+                true,
+                true,
+                tolerance),
+            Float64Array.of(startLeft.x, startLeft.y)]);
+        return {polygon:result, is_solid:true};
     }
 
-    objects(polarity:ObjectPolarity, primitive:ExecutivePrimitive):GraphicsObjects {
-        return [{polySet:this.toPolySet(), polarity:polarity, primitive:primitive}];
+    objects(polarity:ObjectPolarity, primitive:ExecutivePrimitive, tolerance?:number):GraphicsObjects {
+        return [{polySet:this.toPolySet(tolerance), polarity:polarity, primitive:primitive}];
     }
 
-    toPolySet():PolygonSet {
-        if (this.polygonSet_ != undefined) {
+    /**
+     * The aperture shape as a polygon set. The tolerance is the maximum
+     * chord deviation of the circle and arc approximations.
+     */
+    toPolySet(tolerance?:number):PolygonSet {
+        if (this.polygonSet_ != undefined && this.polygonSetTolerance_ === tolerance) {
             return this.polygonSet_;
         }
+        let circle = (radius:number) => circleToPolygon(radius, arcSteps(radius, tolerance));
 
         let result:PolygonSet = [];
 
@@ -483,9 +482,9 @@ export class ApertureDefinition implements ApertureBase {
             if (radius < Epsilon) {
                 throw new GerberParseException('Can not convert zero size aperture to polyset');
             }
-            result.push(circleToPolygon(radius));
+            result.push(circle(radius));
             if (this.modifiers.length == 2 && this.modifiers[1] > Epsilon) {
-                let hole = circleToPolygon(this.modifiers[1] / 2);
+                let hole = circle(this.modifiers[1] / 2);
                 reversePolygon(hole);
                 result.push(hole);
             } else if (this.modifiers.length == 3 && this.modifiers[1] > Epsilon && this.modifiers[2] > Epsilon) {
@@ -496,7 +495,7 @@ export class ApertureDefinition implements ApertureBase {
         } else if (this.templateName === "R") {
             result.push(rectangleToPolygon(this.modifiers[0], this.modifiers[1]));
             if (this.modifiers.length == 3 && this.modifiers[2] > Epsilon) {
-                let hole = circleToPolygon(this.modifiers[2] / 2);
+                let hole = circle(this.modifiers[2] / 2);
                 reversePolygon(hole);
                 result.push(hole);
             } else if (this.modifiers.length == 4 && this.modifiers[2] > Epsilon && this.modifiers[3] > Epsilon) {
@@ -505,9 +504,9 @@ export class ApertureDefinition implements ApertureBase {
                 result.push(hole);
             }
         } else if (this.templateName === "O") {
-            result.push(obroundToPolygon(this.modifiers[0], this.modifiers[1]));
+            result.push(obroundToPolygon(this.modifiers[0], this.modifiers[1], tolerance));
             if (this.modifiers.length == 3 && this.modifiers[2] > Epsilon) {
-                let hole = circleToPolygon(this.modifiers[2] / 2);
+                let hole = circle(this.modifiers[2] / 2);
                 reversePolygon(hole);
                 result.push(hole);
             } else if (this.modifiers.length == 4 && this.modifiers[3] > Epsilon && this.modifiers[4] > Epsilon) {
@@ -522,7 +521,7 @@ export class ApertureDefinition implements ApertureBase {
                 result.push(circleToPolygon(this.modifiers[0] / 2, this.modifiers[1], this.modifiers[2]));
             }
             if (this.modifiers.length == 4 && this.modifiers[3] > Epsilon) {
-                let hole = circleToPolygon(this.modifiers[3] / 2);
+                let hole = circle(this.modifiers[3] / 2);
                 reversePolygon(hole);
                 result.push(hole);
             } else if (this.modifiers.length == 5 && this.modifiers[3] > Epsilon && this.modifiers[4] > Epsilon) {
@@ -531,9 +530,10 @@ export class ApertureDefinition implements ApertureBase {
                 result.push(hole);
             }
         } else {
-            return this.macro.toPolygonSet(this.modifiers);
+            return this.macro.toPolygonSet(this.modifiers, tolerance);
         }
         this.polygonSet_ = result;
+        this.polygonSetTolerance_ = tolerance;
         return result;
     }
 }
@@ -562,7 +562,7 @@ export class ApertureMacro {
         readonly content:Array<VariableDefinition|Primitive|PrimitiveComment>) {
     }
 
-    toPolygonSet(modifiers:Array<number>):PolygonSet {
+    toPolygonSet(modifiers:Array<number>, tolerance?:number):PolygonSet {
         let positives:PolygonSet = [];
         let negatives:PolygonSet = [];
 
@@ -593,7 +593,7 @@ export class ApertureMacro {
                         diameter = ApertureMacro.getValue(modifiers, 1);
                         center = new Point(ApertureMacro.getValue(modifiers, 2), ApertureMacro.getValue(modifiers, 3));
                         if (diameter > Epsilon) {
-                            let polygon = circleToPolygon(diameter / 2);
+                            let polygon = circleToPolygon(diameter / 2, arcSteps(diameter / 2, tolerance));
                             translatePolygon(polygon, center);
                             rotatePolygon(polygon, ApertureMacro.getValue(modifiers, 4));
                             shape = [polygon];
@@ -657,12 +657,12 @@ export class ApertureMacro {
                         if (ringThickness > Epsilon) {
                             for (let ringNo = 0; ringNo < maxRings && outerDiameter > Epsilon; ringNo++) {
                                 let innerDiameter = outerDiameter - ringThickness * 2;
-                                let polygon = circleToPolygon(outerDiameter / 2);
+                                let polygon = circleToPolygon(outerDiameter / 2, arcSteps(outerDiameter / 2, tolerance));
                                 translatePolygon(polygon, center);
                                 rotatePolygon(polygon, rotation)
                                 shape.push(polygon);
                                 if (innerDiameter > Epsilon) {
-                                    let closingCircle = circleToPolygon(innerDiameter / 2);
+                                    let closingCircle = circleToPolygon(innerDiameter / 2, arcSteps(innerDiameter / 2, tolerance));
                                     reversePolygon(closingCircle);
                                     translatePolygon(closingCircle, center);
                                     rotatePolygon(closingCircle, rotation)
@@ -709,124 +709,112 @@ export class ApertureMacro {
                             if (gap > Epsilon) {
                                 if (innerDiameter > Epsilon) {
                                     // Quadrant 1 shape
-                                    polygon = new Float64Array(2 + NUMSTEPS * 4);
                                     let innerStart = new Point(innerRadius + center.x, gap2 + center.y);
                                     let outerStart = new Point(outerRadius + center.x, gap2 + center.y);
                                     let innerEnd = new Point(gap2 + center.x, innerRadius + center.y);
                                     let outerEnd = new Point(gap2 + center.x, outerRadius + center.y);
-                                    polygon[0] = innerStart.x;
-                                    polygon[1] = innerStart.y;
-                                    polygon.set(arcToPolygon(outerStart, outerEnd, center), 2);
-                                    let closingArc = arcToPolygon(innerStart, innerEnd, center);
+                                    let closingArc = arcToPolygon(innerStart, innerEnd, center, true, true, tolerance);
                                     reversePolygon(closingArc);
-                                    polygon.set(closingArc, 2 + NUMSTEPS * 2);
+                                    polygon = joinPolygons([
+                                        Float64Array.of(innerStart.x, innerStart.y),
+                                        arcToPolygon(outerStart, outerEnd, center, true, true, tolerance),
+                                        closingArc]);
                                     rotatePolygon(polygon, rotation);
                                     shape.push(polygon);
 
                                     // Quadrant 2 shape
-                                    polygon = new Float64Array(2 + NUMSTEPS * 4);
                                     innerStart = new Point(-gap2 + center.x, innerRadius + center.y);
                                     outerStart = new Point(-gap2 + center.x, outerRadius + center.y);
                                     innerEnd = new Point(-innerRadius + center.x, gap2 + center.y);
                                     outerEnd = new Point(-outerRadius + center.x, gap2 + center.y);
-                                    polygon[0] = innerStart.x;
-                                    polygon[1] = innerStart.y;
-                                    polygon.set(arcToPolygon(outerStart, outerEnd, center), 2);
-                                    closingArc = arcToPolygon(innerStart, innerEnd, center);
+                                    closingArc = arcToPolygon(innerStart, innerEnd, center, true, true, tolerance);
                                     reversePolygon(closingArc);
-                                    polygon.set(closingArc, 2 + NUMSTEPS * 2);
+                                    polygon = joinPolygons([
+                                        Float64Array.of(innerStart.x, innerStart.y),
+                                        arcToPolygon(outerStart, outerEnd, center, true, true, tolerance),
+                                        closingArc]);
                                     rotatePolygon(polygon, rotation);
                                     shape.push(polygon);
 
                                     // Quadrant 3 shape
-                                    polygon = new Float64Array(2 + NUMSTEPS * 4);
                                     innerStart = new Point(-innerRadius + center.x, -gap2 + center.y);
                                     outerStart = new Point(-outerRadius + center.x, -gap2 + center.y);
                                     innerEnd = new Point(-gap2 + center.x, -innerRadius + center.y);
                                     outerEnd = new Point(-gap2 + center.x, -outerRadius + center.y);
-                                    polygon[0] = innerStart.x;
-                                    polygon[1] = innerStart.y;
-                                    polygon.set(arcToPolygon(outerStart, outerEnd, center), 2);
-                                    closingArc = arcToPolygon(innerStart, innerEnd, center);
+                                    closingArc = arcToPolygon(innerStart, innerEnd, center, true, true, tolerance);
                                     reversePolygon(closingArc);
-                                    polygon.set(closingArc, 2 + NUMSTEPS * 2);
+                                    polygon = joinPolygons([
+                                        Float64Array.of(innerStart.x, innerStart.y),
+                                        arcToPolygon(outerStart, outerEnd, center, true, true, tolerance),
+                                        closingArc]);
                                     rotatePolygon(polygon, rotation);
                                     shape.push(polygon);
 
                                     // Quadrant 4 shape
-                                    polygon = new Float64Array(2 + NUMSTEPS * 4);
                                     innerStart = new Point(gap2 + center.x, -innerRadius + center.y);
                                     outerStart = new Point(gap2 + center.x, -outerRadius + center.y);
                                     innerEnd = new Point(innerRadius + center.x, -gap2 + center.y);
                                     outerEnd = new Point(outerRadius + center.x, -gap2 + center.y);
-                                    polygon[0] = innerStart.x;
-                                    polygon[1] = innerStart.y;
-                                    polygon.set(arcToPolygon(outerStart, outerEnd, center), 2);
-                                    closingArc = arcToPolygon(innerStart, innerEnd, center);
+                                    closingArc = arcToPolygon(innerStart, innerEnd, center, true, true, tolerance);
                                     reversePolygon(closingArc);
-                                    polygon.set(closingArc, 2 + NUMSTEPS * 2);
+                                    polygon = joinPolygons([
+                                        Float64Array.of(innerStart.x, innerStart.y),
+                                        arcToPolygon(outerStart, outerEnd, center, true, true, tolerance),
+                                        closingArc]);
                                     rotatePolygon(polygon, rotation);
                                     shape.push(polygon);
                                 } else {
                                     // Quadrant 1 shape
-                                    polygon = new Float64Array(4 + NUMSTEPS * 2);
                                     let innerPoint = new Point(gap2 + center.x, gap2 + center.y);
                                     let outerStart = new Point(outerRadius + center.x, gap2 + center.y);
                                     let outerEnd = new Point(gap2 + center.x, outerRadius + center.y);
-                                    polygon[0] = innerPoint.x;
-                                    polygon[1] = innerPoint.y;
-                                    polygon.set(arcToPolygon(outerStart, outerEnd, center), 2);
-                                    polygon[2 + NUMSTEPS * 2] = innerPoint.x;
-                                    polygon[3 + NUMSTEPS * 2] = innerPoint.y;
+                                    polygon = joinPolygons([
+                                        Float64Array.of(innerPoint.x, innerPoint.y),
+                                        arcToPolygon(outerStart, outerEnd, center, true, true, tolerance),
+                                        Float64Array.of(innerPoint.x, innerPoint.y)]);
                                     rotatePolygon(polygon, rotation);
                                     shape.push(polygon);
 
                                     // Quadrant 2 shape
-                                    polygon = new Float64Array(4 + NUMSTEPS * 2);
                                     innerPoint = new Point(-gap2 + center.x, gap2 + center.y);
                                     outerStart = new Point(-gap2 + center.x, outerRadius + center.y);
                                     outerEnd = new Point(-outerRadius + center.x, gap2 + center.y);
-                                    polygon[0] = innerPoint.x;
-                                    polygon[1] = innerPoint.y;
-                                    polygon.set(arcToPolygon(outerStart, outerEnd, center), 2);
-                                    polygon[2 + NUMSTEPS * 2] = innerPoint.x;
-                                    polygon[3 + NUMSTEPS * 2] = innerPoint.y;
+                                    polygon = joinPolygons([
+                                        Float64Array.of(innerPoint.x, innerPoint.y),
+                                        arcToPolygon(outerStart, outerEnd, center, true, true, tolerance),
+                                        Float64Array.of(innerPoint.x, innerPoint.y)]);
                                     rotatePolygon(polygon, rotation);
                                     shape.push(polygon);
 
                                     // Quadrant 3 shape
-                                    polygon = new Float64Array(4 + NUMSTEPS * 2);
                                     innerPoint = new Point(-gap2 + center.x, -gap2 + center.y);
                                     outerStart = new Point(-outerRadius + center.x, -gap2 + center.y);
                                     outerEnd = new Point(-gap2 + center.x, -outerRadius + center.y);
-                                    polygon[0] = innerPoint.x;
-                                    polygon[1] = innerPoint.y;
-                                    polygon.set(arcToPolygon(outerStart, outerEnd, center), 2);
-                                    polygon[2 + NUMSTEPS * 2] = innerPoint.x;
-                                    polygon[3 + NUMSTEPS * 2] = innerPoint.y;
+                                    polygon = joinPolygons([
+                                        Float64Array.of(innerPoint.x, innerPoint.y),
+                                        arcToPolygon(outerStart, outerEnd, center, true, true, tolerance),
+                                        Float64Array.of(innerPoint.x, innerPoint.y)]);
                                     rotatePolygon(polygon, rotation);
                                     shape.push(polygon);
 
                                     // Quadrant 4 shape
-                                    polygon = new Float64Array(4 + NUMSTEPS * 2);
                                     innerPoint = new Point(gap2 + center.x, -gap2 + center.y);
                                     outerStart = new Point(gap2 + center.x, -outerRadius + center.y);
                                     outerEnd = new Point(outerRadius + center.x, -gap2 + center.y);
-                                    polygon[0] = innerPoint.x;
-                                    polygon[1] = innerPoint.y;
-                                    polygon.set(arcToPolygon(outerStart, outerEnd, center), 2);
-                                    polygon[2 + NUMSTEPS * 2] = innerPoint.x;
-                                    polygon[3 + NUMSTEPS * 2] = innerPoint.y;
+                                    polygon = joinPolygons([
+                                        Float64Array.of(innerPoint.x, innerPoint.y),
+                                        arcToPolygon(outerStart, outerEnd, center, true, true, tolerance),
+                                        Float64Array.of(innerPoint.x, innerPoint.y)]);
                                     rotatePolygon(polygon, rotation);
                                     shape.push(polygon);
                                 }
                             } else {
-                                let circle = circleToPolygon(outerRadius);
+                                let circle = circleToPolygon(outerRadius, arcSteps(outerRadius, tolerance));
                                 translatePolygon(circle, center);
                                 rotatePolygon(circle, rotation);
                                 shape.push(circle);
                                 if (innerDiameter > Epsilon) {
-                                    let closingCircle = circleToPolygon(innerRadius);
+                                    let closingCircle = circleToPolygon(innerRadius, arcSteps(innerRadius, tolerance));
                                     reversePolygon(closingCircle);
                                     translatePolygon(closingCircle, center);
                                     rotatePolygon(closingCircle, rotation)
@@ -847,7 +835,7 @@ export class ApertureMacro {
                         rotation = ApertureMacro.getValue(modifiers, 6);
                         let direction = unitVector(
                             {x:centerEnd.x - centerStart.x, y:centerEnd.y - centerStart.y});
-                        let dirNormalCCW = scaleVector({x:-direction.y, y:direction.x}, width);
+                        let dirNormalCCW = scaleVector({x:-direction.y, y:direction.x}, width / 2);
                         let startLeft = new Point(
                             centerStart.x + dirNormalCCW.x,
                             centerStart.y + dirNormalCCW.y);
@@ -917,8 +905,18 @@ export class Attribute {
         readonly name:string,
         readonly fields:string[]) {
     }
+
+    get value():string {
+        return this.fields.join(',');
+    }
 }
 
+/**
+ * Attribute dictionaries are never modified in place. Every change creates
+ * a new dictionary, so a reference to one is also a snapshot of it.
+ */
+export type AttributeDictionary = {[name:string]:Attribute};
+
 export class BlockParams {
     constructor(
         readonly xRepeat:number,
@@ -979,6 +977,25 @@ export class GerberState {
     private blockParams_:Array<BlockParams> = [];
     private primitives_:Array<GraphicsPrimitive>;
     private isDone_:boolean = false;
+    private fileAttributes_:AttributeDictionary = {};
+    private apertureAttributes_:AttributeDictionary = {};
+    private objectAttributes_:AttributeDictionary = {};
+    private cachedAttributes_:AttributeDictionary = undefined;
+    private cachedApertureAttributes_:AttributeDictionary = undefined;
+    private cachedObjectAttributes_:AttributeDictionary = undefined;
+    public diagnostics:DiagnosticReport = new DiagnosticReport();
+    // Source line and text of the command being executed, used in diagnostics.
+    public currentLine:number = undefined;
+    public currentCommand:string = undefined;
+    public imageTransform = new ImageTransform();
+    // Names set by the deprecated IN and LN commands.
+    public imageName:string = undefined;
+    public levelName:string = undefined;
+    // Maximum deviation of the arc approximations, undefined uses a fixed
+    // number of steps per arc.
+    public chordTolerance:number = undefined;
+    // Units of the chord tolerance, undefined for the file units.
+    public chordToleranceUnits:CoordinateUnits = undefined;
     
     get coordinateFormatSpec():CoordinateFormatSpec {
         if (this.coordinateFormat_ == undefined) {
@@ -989,7 +1006,10 @@ export class GerberState {
 
     set coordinateFormatSpec(value:CoordinateFormatSpec) {
         if (this.coordinateFormat_ != undefined) {
-            this.warning("File coordinate format already set.");
+            this.warning(
+                "File coordinate format already set.",
+                DiagnosticCode.FORMAT_REDEFINED,
+                "Remove the duplicate FS command");
         }
         this.coordinateFormat_ = value;        
     }
@@ -1005,6 +1025,13 @@ export class GerberState {
         this.coordinateUnits_ = value;        
     }
 
+    /**
+     * Coordinate units, undefined if the file did not set them.
+     */
+    get fileUnits():CoordinateUnits {
+        return this.coordinateUnits_;
+    }
+
     get currentPointX():number {
         if (this.currentPoint_.x == undefined) {
             this.error("Current point X is not set.");
@@ -1077,7 +1104,10 @@ export class GerberState {
 
     get primitives():Array<GraphicsPrimitive> {
         if (!this.isDone_) {
-            this.warning("Parsing is not complete");
+            this.warning(
+                "Parsing is not complete",
+                DiagnosticCode.INCOMPLETE_FILE,
+                "End the file with M02");
         }
         return this.primitives_;
     }
@@ -1087,7 +1117,101 @@ export class GerberState {
             this.objectPolarity,
             this.objectMirroring,
             this.objectScaling,
-            this.objectRotation);
+            this.objectRotation,
+            this.fileChordTolerance);
+    }
+
+    /**
+     * The chord tolerance converted to the file units.
+     */
+    get fileChordTolerance():number {
+        if (this.chordTolerance > 0
+            && this.chordToleranceUnits != undefined
+            && this.coordinateUnits_ != undefined) {
+            return this.chordTolerance * unitsFactor(this.chordToleranceUnits, this.coordinateUnits_);
+        }
+        return this.chordTolerance;
+    }
+
+    get fileAttributes():AttributeDictionary {
+        return this.fileAttributes_;
+    }
+
+    get apertureAttributes():AttributeDictionary {
+        return this.apertureAttributes_;
+    }
+
+    get objectAttributes():AttributeDictionary {
+        return this.objectAttributes_;
+    }
+
+    setAttribute(attribute:Attribute) {
+        let update = (dict:AttributeDictionary) => {
+            let result = Object.assign({}, dict);
+            result[attribute.name] = attribute;
+            return result;
+        }
+        switch (attribute.type) {
+            case AttributeType.FILE:
+                this.fileAttributes_ = update(this.fileAttributes_);
+                break;
+            case AttributeType.APERTURE:
+                this.apertureAttributes_ = update(this.apertureAttributes_);
+                break;
+            case AttributeType.OBJECT:
+                this.objectAttributes_ = update(this.objectAttributes_);
+                break;
+        }
+    }
+
+    /**
+     * TD with an attribute name removes it from the aperture and object
+     * dictionaries, TD without a name clears both. File attributes are
+     * never deleted.
+     */
+    deleteAttribute(name:string) {
+        if (name.length == 0) {
+            this.apertureAttributes_ = {};
+            this.objectAttributes_ = {};
+            return;
+        }
+        let remove = (dict:AttributeDictionary) => {
+            if (dict[name] == undefined) {
+                return dict;
+            }
+            let result = Object.assign({}, dict);
+            delete result[name];
+            return result;
+        }
+        this.apertureAttributes_ = remove(this.apertureAttributes_);
+        this.objectAttributes_ = remove(this.objectAttributes_);
+    }
+
+    /**
+     * Attributes of an object drawn or flashed with the current aperture:
+     * the aperture attributes captured when it was defined and the current
+     * object attributes.
+     */
+    getObjectAttributes():AttributeDictionary {
+        return this.mergeAttributes(this.getCurrentAperture().attributes);
+    }
+
+    /**
+     * Regions have no aperture, they take the current aperture attributes
+     * dictionary instead.
+     */
+    getRegionAttributes():AttributeDictionary {
+        return this.mergeAttributes(this.apertureAttributes_);
+    }
+
+    private mergeAttributes(apertureAttributes:AttributeDictionary):AttributeDictionary {
+        if (this.cachedApertureAttributes_ !== apertureAttributes
+            || this.cachedObjectAttributes_ !== this.objectAttributes_) {
+            this.cachedAttributes_ = Object.assign({}, apertureAttributes, this.objectAttributes_);
+            this.cachedApertureAttributes_ = apertureAttributes;
+            this.cachedObjectAttributes_ = this.objectAttributes_;
+        }
+        return this.cachedAttributes_;
     }
 
     getAperture(id:number):ApertureBase {
@@ -1110,7 +1234,8 @@ export class GerberState {
 
     setAperture(ap:ApertureBase) {
         if (this.apertures[ap.apertureId] != undefined) {
-            this.warning(`Overriding aperture ${ap.apertureId}`);
+            this.warning(
+                `Overriding aperture ${ap.apertureId}`, DiagnosticCode.APERTURE_REDEFINED);
         }
         this.apertures[ap.apertureId] = ap;
     }
@@ -1124,17 +1249,24 @@ export class GerberState {
 
     setApertureMacro(apm:ApertureMacro) {
         if (this.apertureMacros[apm.macroName] != undefined) {
-            this.warning(`Overriding aperture macro ${apm.macroName}`);
+            this.warning(
+                `Overriding aperture macro ${apm.macroName}`, DiagnosticCode.MACRO_REDEFINED);
         }
         this.apertureMacros[apm.macroName] = apm;
     }
 
     error(message:string) {
-        throw new GerberParseException(message);
+        throw new GerberParseException(message, this.currentLine);
     }
 
-    warning(message:string) {
-        console.log(`Warning: ${message}`);
+    warning(message:string, code:DiagnosticCode = DiagnosticCode.WARNING, suggestion?:string) {
+        this.diagnostics.warning(
+            code,
+            message,
+            this.currentLine,
+            undefined,
+            (this.currentCommand != undefined) ? this.currentCommand.substr(0, 100) : undefined,
+            suggestion);
     }
 
     line(from:Point, to:Point, cmd:GerberCommand) {
@@ -1212,7 +1344,8 @@ export class GerberState {
         }
         let blockId = this.blockApertures_.pop();
         let blockConsumer = this.graphisOperationsConsumer_ as BlockGraphicsOperationsConsumer;
-        let aperture = new BlockAperture(blockId, blockConsumer.objects);
+        let aperture = new BlockAperture(
+            blockId, blockConsumer.objects, this.apertureAttributes_, blockConsumer.primitives);
         this.setAperture(aperture);
         this.restoreGraphicsConsumer();
     }
@@ -1252,8 +1385,40 @@ export class GerberState {
         }
         let topConsumer = this.graphisOperationsConsumer_ as BaseGraphicsOperationsConsumer;
         this.primitives_ = topConsumer.primitives;
+        if (!this.imageTransform.isIdentity) {
+            // The image is wrapped in a single block. Its objects are
+            // transformed, the primitives keep the file coordinates.
+            let objects:GraphicsObjects = [];
+            this.primitives_.forEach(p => objects.push(...p.objects));
+            let block = new Block(
+                1, 1, 0, 0, this.primitives_, this.imageTransform.apply(objects));
+            this.primitives_ = [new Repeat(block, 0, 0, cmd)];
+        }
         this.isDone_ = true;
     }
+
+    /**
+     * Ends a file that was cut short. Open regions, block apertures and
+     * step and repeat blocks are closed first. Returns the number of closed
+     * scopes.
+     */
+    closeFile(cmd:GerberCommand):number {
+        let closed = 0;
+        while (this.savedGraphisOperationsConsumer_.length > 0) {
+            if (this.graphisOperationsConsumer_ instanceof RegionGraphicsOperationsConsumer) {
+                this.endRegion(cmd);
+            } else if (this.blockApertures_.length > 0) {
+                this.endBlockAperture();
+            } else if (this.blockParams_.length > 0) {
+                this.endRepeat(cmd);
+            } else {
+                this.restoreGraphicsConsumer();
+            }
+            closed++;
+        }
+        this.endFile(cmd);
+        return closed;
+    }
 }
 
 export interface SimpleBounds {
@@ -1370,6 +1535,13 @@ export class LineSegment implements ExecutivePrimitive {
             this.to.add(vector),
             this.cmd);
     }
+
+    public scale(factor:number):LineSegment {
+        return new LineSegment(
+            this.from.scale(factor),
+            this.to.scale(factor),
+            this.cmd);
+    }
 }
 
 export class CircleSegment implements ExecutivePrimitive {
@@ -1395,6 +1567,13 @@ export class CircleSegment implements ExecutivePrimitive {
             this.radius,
             this.cmd);
     }
+
+    public scale(factor:number):CircleSegment {
+        return new CircleSegment(
+            this.center.scale(factor),
+            this.radius * factor,
+            this.cmd);
+    }
 }
 
 export class ArcSegment implements ExecutivePrimitive {
@@ -1426,6 +1605,16 @@ export class ArcSegment implements ExecutivePrimitive {
             this.isCCW,
             this.cmd);
     }
+
+    public scale(factor:number):ArcSegment {
+        return new ArcSegment(
+            this.center.scale(factor),
+            this.radius * factor,
+            this.start.scale(factor),
+            this.end.scale(factor),
+            this.isCCW,
+            this.cmd);
+    }
 }
 
 export type RegionSegment = LineSegment | CircleSegment | ArcSegment;
@@ -1435,7 +1624,11 @@ function translateRegionContour(contour:RegionContour, vector:Point):RegionConto
     return contour.map(segment => segment.translate(vector));
 }
 
-function contourOrientation(countour:RegionContour):number {
+function scaleRegionContour(contour:RegionContour, factor:number):RegionContour {
+    return contour.map(segment => segment.scale(factor));
+}
+
+export function contourOrientation(countour:RegionContour):number {
     let sum = 0;
     countour.forEach(s => {
         let start:Point;
@@ -1500,12 +1693,162 @@ class RegionGraphicsOperationsConsumer implements GraphicsOperations {
     }
 }
 
+/**
+ * The image transformation set by the deprecated IP, AS, MI, SF, IR and OF
+ * commands. The transformation is applied to the objects of the whole image.
+ * Points are mapped to the A and B output axes, then mirrored, scaled,
+ * rotated and finally offset. A negative image is dark over the image bounds
+ * with the objects cleared from it.
+ */
+export class ImageTransform {
+    public polarity = ImagePolarity.POSITIVE;
+    public axisSelect = AxisSelect.AXBY;
+    public mirrorA = false;
+    public mirrorB = false;
+    public scaleA = 1;
+    public scaleB = 1;
+    // Counter clockwise rotation in degrees, a multiple of 90.
+    public rotation = 0;
+    public offsetA = 0;
+    public offsetB = 0;
+
+    get isIdentity():boolean {
+        return this.polarity == ImagePolarity.POSITIVE
+            && this.axisSelect == AxisSelect.AXBY
+            && !this.mirrorA
+            && !this.mirrorB
+            && this.scaleA == 1
+            && this.scaleB == 1
+            && this.rotation % 360 == 0
+            && this.offsetA == 0
+            && this.offsetB == 0;
+    }
+
+    /**
+     * True if both axes are scaled by the same factor, mirroring aside.
+     */
+    get isUniform():boolean {
+        return Math.abs(Math.abs(this.scaleA) - Math.abs(this.scaleB)) < 1E-9;
+    }
+
+    /**
+     * The same transform for coordinates multiplied by factor.
+     */
+    scaleBy(factor:number):ImageTransform {
+        let result = new ImageTransform();
+        result.polarity = this.polarity;
+        result.axisSelect = this.axisSelect;
+        result.mirrorA = this.mirrorA;
+        result.mirrorB = this.mirrorB;
+        result.scaleA = this.scaleA;
+        result.scaleB = this.scaleB;
+        result.rotation = this.rotation;
+        result.offsetA = this.offsetA * factor;
+        result.offsetB = this.offsetB * factor;
+        return result;
+    }
+
+    transformPoint(point:Point):Point {
+        let result = new Float64Array([point.x, point.y]);
+        this.transformPolygon(result);
+        return new Point(result[0], result[1]);
+    }
+
+    apply(objects:GraphicsObjects):GraphicsObjects {
+        let result = objects.map(o => {
+            let polySet = o.polySet.map(polygon => {
+                let transformed = Float64Array.from(polygon);
+                this.transformPolygon(transformed);
+                if (this.isReflection) {
+                    reversePolygon(transformed);
+                }
+                return transformed;
+            });
+            let polarity = o.polarity;
+            if (this.polarity == ImagePolarity.NEGATIVE) {
+                if (polarity == ObjectPolarity.DARK) {
+                    polarity = ObjectPolarity.LIGHT;
+                } else if (polarity == ObjectPolarity.LIGHT) {
+                    polarity = ObjectPolarity.DARK;
+                }
+            }
+            return {polySet:polySet, polarity:polarity, primitive:o.primitive};
+        });
+        if (this.polarity == ImagePolarity.NEGATIVE && result.length > 0) {
+            let bounds = objectsBounds(result);
+            let background = Float64Array.of(
+                bounds.min.x, bounds.min.y,
+                bounds.max.x, bounds.min.y,
+                bounds.max.x, bounds.max.y,
+                bounds.min.x, bounds.max.y);
+            result.unshift({
+                polySet:[background],
+                polarity:ObjectPolarity.DARK,
+                primitive:result[0].primitive});
+        }
+        return result;
+    }
+
+    private get isReflection():boolean {
+        let reflections = 0;
+        if (this.axisSelect == AxisSelect.AYBX) {
+            reflections++;
+        }
+        if (this.mirrorA != (this.scaleA < 0)) {
+            reflections++;
+        }
+        if (this.mirrorB != (this.scaleB < 0)) {
+            reflections++;
+        }
+        return reflections % 2 == 1;
+    }
+
+    private transformPolygon(polygon:Polygon) {
+        let angle = this.rotation * Math.PI / 180;
+        let cos = Math.round(Math.cos(angle) * 1E12) / 1E12;
+        let sin = Math.round(Math.sin(angle) * 1E12) / 1E12;
+        let scaleA = (this.mirrorA) ? -this.scaleA : this.scaleA;
+        let scaleB = (this.mirrorB) ? -this.scaleB : this.scaleB;
+        let swap = this.axisSelect == AxisSelect.AYBX;
+        for (let idx = 0; idx < polygon.length; idx += 2) {
+            let a = (swap) ? polygon[idx + 1] : polygon[idx];
+            let b = (swap) ? polygon[idx] : polygon[idx + 1];
+            a *= scaleA;
+            b *= scaleB;
+            polygon[idx] = a * cos - b * sin + this.offsetA;
+            polygon[idx + 1] = a * sin + b * cos + this.offsetB;
+        }
+    }
+}
+
 export class ObjectState {
     constructor(
         readonly polarity:ObjectPolarity = ObjectPolarity.DARK,
         readonly mirroring:ObjectMirroring = ObjectMirroring.NONE,
         readonly scale:number = 1,
-        readonly rotation:number = 0) {
+        readonly rotation:number = 0,
+        readonly chordTolerance:number = undefined) {
+    }
+
+    /**
+     * The chord tolerance for shapes that are scaled after they are built,
+     * like flashed apertures.
+     */
+    get unscaledTolerance():number {
+        return (this.chordTolerance > 0) ? this.chordTolerance / this.scale : this.chordTolerance;
+    }
+
+    /**
+     * The state of a primitive with all coordinates multiplied by factor.
+     * Aperture sizes follow through the object scale.
+     */
+    scaleBy(factor:number):ObjectState {
+        return new ObjectState(
+            this.polarity,
+            this.mirroring,
+            this.scale * factor,
+            this.rotation,
+            (this.chordTolerance > 0) ? this.chordTolerance * factor : this.chordTolerance);
     }
 }
 
@@ -1517,7 +1860,8 @@ export class Line implements ExecutivePrimitive {
         readonly to:Point,
         readonly aperture:ApertureBase,
         readonly state:ObjectState,
-        readonly cmd:GerberCommand) {
+        readonly cmd:GerberCommand,
+        readonly attributes:AttributeDictionary = {}) {
     }
 
     toString():string {
@@ -1556,7 +1900,18 @@ export class Line implements ExecutivePrimitive {
             this.to.add(vector),
             this.aperture,
             this.state,
-            this.cmd);
+            this.cmd,
+            this.attributes);
+    }
+
+    public scale(factor:number):Line {
+        return new Line(
+            this.from.scale(factor),
+            this.to.scale(factor),
+            this.aperture,
+            this.state.scaleBy(factor),
+            this.cmd,
+            this.attributes);
     }
 }
 
@@ -1568,7 +1923,8 @@ export class Circle implements ExecutivePrimitive {
         readonly radius:number,
         readonly aperture:ApertureBase,
         readonly state:ObjectState,
-        readonly cmd:GerberCommand) {
+        readonly cmd:GerberCommand,
+        readonly attributes:AttributeDictionary = {}) {
     }
 
     toString():string {
@@ -1607,7 +1963,18 @@ export class Circle implements ExecutivePrimitive {
             this.radius,
             this.aperture,
             this.state,
-            this.cmd);
+            this.cmd,
+            this.attributes);
+    }
+
+    public scale(factor:number):Circle {
+        return new Circle(
+            this.center.scale(factor),
+            this.radius * factor,
+            this.aperture,
+            this.state.scaleBy(factor),
+            this.cmd,
+            this.attributes);
     }
 }
 
@@ -1622,7 +1989,8 @@ export class Arc implements ExecutivePrimitive {
         readonly isCCW:boolean,
         readonly aperture:ApertureBase,
         readonly state:ObjectState,
-        readonly cmd:GerberCommand) {
+        readonly cmd:GerberCommand,
+        readonly attributes:AttributeDictionary = {}) {
     }
 
     toString():string {
@@ -1665,7 +2033,21 @@ export class Arc implements ExecutivePrimitive {
             this.isCCW,
             this.aperture,
             this.state,
-            this.cmd);
+            this.cmd,
+            this.attributes);
+    }
+
+    public scale(factor:number):Arc {
+        return new Arc(
+            this.center.scale(factor),
+            this.radius * factor,
+            this.start.scale(factor),
+            this.end.scale(factor),
+            this.isCCW,
+            this.aperture,
+            this.state.scaleBy(factor),
+            this.cmd,
+            this.attributes);
     }
 }
 
@@ -1676,7 +2058,8 @@ export class Flash implements ExecutivePrimitive {
         readonly center:Point,
         readonly aperture:ApertureBase,
         readonly state:ObjectState,
-        readonly cmd:GerberCommand) {
+        readonly cmd:GerberCommand,
+        readonly attributes:AttributeDictionary = {}) {
     }
 
     toString():string {
@@ -1685,7 +2068,7 @@ export class Flash implements ExecutivePrimitive {
 
     get objects():GraphicsObjects {
         if (!this.objects_) {
-            this.objects_ = copyObjects(this.aperture.objects(this.state.polarity, this));
+            this.objects_ = copyObjects(this.aperture.objects(this.state.polarity, this, this.state.unscaledTolerance));
             this.objects_.forEach(o => {
                 mirrorPolySet(o.polySet, this.state.mirroring);
                 rotatePolySet(o.polySet, this.state.rotation);
@@ -1709,7 +2092,17 @@ export class Flash implements ExecutivePrimitive {
             this.center.add(vector),
             this.aperture,
             this.state,
-            this.cmd);
+            this.cmd,
+            this.attributes);
+    }
+
+    public scale(factor:number):Flash {
+        return new Flash(
+            this.center.scale(factor),
+            this.aperture,
+            this.state.scaleBy(factor),
+            this.cmd,
+            this.attributes);
     }
 }
 
@@ -1720,7 +2113,8 @@ export class Region implements ExecutivePrimitive {
     constructor(
         contours:Array<RegionContour>,
         readonly state:ObjectState,
-        readonly cmd:GerberCommand) {
+        readonly cmd:GerberCommand,
+        readonly attributes:AttributeDictionary = {}) {
         //this.contours = contours.map(c => Region.reOrderCountour(c));
         this.contours = contours;
     }
@@ -1803,78 +2197,56 @@ export class Region implements ExecutivePrimitive {
         return result;
     }
 
-    private static buildPolygonSet(contours:Array<RegionContour>):PolygonSet {
-        return contours.map(c => Region.buildPolygon(c));
+    private static buildPolygonSet(contours:Array<RegionContour>, tolerance?:number):PolygonSet {
+        return contours.map(c => Region.buildPolygon(c, tolerance));
     }
 
-    private static buildPolygon(contour:RegionContour):Polygon {
-        let numPoints = 0;
+    private static buildPolygon(contour:RegionContour, tolerance?:number):Polygon {
+        let parts:Array<Polygon> = [];
         let lastPt:Point = undefined;
         let firstPt:Point = undefined;
         contour.forEach(
             segment => {
                 if (segment instanceof LineSegment) {
                     let line = segment as LineSegment;
-                    numPoints += 2;
+                    parts.push(Float64Array.of(line.from.x, line.from.y, line.to.x, line.to.y));
                     lastPt = line.to;
                     if (!firstPt) {
                         firstPt = line.from;
                     }
-                } else if (segment instanceof ArcSegment) {
-                    let arc = segment as ArcSegment;
-                    numPoints += NUMSTEPS;
-                    lastPt = arc.end;
-                    if (!firstPt) {
-                        firstPt = arc.start;
-                    }
-                } else if (segment instanceof CircleSegment) {
-                    numPoints += NUMSTEPS * 2;
-                }
-            }
-        );
-        let needsClose = firstPt && lastPt
-            && distance2(firstPt.x, firstPt.y, lastPt.x, lastPt.y) > Epsilon;
-        let result:Polygon = new Float64Array(numPoints * 2 + ((needsClose) ? 2 : 0));
-        let arrayOffset = 0;
-        contour.forEach(
-            segment => {
-                if (segment instanceof LineSegment) {
-                    let line = segment as LineSegment;
-                    result[arrayOffset++] = line.from.x;
-                    result[arrayOffset++] = line.from.y;
-                    result[arrayOffset++] = line.to.x;
-                    result[arrayOffset++] = line.to.y;
                 } else if (segment instanceof ArcSegment) {
                     let arc = segment as ArcSegment;
                     let polygon = arcToPolygon(
                         arc.isCCW ? arc.start : arc.end,
                         arc.isCCW ? arc.end : arc.start,
-                        arc.center);
+                        arc.center,
+                        true,
+                        true,
+                        tolerance);
                     if (!arc.isCCW) {
                         reversePolygon(polygon);
                     }
-                    result.set(polygon, arrayOffset);
-                    arrayOffset += NUMSTEPS * 2;
+                    parts.push(polygon);
+                    lastPt = arc.end;
+                    if (!firstPt) {
+                        firstPt = arc.start;
+                    }
                 } else if (segment instanceof CircleSegment) {
                     let circle = segment as CircleSegment;
-                    let polygon = circleToPolygon(circle.radius);
+                    let polygon = circleToPolygon(circle.radius, arcSteps(circle.radius, tolerance));
                     translatePolygon(polygon, circle.center);
-                    result.set(polygon, arrayOffset);
-                    arrayOffset += NUMSTEPS * 2;
+                    parts.push(polygon);
                 } else {
                     throw new GerberParseException(`Unsupported segment type ${segment}`);
                 }
             }
         );
-        // Close the polygon if we have to
+        let needsClose = firstPt && lastPt
+            && distance2(firstPt.x, firstPt.y, lastPt.x, lastPt.y) > Epsilon;
         if (needsClose) {
-            result[arrayOffset++] = result[0];
-            result[arrayOffset++] = result[1];
-        }
-        // If the contour is clockwise, reverse the polygon.
-        if (contourOrientation(contour) > 0) {
-            reversePolygon(result);
+            parts.push(Float64Array.of(firstPt.x, firstPt.y));
         }
+        let result = joinPolygons(parts);
         return result;
     }
 
@@ -1882,7 +2254,7 @@ export class Region implements ExecutivePrimitive {
         if (!this.objects_) {
             this.objects_ = [
                 {
-                    polySet:Region.buildPolygonSet(this.contours),
+                    polySet:Region.buildPolygonSet(this.contours, this.state.chordTolerance),
                     polarity:this.state.polarity,
                     primitive:this
                 }
@@ -1903,7 +2275,16 @@ export class Region implements ExecutivePrimitive {
         return new Region(
             this.contours.map(contour => translateRegionContour(contour, vector)),
             this.state,
-            this.cmd);
+            this.cmd,
+            this.attributes);
+    }
+
+    public scale(factor:number):Region {
+        return new Region(
+            this.contours.map(contour => scaleRegionContour(contour, factor)),
+            this.state.scaleBy(factor),
+            this.cmd,
+            this.attributes);
     }
 }
 
@@ -1978,6 +2359,23 @@ export class Repeat implements ExecutivePrimitive {
             this.yOffset + vector.y,
             this.cmd);
     }
+
+    public scale(factor:number):Repeat {
+        let blockObjects = copyObjects(this.block.objects);
+        blockObjects.forEach(o => scalePolySet(o.polySet, factor));
+        let block = new Block(
+            this.block.xRepeat,
+            this.block.yRepeat,
+            this.block.xDelta * factor,
+            this.block.yDelta * factor,
+            scalePrimitives(this.block.primitives, factor),
+            blockObjects);
+        return new Repeat(
+            block,
+            this.xOffset * factor,
+            this.yOffset * factor,
+            this.cmd);
+    }
 }
 
 function translatePrimitives(
@@ -1986,6 +2384,25 @@ function translatePrimitives(
     return primitives.map(primitive => primitive.translate(vector));
 }
 
+export function scalePrimitives(
+    primitives:Array<GraphicsPrimitive>,
+    factor:number):Array<GraphicsPrimitive> {
+    if (Math.abs(factor - 1) < Epsilon) {
+        return primitives;
+    }
+    return primitives.map(primitive => primitive.scale(factor));
+}
+
+/**
+ * Factor to convert lengths from one unit to another.
+ */
+export function unitsFactor(from:CoordinateUnits, to:CoordinateUnits):number {
+    if (from == to) {
+        return 1;
+    }
+    return (to == CoordinateUnits.MILIMETERS) ? 25.4 : 1 / 25.4;
+}
+
 export type GraphicsPrimitive = Line | Circle | Arc | Flash | Region | Repeat;
 
 export function EmptyBounds():Bounds {
@@ -2006,23 +2423,30 @@ export class BaseGraphicsOperationsConsumer implements GraphicsOperations {
                 to,
                 ctx.getCurrentAperture(),
                 ctx.getObjectState(),
-                cmd));
+                cmd,
+                ctx.getObjectAttributes()));
     }
 
     circle(center:Point, radius:number, cmd:GerberCommand, ctx:GerberState) {
-        this.primitives_.push(new Circle(center, radius, ctx.getCurrentAperture(), ctx.getObjectState(), cmd));
+        this.primitives_.push(new Circle(
+            center, radius, ctx.getCurrentAperture(), ctx.getObjectState(), cmd,
+            ctx.getObjectAttributes()));
     }
 
     arc(center:Point, radius:number, start:Point, end:Point, isCCW:boolean, cmd:GerberCommand, ctx:GerberState) {
-        this.primitives_.push(new Arc(center, radius, start, end, isCCW, ctx.getCurrentAperture(), ctx.getObjectState(), cmd));
+        this.primitives_.push(new Arc(
+            center, radius, start, end, isCCW, ctx.getCurrentAperture(), ctx.getObjectState(), cmd,
+            ctx.getObjectAttributes()));
     }
 
     flash(center:Point, cmd:GerberCommand, ctx:GerberState) {
-        this.primitives_.push(new Flash(center, ctx.getCurrentAperture(), ctx.getObjectState(), cmd));
+        this.primitives_.push(new Flash(
+            center, ctx.getCurrentAperture(), ctx.getObjectState(), cmd,
+            ctx.getObjectAttributes()));
     }
 
     region(contours:Array<RegionContour>, cmd:GerberCommand, ctx:GerberState) {
-        this.primitives_.push(new Region(contours, ctx.getObjectState(), cmd));
+        this.primitives_.push(new Region(contours, ctx.getObjectState(), cmd, ctx.getRegionAttributes()));
     }
 
     block(block:Block, cmd:GerberCommand, ctx:GerberState) {
@@ -2048,31 +2472,38 @@ export class BlockGraphicsOperationsConsumer implements GraphicsOperations {
             to,
             ctx.getCurrentAperture(),
             ctx.getObjectState(),
-            cmd);
+            cmd,
+            ctx.getObjectAttributes());
         this.primitives_.push(l);
         this.objects_.push(...l.objects);
     }
 
     circle(center:Point, radius:number, cmd:GerberCommand, ctx:GerberState) {
-        let c = new Circle(center, radius, ctx.getCurrentAperture(), ctx.getObjectState(), cmd);
+        let c = new Circle(
+            center, radius, ctx.getCurrentAperture(), ctx.getObjectState(), cmd,
+            ctx.getObjectAttributes());
         this.primitives_.push(c);
         this.objects_.push(...c.objects);
     }
 
     arc(center:Point, radius:number, start:Point, end:Point, isCCW:boolean, cmd:GerberCommand, ctx:GerberState) {
-        let a = new Arc(center, radius, start, end, isCCW, ctx.getCurrentAperture(), ctx.getObjectState(), cmd);
+        let a = new Arc(
+            center, radius, start, end, isCCW, ctx.getCurrentAperture(), ctx.getObjectState(), cmd,
+            ctx.getObjectAttributes());
         this.primitives_.push(a);
         this.objects_.push(...a.objects);
     }
 
     flash(center:Point, cmd:GerberCommand, ctx:GerberState) {
-        let f = new Flash(center, ctx.getCurrentAperture(), ctx.getObjectState(), cmd);
+        let f = new Flash(
+            center, ctx.getCurrentAperture(), ctx.getObjectState(), cmd,
+            ctx.getObjectAttributes());
         this.primitives_.push(f);
         this.objects_.push(...f.objects);
     }
 
     region(contours:Array<RegionContour>, cmd:GerberCommand, ctx:GerberState) {
-        let r = new Region(contours, ctx.getObjectState(), cmd);
+        let r = new Region(contours, ctx.getObjectState(), cmd, ctx.getRegionAttributes());
         this.primitives_.push(r);
         this.objects_.push(...r.objects);
     }
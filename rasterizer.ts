@@ -0,0 +1,228 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains a scanline rasterizer for polygon sets. Polygons are
+ * filled with the non-zero winding rule, anti-aliased with vertical super
+ * sampling and exact horizontal span coverage, and composited in layers.
+ */
+
+import {PolygonSet} from "./polygonSet";
+import {CoordinateUnits, SimpleBounds} from "./primitives";
+import {encodePng} from "./png";
+
+export class RasterLayer {
+    constructor(
+        readonly polygonSet:PolygonSet,
+        readonly color:number,
+        readonly alpha:number = 1) {
+    }
+}
+
+class Edge {
+    constructor(
+        readonly ymin:number,
+        readonly ymax:number,
+        readonly x0:number,
+        readonly dxdy:number,
+        readonly y0:number,
+        readonly winding:number) {
+    }
+
+    xAt(y:number):number {
+        return this.x0 + (y - this.y0) * this.dxdy;
+    }
+}
+
+export class RasterImage {
+    readonly pixels:Uint8ClampedArray;
+
+    constructor(readonly width:number, readonly height:number, background:number = 0, backgroundAlpha:number = 0) {
+        this.pixels = new Uint8ClampedArray(width * height * 4);
+        let r = (background >>> 16) & 0xff;
+        let g = (background >>> 8) & 0xff;
+        let b = background & 0xff;
+        let a = Math.round(backgroundAlpha * 255);
+        for (let idx = 0; idx < this.pixels.length; idx += 4) {
+            this.pixels[idx] = r;
+            this.pixels[idx + 1] = g;
+            this.pixels[idx + 2] = b;
+            this.pixels[idx + 3] = a;
+        }
+    }
+
+    /**
+     * Composites a color over the image, the coverage array holds the
+     * fraction of each pixel covered by the shape.
+     */
+    composite(coverage:Float32Array, color:number, alpha:number = 1) {
+        let r = (color >>> 16) & 0xff;
+        let g = (color >>> 8) & 0xff;
+        let b = color & 0xff;
+        let pixels = this.pixels;
+        for (let idx = 0; idx < coverage.length; idx++) {
+            let srcA = coverage[idx] * alpha;
+            if (srcA <= 0) {
+                continue;
+            }
+            let offset = idx * 4;
+            let dstA = pixels[offset + 3] / 255;
+            let outA = srcA + dstA * (1 - srcA);
+            let dstWeight = dstA * (1 - srcA);
+            pixels[offset] = (r * srcA + pixels[offset] * dstWeight) / outA;
+            pixels[offset + 1] = (g * srcA + pixels[offset + 1] * dstWeight) / outA;
+            pixels[offset + 2] = (b * srcA + pixels[offset + 2] * dstWeight) / outA;
+            pixels[offset + 3] = outA * 255;
+        }
+    }
+
+    toPng():Uint8Array {
+        return encodePng(this.width, this.height, this.pixels);
+    }
+}
+
+export class Rasterizer {
+    readonly width:number;
+    readonly height:number;
+    private readonly pixelsPerUnit_:number;
+
+    /**
+     * The raster covers the bounds at the given resolution in dots per inch.
+     * The number of samples is the count of sub-scanlines per pixel row, 1
+     * disables anti-aliasing.
+     */
+    constructor(
+        readonly bounds:SimpleBounds,
+        readonly dpi:number,
+        readonly units:CoordinateUnits = CoordinateUnits.MILIMETERS,
+        readonly samples:number = 4) {
+        this.pixelsPerUnit_ = (units == CoordinateUnits.INCHES) ? dpi : dpi / 25.4;
+        this.width = Math.max(1, Math.ceil((bounds.maxx - bounds.minx) * this.pixelsPerUnit_));
+        this.height = Math.max(1, Math.ceil((bounds.maxy - bounds.miny) * this.pixelsPerUnit_));
+    }
+
+    createImage(background:number = 0, backgroundAlpha:number = 0):RasterImage {
+        return new RasterImage(this.width, this.height, background, backgroundAlpha);
+    }
+
+    render(layers:Array<RasterLayer>, background:number = 0, backgroundAlpha:number = 0):RasterImage {
+        let image = this.createImage(background, backgroundAlpha);
+        layers.forEach(layer => image.composite(this.coverage(layer.polygonSet), layer.color, layer.alpha));
+        return image;
+    }
+
+    /**
+     * Computes the per pixel coverage of the polygon set with the non-zero
+     * fill rule. Pixel rows go from the top (max y) of the bounds down.
+     */
+    coverage(polySet:PolygonSet):Float32Array {
+        let result = new Float32Array(this.width * this.height);
+        let edges = this.buildEdges(polySet);
+        if (edges.length == 0) {
+            return result;
+        }
+        edges.sort((a, b) => a.ymin - b.ymin);
+        let samples = Math.max(1, Math.round(this.samples));
+        let sampleWeight = 1 / samples;
+        let row = new Float32Array(this.width);
+        let active:Array<Edge> = [];
+        let nextEdge = 0;
+        let crossings:Array<{x:number, winding:number}> = [];
+        for (let py = 0; py < this.height; py++) {
+            let rowTouched = false;
+            for (let s = 0; s < samples; s++) {
+                let y = py + (s + 0.5) * sampleWeight;
+                while (nextEdge < edges.length && edges[nextEdge].ymin <= y) {
+                    active.push(edges[nextEdge]);
+                    nextEdge++;
+                }
+                active = active.filter(e => e.ymax > y);
+                crossings.length = 0;
+                for (let edge of active) {
+                    if (edge.ymin <= y) {
+                        crossings.push({x:edge.xAt(y), winding:edge.winding});
+                    }
+                }
+                if (crossings.length < 2) {
+                    continue;
+                }
+                crossings.sort((a, b) => a.x - b.x);
+                let winding = 0;
+                for (let idx = 0; idx < crossings.length - 1; idx++) {
+                    winding += crossings[idx].winding;
+                    if (winding != 0) {
+                        this.addSpan(row, crossings[idx].x, crossings[idx + 1].x, sampleWeight);
+                        rowTouched = true;
+                    }
+                }
+            }
+            if (rowTouched) {
+                let offset = py * this.width;
+                for (let px = 0; px < this.width; px++) {
+                    result[offset + px] = Math.min(1, row[px]);
+                }
+                row.fill(0);
+            }
+            if (nextEdge >= edges.length && active.length == 0) {
+                break;
+            }
+        }
+        return result;
+    }
+
+    private buildEdges(polySet:PolygonSet):Array<Edge> {
+        let edges:Array<Edge> = [];
+        let scale = this.pixelsPerUnit_;
+        let minx = this.bounds.minx;
+        let maxy = this.bounds.maxy;
+        for (let polygon of polySet) {
+            let len = polygon.length;
+            if (len < 6) {
+                continue;
+            }
+            let prevx = (polygon[len - 2] - minx) * scale;
+            let prevy = (maxy - polygon[len - 1]) * scale;
+            for (let idx = 0; idx < len; idx += 2) {
+                let x = (polygon[idx] - minx) * scale;
+                let y = (maxy - polygon[idx + 1]) * scale;
+                if (y != prevy) {
+                    if (y > prevy) {
+                        edges.push(new Edge(prevy, y, prevx, (x - prevx) / (y - prevy), prevy, 1));
+                    } else {
+                        edges.push(new Edge(y, prevy, x, (prevx - x) / (prevy - y), y, -1));
+                    }
+                }
+                prevx = x;
+                prevy = y;
+            }
+        }
+        return edges;
+    }
+
+    private addSpan(row:Float32Array, x0:number, x1:number, weight:number) {
+        x0 = Math.max(0, x0);
+        x1 = Math.min(this.width, x1);
+        if (x1 <= x0) {
+            return;
+        }
+        let i0 = Math.floor(x0);
+        let i1 = Math.floor(x1);
+        if (i0 == i1) {
+            row[i0] += (x1 - x0) * weight;
+            return;
+        }
+        row[i0] += (i0 + 1 - x0) * weight;
+        for (let idx = i0 + 1; idx < i1; idx++) {
+            row[idx] += weight;
+        }
+        if (i1 < this.width) {
+            row[i1] += (x1 - i1) * weight;
+        }
+    }
+}
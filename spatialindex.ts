@@ -0,0 +1,337 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+/**
+ * This file contains a spatial index of the graphics primitives for hit
+ * testing. The primitives are packed by their bounds in an R-tree, the
+ * candidates of a query are refined with the polygons of their objects.
+ */
+import {
+    Arc,
+    AttributeDictionary,
+    Bounds,
+    Circle,
+    ExecutivePrimitive,
+    Flash,
+    GraphicsPrimitive,
+    ImageTransform,
+    Line,
+    ObjectPolarity,
+    PolySetWithPolarity,
+    Region,
+} from "./primitives";
+import {Point} from "./point";
+import {
+    Polygon,
+    PolygonSet,
+    boundsOverlap,
+    pointInPolygon,
+    polySetBounds,
+} from "./polygonSet";
+import {flattenPrimitives} from "./flatten";
+
+export class PrimitiveHit {
+    constructor(
+        // The indexed primitive.
+        readonly primitive:GraphicsPrimitive,
+        // The primitive that drew the object, for repeats the block primitive.
+        readonly source:ExecutivePrimitive) {
+    }
+
+    get lineNo():number {
+        return this.source.cmd.lineNo;
+    }
+
+    get attributes():AttributeDictionary {
+        let source = this.source;
+        if (source instanceof Line || source instanceof Circle || source instanceof Arc
+            || source instanceof Flash || source instanceof Region) {
+            return source.attributes;
+        }
+        return {};
+    }
+}
+
+interface IndexNode {
+    readonly bounds:Bounds;
+    readonly children?:Array<IndexNode>;
+    // Index of the primitive in the leaf nodes.
+    readonly index?:number;
+}
+
+function nodeBounds(nodes:Array<IndexNode>):Bounds {
+    let min = new Point(Infinity, Infinity);
+    let max = new Point(-Infinity, -Infinity);
+    nodes.forEach(node => {
+        min = new Point(Math.min(min.x, node.bounds.min.x), Math.min(min.y, node.bounds.min.y));
+        max = new Point(Math.max(max.x, node.bounds.max.x), Math.max(max.y, node.bounds.max.y));
+    });
+    return new Bounds(min, max);
+}
+
+function centerX(node:IndexNode):number {
+    return node.bounds.min.x + node.bounds.max.x;
+}
+
+function centerY(node:IndexNode):number {
+    return node.bounds.min.y + node.bounds.max.y;
+}
+
+function containsBounds(outer:Bounds, inner:Bounds):boolean {
+    return inner.min.x >= outer.min.x && inner.max.x <= outer.max.x
+        && inner.min.y >= outer.min.y && inner.max.y <= outer.max.y;
+}
+
+function segmentDistance(point:Point, x1:number, y1:number, x2:number, y2:number):number {
+    let dx = x2 - x1;
+    let dy = y2 - y1;
+    let len2 = dx * dx + dy * dy;
+    let t = (len2 > 0) ? ((point.x - x1) * dx + (point.y - y1) * dy) / len2 : 0;
+    t = Math.max(0, Math.min(1, t));
+    return Math.hypot(point.x - x1 - t * dx, point.y - y1 - t * dy);
+}
+
+/**
+ * Distance to the edges of a polygon, the polygon is not closed for thin
+ * objects.
+ */
+function edgeDistance(point:Point, poly:Polygon, closed:boolean):number {
+    let result = Infinity;
+    let len = poly.length;
+    let end = (closed) ? len : len - 2;
+    for (let idx = 0; idx < end; idx += 2) {
+        let next = (idx + 2) % len;
+        result = Math.min(result, segmentDistance(point, poly[idx], poly[idx + 1], poly[next], poly[next + 1]));
+    }
+    return result;
+}
+
+/**
+ * Liang-Barsky clipping of a segment to the bounds.
+ */
+function segmentInBounds(x1:number, y1:number, x2:number, y2:number, bounds:Bounds):boolean {
+    let dx = x2 - x1;
+    let dy = y2 - y1;
+    let t0 = 0;
+    let t1 = 1;
+    let checks = [
+        [-dx, x1 - bounds.min.x],
+        [dx, bounds.max.x - x1],
+        [-dy, y1 - bounds.min.y],
+        [dy, bounds.max.y - y1]];
+    for (let [p, q] of checks) {
+        if (p == 0) {
+            if (q < 0) {
+                return false;
+            }
+        } else {
+            let t = q / p;
+            if (p < 0) {
+                t0 = Math.max(t0, t);
+            } else {
+                t1 = Math.min(t1, t);
+            }
+            if (t0 > t1) {
+                return false;
+            }
+        }
+    }
+    return true;
+}
+
+function polySetInBounds(polySet:PolygonSet, bounds:Bounds, closed:boolean):boolean {
+    for (let poly of polySet) {
+        let len = poly.length;
+        if (len == 2 && segmentInBounds(poly[0], poly[1], poly[0], poly[1], bounds)) {
+            return true;
+        }
+        let end = (closed) ? len : len - 2;
+        for (let idx = 0; idx < end; idx += 2) {
+            let next = (idx + 2) % len;
+            if (segmentInBounds(poly[idx], poly[idx + 1], poly[next], poly[next + 1], bounds)) {
+                return true;
+            }
+        }
+    }
+    // The bounds can be inside of a polygon.
+    return closed && containsPoint(polySet, bounds.min);
+}
+
+/**
+ * Even-odd test against all polygons of an object, the holes of flashes
+ * are separate polygons.
+ */
+function containsPoint(polySet:PolygonSet, point:Point):boolean {
+    let inside = false;
+    polySet.forEach(poly => {
+        if (pointInPolygon(point.x, point.y, poly)) {
+            inside = !inside;
+        }
+    });
+    return inside;
+}
+
+/**
+ * R-tree of the primitives, bulk loaded with sort tile recursive packing.
+ * The primitives must not change after the index is built. The primitives of
+ * an image with a transformation are flattened with it, so the hits have
+ * the coordinates of the image.
+ */
+export class PrimitiveIndex {
+    readonly primitives:Array<GraphicsPrimitive>;
+    private root_:IndexNode;
+    private objectBounds_ = new Map<number, Array<Bounds>>();
+
+    constructor(
+        primitives:Array<GraphicsPrimitive>,
+        readonly nodeSize:number = 16,
+        imageTransform?:ImageTransform) {
+        this.primitives = (imageTransform && !imageTransform.isIdentity)
+            ? flattenPrimitives(primitives, imageTransform)
+            : primitives;
+        let level:Array<IndexNode> = [];
+        this.primitives.forEach((primitive, idx) => {
+            if (primitive.objects.length > 0) {
+                level.push({bounds:primitive.bounds, index:idx});
+            }
+        });
+        while (level.length > nodeSize) {
+            level = this.pack(level);
+        }
+        this.root_ = (level.length > 0) ? {bounds:nodeBounds(level), children:level} : undefined;
+    }
+
+    /**
+     * Primitives whose bounds overlap the bounds, in drawing order.
+     */
+    candidates(bounds:Bounds):Array<GraphicsPrimitive> {
+        return this.search(bounds).map(idx => this.primitives[idx]);
+    }
+
+    /**
+     * The primitives under the point, the top one first. Clear objects drawn
+     * later hide the primitives below them. Dark objects within the
+     * tolerance of the point and thin objects closer than the tolerance
+     * count as hits.
+     */
+    hitTest(point:Point, tolerance:number = 0):Array<PrimitiveHit> {
+        let query = new Bounds(
+            new Point(point.x - tolerance, point.y - tolerance),
+            new Point(point.x + tolerance, point.y + tolerance));
+        let result:Array<PrimitiveHit> = [];
+        this.search(query).forEach(idx => {
+            let primitive = this.primitives[idx];
+            let objectBounds = this.objectBounds(idx);
+            primitive.objects.forEach((object, objectIdx) => {
+                if (!boundsOverlap(objectBounds[objectIdx], query)) {
+                    return;
+                }
+                if (object.polarity == ObjectPolarity.LIGHT) {
+                    if (containsPoint(object.polySet, point)) {
+                        result = [];
+                    }
+                } else if (this.objectHit(object, point, tolerance)) {
+                    this.addHit(result, primitive, object);
+                }
+            });
+        });
+        return result.reverse();
+    }
+
+    /**
+     * The primitives with dark or thin objects that overlap the bounds, or
+     * are inside of them when contained is set. Clear objects are not
+     * subtracted.
+     */
+    searchBounds(bounds:Bounds, contained:boolean = false):Array<PrimitiveHit> {
+        let result:Array<PrimitiveHit> = [];
+        this.search(bounds).forEach(idx => {
+            let primitive = this.primitives[idx];
+            let objectBounds = this.objectBounds(idx);
+            primitive.objects.forEach((object, objectIdx) => {
+                if (object.polarity == ObjectPolarity.LIGHT
+                    || !boundsOverlap(objectBounds[objectIdx], bounds)) {
+                    return;
+                }
+                let hit = (contained)
+                    ? containsBounds(bounds, objectBounds[objectIdx])
+                    : polySetInBounds(object.polySet, bounds, object.polarity != ObjectPolarity.THIN);
+                if (hit) {
+                    this.addHit(result, primitive, object);
+                }
+            });
+        });
+        return result;
+    }
+
+    private objectHit(object:PolySetWithPolarity, point:Point, tolerance:number):boolean {
+        if (object.polarity == ObjectPolarity.THIN) {
+            return object.polySet.some(poly => edgeDistance(point, poly, false) <= tolerance);
+        }
+        if (containsPoint(object.polySet, point)) {
+            return true;
+        }
+        return tolerance > 0
+            && object.polySet.some(poly => edgeDistance(point, poly, true) <= tolerance);
+    }
+
+    private addHit(hits:Array<PrimitiveHit>, primitive:GraphicsPrimitive, object:PolySetWithPolarity) {
+        let source = object.primitive || primitive;
+        if (!hits.some(hit => hit.primitive == primitive && hit.source == source)) {
+            hits.push(new PrimitiveHit(primitive, source));
+        }
+    }
+
+    private objectBounds(idx:number):Array<Bounds> {
+        let result = this.objectBounds_.get(idx);
+        if (!result) {
+            result = this.primitives[idx].objects.map(object => polySetBounds(object.polySet));
+            this.objectBounds_.set(idx, result);
+        }
+        return result;
+    }
+
+    private search(bounds:Bounds):Array<number> {
+        let result:Array<number> = [];
+        let visit = (node:IndexNode) => {
+            if (!boundsOverlap(node.bounds, bounds)) {
+                return;
+            }
+            if (node.children) {
+                node.children.forEach(visit);
+            } else {
+                result.push(node.index);
+            }
+        };
+        if (this.root_) {
+            visit(this.root_);
+        }
+        return result.sort((a, b) => a - b);
+    }
+
+    /**
+     * Groups the nodes of a level into parent nodes. The nodes are sorted in
+     * vertical slices by x, then each slice is cut by y.
+     */
+    private pack(level:Array<IndexNode>):Array<IndexNode> {
+        let nodeSize = this.nodeSize;
+        let parentCount = Math.ceil(level.length / nodeSize);
+        let sliceSize = Math.ceil(Math.sqrt(parentCount)) * nodeSize;
+        let sorted = level.slice().sort((a, b) => centerX(a) - centerX(b));
+        let result:Array<IndexNode> = [];
+        for (let slice = 0; slice < sorted.length; slice += sliceSize) {
+            let nodes = sorted.slice(slice, slice + sliceSize).sort((a, b) => centerY(a) - centerY(b));
+            for (let idx = 0; idx < nodes.length; idx += nodeSize) {
+                let children = nodes.slice(idx, idx + nodeSize);
+                result.push({bounds:nodeBounds(children), children:children});
+            }
+        }
+        return result;
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * Gerber Parsing Library
+ * 
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ * 
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as JSZip from 'jszip';
+import * as bd from '../board';
+import * as br from '../boardrenderer';
+import * as cv from '../converters';
+import * as ut from '../gerberutils';
+import {CoordinateUnits} from '../primitives';
+
+const eagleFolder = "test/Gerber_File_Format_Examples/eagle";
+
+async function loadEagleBoard():Promise<bd.Board> {
+    let zip = new JSZip();
+    fs.readdirSync(eagleFolder)
+        .filter(fileName => !fileName.endsWith(".svg"))
+        .forEach(fileName => zip.file(
+            "eagle/" + fileName, fs.readFileSync(eagleFolder + "/" + fileName).toString()));
+    zip.file("eagle/readme.txt", "Order 10 boards please.");
+    zip.file("__MACOSX/eagle/._Combined V4.2j - 0603s.GTL", "");
+    let data = await zip.generateAsync({type:"uint8array"});
+    return bd.loadBoardFromZip(data);
+}
+
+describe("Board tests", () => {
+    it('Wait to init', () => cv.Init);
+    it('load eagle board from zip', async () => {
+        let board = await loadEagleBoard();
+        let topCopper = board.getLayer(ut.BoardSide.Top, ut.BoardLayer.Copper);
+        assert.ok(topCopper);
+        assert.equal(topCopper.fileName, "eagle/Combined V4.2j - 0603s.GTL");
+        assert.ok(topCopper.primitives.length > 0);
+        assert.ok(topCopper.image.solids.length > 0);
+        assert.ok(board.getLayer(ut.BoardSide.Bottom, ut.BoardLayer.Copper));
+        assert.ok(board.getLayer(ut.BoardSide.Top, ut.BoardLayer.SolderMask));
+        assert.ok(board.outline);
+        assert.equal(board.drills.length, 1);
+        assert.equal(board.drills[0].fileName, "eagle/Combined V4.2j - 0603s.TXT");
+        let readme = board.unrecognized.find(f => f.fileName == "eagle/readme.txt");
+        assert.ok(readme);
+        assert.ok(readme.reason.length > 0);
+        assert.ok(!board.unrecognized.some(f => f.fileName.indexOf("__MACOSX") >= 0));
+        assert.ok(board.bounds);
+    }).timeout(20000);
+    it('convert mixed units to millimeters', async () => {
+        let zip = new JSZip();
+        zip.file("board.GTL", "%FSLAX26Y26*%\n%MOMM*%\n%ADD10C,0.1016*%\nD10*\nX0Y0D02*\nX25400000Y0D01*\nM02*\n");
+        zip.file("board.GBL", "%FSLAX24Y24*%\n%MOIN*%\n%ADD10C,0.004*%\nD10*\nX0Y0D02*\nX10000Y0D01*\nM02*\n");
+        let board = await bd.loadBoardFromZip(await zip.generateAsync({type:"uint8array"}));
+        let top = board.getLayer(ut.BoardSide.Top, ut.BoardLayer.Copper);
+        let bottom = board.getLayer(ut.BoardSide.Bottom, ut.BoardLayer.Copper);
+        assert.equal(top.image.units, CoordinateUnits.MILIMETERS);
+        assert.equal(bottom.image.units, CoordinateUnits.MILIMETERS);
+        assert.ok(Math.abs(bottom.primitives[0].bounds.max.x - top.primitives[0].bounds.max.x) < 1E-6);
+    });
+    it('render eagle board top and bottom', async () => {
+        let board = await loadEagleBoard();
+        let renderer = new br.BoardRenderer();
+        let top = renderer.renderTop(board);
+        let bottom = renderer.renderBottom(board);
+        assert.ok(top.indexOf('mask="url(#top-soldermask)"') > 0);
+        assert.ok(bottom.indexOf('scale(-1, 1)') > 0);
+        assert.ok(top.indexOf('scale(-1, 1)') < 0);
+        fs.writeFileSync(eagleFolder + "/board-top.svg", top);
+        fs.writeFileSync(eagleFolder + "/board-bottom.svg", bottom);
+    }).timeout(20000);
+});
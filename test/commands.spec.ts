@@ -223,4 +223,30 @@ describe("Commands tests", () => {
         assert.equal(primitives.length, 1);
         //console.log(`arc: ${primitives[0]}`);
     });
+    it("Image commands", () => {
+        let ip = new cm.IPCommand("IPNEG*");
+        assert.equal(ip.polarity, pr.ImagePolarity.NEGATIVE);
+        assert.equal(ip.formatOutput(), "IPNEG*");
+        assert.throws(() => new cm.IPCommand("IPX*"), GerberParseException);
+        let ir = new cm.IRCommand("IR270*");
+        assert.equal(ir.rotation, 270);
+        assert.throws(() => new cm.IRCommand("IR45*"), GerberParseException);
+        let mi = new cm.MICommand("MIB1*");
+        assert.equal(mi.mirrorA, false);
+        assert.equal(mi.mirrorB, true);
+        assert.equal(mi.formatOutput(), "MIA0B1*");
+        let of = new cm.OFCommand("OFA-2.0B-1.0*");
+        assert.equal(of.offsetA, -2);
+        assert.equal(of.offsetB, -1);
+        assert.equal(of.formatOutput(), "OFA-2B-1*");
+        let sf = new cm.SFCommand("SFA2B.5*");
+        assert.equal(sf.scaleA, 2);
+        assert.equal(sf.scaleB, 0.5);
+        assert.throws(() => new cm.SFCommand("SFA0B1*"), GerberParseException);
+        let as = new cm.ASCommand("ASAYBX*");
+        assert.equal(as.axisSelect, pr.AxisSelect.AYBX);
+        assert.equal(as.formatOutput(), "ASAYBX*");
+        assert.equal(new cm.INCommand("INBoard Outline.gbr*").imageName, "Board Outline.gbr");
+        assert.equal(new cm.LNCommand("LNTopCopper*").levelName, "TopCopper");
+    });
 });
@@ -35,6 +35,71 @@ describe("Conveter tests", () => {
                 //console.log(`Conversion result for ${fileName}`);
             });
     });
+    it('Exact SVG', () => {
+        let content = "%FSLAX26Y26*%\n%MOMM*%\n"
+            + "%ADD10C,0.5*%\n%ADD11R,1X2*%\n%ADD12O,1X2*%\n"
+            + "D10*\nX0Y0D02*\nX10000000Y0D01*\n"
+            + "G75*\nG03X0Y10000000I-10000000J0D01*\n"
+            + "G01*\nD11*\nX5000000Y5000000D03*\nX6000000Y5000000D03*\n"
+            + "%LPC*%\nD12*\nX5000000Y5000000D03*\n%LPD*%\n"
+            + "G36*\nX20000000Y0D02*\nX30000000Y0D01*\n"
+            + "G03X20000000Y0I-5000000J0D01*\nG37*\n"
+            + "M02*\n";
+        let result = cv.ExactSVGConverter.GerberToSvg(content);
+        // One stroked path for the line and one for the arc.
+        assert.equal(result.match(/stroke-linecap="round"/g).length, 2);
+        assert.ok(result.indexOf('A 10.0 10.0 0 0 1 0.0 10.0') > 0);
+        assert.ok(result.indexOf('A 5.0 5.0 0 0 1 20.0 0.0') > 0);
+        // Each aperture shape is defined once, the rectangle is used twice.
+        assert.equal(result.match(/<rect id=/g).length, 2);
+        assert.equal(result.match(/xlink:href="#aperture1"/g).length, 2);
+        assert.ok(result.indexOf('rx="0.5"') > 0);
+        // The clear flash masks the objects drawn before it.
+        assert.equal(result.match(/<mask /g).length, 1);
+        assert.ok(result.indexOf('<g mask="url(#mask1)">') > 0);
+        assert.ok(result.indexOf(' L ') > 0);
+    });
+    it('Output units', () => {
+        let content = "%FSLAX24Y24*%\n%MOIN*%\n"
+            + "%ADD10C,0.1*%\n"
+            + "D10*\nX0Y0D02*\nX10000Y0D01*\nM02*\n";
+        let inches = cv.GerberToPolygons(content);
+        assert.equal(inches.units, pr.CoordinateUnits.INCHES);
+        assert.ok(Math.abs(inches.bounds.maxy - 0.05) < 1E-9);
+        let mm = cv.GerberToPolygons(content, false, {outputUnits:pr.CoordinateUnits.MILIMETERS});
+        assert.equal(mm.units, pr.CoordinateUnits.MILIMETERS);
+        assert.ok(Math.abs(mm.bounds.maxy - 1.27) < 1E-9);
+        assert.ok(Math.abs(mm.bounds.maxx - 26.67) < 1E-2);
+        let primitives = cv.PrimitiveConverter.GerberToPrimitiveResult(
+            content, {outputUnits:pr.CoordinateUnits.MILIMETERS});
+        assert.equal(primitives.units, pr.CoordinateUnits.MILIMETERS);
+        assert.ok(Math.abs((primitives.primitives[0] as pr.Line).to.x - 25.4) < 1E-9);
+        let svg = cv.ExactSVGConverter.GerberToSvg(content, 0, 10, 0, {outputUnits:pr.CoordinateUnits.MILIMETERS});
+        assert.ok(/width="27\.9\d*mm" height="2\.54mm"/.test(svg));
+        assert.ok(cv.SVGConverter.GerberToSvg(content).indexOf('width="100%"') > 0);
+        // The chord tolerance is in the output units.
+        let circle = "%FSLAX24Y24*%\n%MOIN*%\n%ADD10C,1*%\nD10*\nX0Y0D03*\nM02*\n";
+        let fileTolerance = cv.GerberToPolygons(circle, false, {chordTolerance:0.001});
+        let outputTolerance = cv.GerberToPolygons(
+            circle, false, {chordTolerance:0.0254, outputUnits:pr.CoordinateUnits.MILIMETERS});
+        assert.equal(outputTolerance.solids[0].length, fileTolerance.solids[0].length);
+        assert.ok(cv.GerberToPolygons(circle, false, {chordTolerance:0.0254}).solids[0].length
+            < fileTolerance.solids[0].length);
+        // Files without units can not be converted.
+        assert.throws(() => cv.GerberToPolygons(
+            "%FSLAX24Y24*%\n%ADD10C,0.1*%\nD10*\nX0Y0D03*\nM02*\n",
+            false, {outputUnits:pr.CoordinateUnits.MILIMETERS}));
+    });
+    it('Gerber files to exact SVG', () => {
+        let folder = "test/Gerber_File_Format_Examples";
+        fs.readdirSync(folder)
+            .filter(fileName => fileName.endsWith(".gbr"))
+            .forEach(fileName => {
+                let content = fs.readFileSync(folder + "/" + fileName).toString();
+                let result = cv.ExactSVGConverter.GerberToSvg(content);
+                assert.ok(result.endsWith("</svg>"));
+            });
+    }).timeout(10000);
     it('Bugs files to SVG', () => {
         let folder = "test/Gerber_File_Format_Examples/bugs";
         fs.readdirSync(folder)
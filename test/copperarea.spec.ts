@@ -0,0 +1,57 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as ca from '../copperarea';
+import * as cv from '../converters';
+import {CoordinateUnits} from '../primitives';
+import {enclosedArea} from '../polygonSet';
+
+const top = "%FSLAX26Y26*%\n%MOMM*%\n"
+    + "G36*\nX0Y0D02*\nX10000000Y0D01*\nX10000000Y10000000D01*\nX0Y10000000D01*\nX0Y0D01*\nG37*\n"
+    + "%LPC*%\nG36*\nX3000000Y3000000D02*\nX7000000Y3000000D01*\nX7000000Y7000000D01*\n"
+    + "X3000000Y7000000D01*\nX3000000Y3000000D01*\nG37*\n"
+    + "M02*\n";
+
+const bottom = "%FSLAX26Y26*%\n%MOMM*%\n%ADD10R,10X10*%\nD10*\nX15000000Y15000000D03*\nM02*\n";
+
+const outline = "%FSLAX26Y26*%\n%MOMM*%\n%ADD10C,0.2*%\nD10*\n"
+    + "X0Y0D02*\nX20000000Y0D01*\nX20000000Y20000000D01*\nX0Y20000000D01*\nX0Y0D01*\nM02*\n";
+
+describe("Copper area tests", () => {
+    it('Wait to init', () => cv.Init);
+    it('Layer copper', () => {
+        let board = enclosedArea(ca.copperImage(cv.PrimitiveConverter.GerberToPrimitives(outline)));
+        let layer = ca.layerCopper("top", cv.PrimitiveConverter.GerberToPrimitives(top), board, 10);
+        // The clear region is a hole in the copper.
+        assert.ok(Math.abs(layer.area - 84) < 1E-6);
+        // The board is inside of the outline stroke.
+        assert.ok(Math.abs(layer.boardArea - 19.8 * 19.8) < 1E-6);
+        assert.ok(Math.abs(layer.coverage - 8400 / (19.8 * 19.8)) < 1E-6);
+        assert.equal(layer.tiles.length, 2);
+        assert.equal(layer.tiles[0].length, 2);
+        assert.ok(Math.abs(layer.tiles[0][0].copperArea - (84 - 0.1 * 10 * 2 + 0.01)) < 1E-6);
+        assert.equal(layer.tiles[1][1].copperArea, 0);
+        assert.ok(layer.tiles[0][0].density > 0.8);
+    });
+    it('Report', () => {
+        let layers = [
+            ca.layerCopper("top", cv.PrimitiveConverter.GerberToPrimitives(top)),
+            ca.layerCopper("bottom", cv.PrimitiveConverter.GerberToPrimitives(bottom), undefined, 5)];
+        let report = new ca.CopperReport(layers, CoordinateUnits.MILIMETERS);
+        assert.ok(Math.abs(report.balance - (84 - 100) / 184) < 1E-6);
+        assert.equal(layers[0].coverage, undefined);
+        // Without a board the tiles cover the copper.
+        assert.equal(layers[1].tiles.length, 2);
+        assert.ok(layers[1].tiles.every(row => row.every(tile => Math.abs(tile.density - 1) < 1E-6)));
+        let text = report.toString();
+        assert.ok(text.startsWith("top: 84.0 mm^2\nbottom: 100.0 mm^2\n   100 100\n   100 100\n"));
+        assert.ok(text.endsWith("Top to bottom balance -8.7%\n"));
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as drc from '../drc';
+import * as cv from '../converters';
+import {CoordinateUnits} from '../primitives';
+
+const copper = "%FSLAX26Y26*%\n%MOMM*%\n%ADD10C,0.1*%\n%ADD11C,0.3*%\n%ADD12C,1.2*%\n%ADD13R,0.5X0.1*%\n"
+    + "D10*\nX0Y0D02*\nX5000000Y0D01*\n"
+    + "D11*\nX0Y400000D02*\nX5000000Y400000D01*\n"
+    + "D13*\nX0Y5000000D03*\n"
+    + "D12*\nX10000000Y0D03*\nX10000000Y3000000D03*\n"
+    + "M02*\n";
+
+const drill = "M48\nMETRIC,TZ\nT1C0.8\n%\nT1\nX10.0Y0.0\nX10.4Y3.0\nX20.0Y20.0\nM30\n";
+
+const outline = "%FSLAX26Y26*%\n%MOMM*%\n%ADD10C,0.1*%\nD10*\n"
+    + "X-1000000Y-1000000D02*\nX11500000Y-1000000D01*\nX11500000Y5200000D01*\n"
+    + "X-1000000Y5200000D01*\nX-1000000Y-1000000D01*\nM02*\n";
+
+function layer(name:string, content:string):drc.DrcLayer {
+    return {name:name, primitives:cv.PrimitiveConverter.GerberToPrimitives(content)};
+}
+
+describe("Design rule check tests", () => {
+    it('Wait to init', () => cv.Init);
+    it('Track width', () => {
+        let checker = new drc.DesignRuleChecker();
+        let violations = checker.checkTrackWidth(layer("top", copper));
+        assert.equal(violations.length, 1);
+        assert.equal(violations[0].rule, drc.DrcRule.TRACK_WIDTH);
+        assert.equal(violations[0].value, 0.1);
+        assert.equal(violations[0].location.toString(), "(2.5, 0.0)");
+        assert.deepEqual(violations[0].lines, [9]);
+        // Flashes are pads, not tracks.
+        assert.equal(checker.violations.length, 1);
+        checker.units = CoordinateUnits.INCHES;
+        checker.minTrackWidth = 0.01;
+        violations = checker.checkTrackWidth(layer("top", copper), CoordinateUnits.MILIMETERS);
+        assert.equal(violations.length, 1);
+        assert.ok(Math.abs(violations[0].value - 0.1 / 25.4) < 1E-9);
+    });
+    it('Image transformation', () => {
+        let result = cv.PrimitiveConverter.GerberToPrimitiveResult(
+            "%FSLAX26Y26*%\n%MOMM*%\n%OFA5.0B0*%\n%ADD10C,0.1*%\nD10*\nX0Y0D02*\nX5000000Y0D01*\nM02*\n");
+        let checker = new drc.DesignRuleChecker();
+        let violations = checker.checkTrackWidth(
+            {name:"top", primitives:result.primitives, imageTransform:result.imageTransform});
+        assert.equal(violations.length, 1);
+        assert.equal(violations[0].location.toString(), "(7.5, 0.0)");
+    });
+    it('Clearance', () => {
+        let checker = new drc.DesignRuleChecker();
+        checker.minClearance = 0.3;
+        let violations = checker.checkClearance(layer("top", copper));
+        // The two tracks are 0.2mm apart.
+        assert.equal(violations.length, 1);
+        assert.ok(Math.abs(violations[0].value - 0.2) < 1E-3);
+        assert.ok(Math.abs(violations[0].location.y - 0.15) < 1E-3);
+        assert.deepEqual(violations[0].lines.slice().sort((a, b) => a - b), [9, 12]);
+    });
+    it('Annular ring and outline', () => {
+        let checker = new drc.DesignRuleChecker();
+        let top = layer("top", copper);
+        let drillLayer = {name:"drill", primitives:cv.PrimitiveConverter.ExcellonToPrimitives(drill)};
+        assert.throws(() => checker.checkAnnularRing(top, {name:"drill", primitives:undefined}));
+        let violations = checker.checkAnnularRing(top, drillLayer);
+        assert.equal(violations.length, 1);
+        // The off center hole breaks out of the pad.
+        assert.ok(violations[0].value < 0.15);
+        assert.equal(violations[0].location.toString(), "(10.4, 3.0)");
+        violations = checker.checkOutlineClearance(top, layer("outline", outline));
+        assert.equal(violations.length, 1);
+        assert.equal(violations[0].rule, drc.DrcRule.OUTLINE_CLEARANCE);
+        assert.equal(checker.violations.length, 2);
+    });
+});
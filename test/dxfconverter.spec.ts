@@ -0,0 +1,122 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as pr from '../primitives';
+import * as dxf from '../dxfconverter';
+import {Init} from '../converters';
+
+const copper = "%FSLAX26Y26*%\n%MOMM*%\n"
+    + "%ADD10C,0.5*%\n%ADD11O,1X2*%\n"
+    + "D10*\nX0Y0D02*\nX10000000Y0D01*\n"
+    + "G75*\nG02X0Y-10000000I-10000000J0D01*\n"
+    + "G01*\nD11*\nX5000000Y5000000D03*\n"
+    + "G36*\nX20000000Y0D02*\nX30000000Y0D01*\n"
+    + "G03X20000000Y0I-5000000J0D01*\nG37*\n"
+    + "M02*\n";
+
+const outline = "%FSLAX24Y24*%\n%MOIN*%\n"
+    + "%ADD10C,0.01*%\n"
+    + "D10*\nX0Y0D02*\nX10000Y0D01*\nM02*\n";
+
+/**
+ * Splits the DXF text in group code and value pairs.
+ */
+function groups(content:string):Array<[number, string]> {
+    let lines = content.split("\n");
+    let result:Array<[number, string]> = [];
+    for (let idx = 0; idx + 1 < lines.length; idx += 2) {
+        result.push([parseInt(lines[idx]), lines[idx + 1]]);
+    }
+    return result;
+}
+
+function entities(content:string, type:string):Array<Array<[number, string]>> {
+    let codes = groups(content);
+    let result:Array<Array<[number, string]>> = [];
+    codes.forEach((c, idx) => {
+        if (c[0] == 0 && c[1] == type) {
+            let end = idx + 1;
+            while (end < codes.length && codes[end][0] != 0) {
+                end++;
+            }
+            result.push(codes.slice(idx + 1, end));
+        }
+    });
+    return result;
+}
+
+function value(entity:Array<[number, string]>, code:number):string {
+    return entity.find(c => c[0] == code)[1];
+}
+
+describe("DXF converter tests", () => {
+    it('Wait to init', () => Init);
+    it('Centerlines', () => {
+        let result = dxf.DXFConverter.GerberToDxf([
+            {name:"copper.gtl", content:copper},
+            {name:"outline.gko", content:outline}]);
+        assert.ok(result.endsWith("0\nEOF\n"));
+        assert.equal(entities(result, "SECTION").length, 3);
+        let layers = entities(result, "LAYER");
+        assert.deepEqual(layers.map(l => value(l, 2)), ["copper.gtl", "outline.gko"]);
+
+        let lines = entities(result, "LINE");
+        assert.equal(lines.length, 2);
+        assert.equal(value(lines[0], 8), "copper.gtl");
+        assert.equal(parseFloat(value(lines[0], 11)), 10);
+        // The inch outline is converted to millimeters.
+        assert.equal(value(lines[1], 8), "outline.gko");
+        assert.ok(Math.abs(parseFloat(value(lines[1], 11)) - 25.4) < 1E-9);
+
+        // The clockwise arc is written counter clockwise from 270 to 0 degrees.
+        let arcs = entities(result, "ARC");
+        assert.equal(arcs.length, 1);
+        assert.equal(parseFloat(value(arcs[0], 40)), 10);
+        assert.equal(parseFloat(value(arcs[0], 50)), 270);
+        assert.equal(parseFloat(value(arcs[0], 51)), 0);
+
+        // The obround flash and the region are polylines with exact arcs.
+        let polylines = entities(result, "LWPOLYLINE");
+        assert.equal(polylines.length, 2);
+        assert.equal(value(polylines[0], 90), "4");
+        assert.equal(polylines[0].filter(c => c[0] == 42).length, 2);
+        assert.equal(value(polylines[1], 90), "2");
+        assert.equal(parseFloat(value(polylines[1], 42)), 1);
+
+        let handles = groups(result).filter(c => c[0] == 5).map(c => c[1]);
+        assert.equal(new Set(handles).size, handles.length);
+    });
+    it('Units', () => {
+        let result = dxf.DXFConverter.GerberToDxf([{name:"outline", content:outline}]);
+        let header = groups(result);
+        let idx = header.findIndex(c => c[1] == "$INSUNITS");
+        assert.equal(header[idx + 1][1], "1");
+        let layer = new dxf.DXFLayer("mm", [], pr.CoordinateUnits.MILIMETERS);
+        result = dxf.DXFConverter.LayersToDxf([layer]);
+        header = groups(result);
+        idx = header.findIndex(c => c[1] == "$INSUNITS");
+        assert.equal(header[idx + 1][1], "4");
+    });
+    it('Image transformation', () => {
+        let content = "%FSLAX26Y26*%\n%MOMM*%\n%OFA5.0B0*%\n%ADD10C,0.1*%\nD10*\n"
+            + "X0Y0D02*\nX10000000Y0D01*\nM02*\n";
+        let lines = entities(dxf.DXFConverter.GerberToDxf([{name:"copper", content:content}]), "LINE");
+        assert.equal(lines.length, 1);
+        assert.equal(parseFloat(value(lines[0], 10)), 5);
+        assert.equal(parseFloat(value(lines[0], 11)), 15);
+    });
+    it('Filled outlines', () => {
+        let result = dxf.DXFConverter.GerberToDxf([{name:"copper", content:copper}], dxf.DXFMode.OUTLINE);
+        assert.equal(entities(result, "LINE").length, 0);
+        assert.equal(entities(result, "ARC").length, 0);
+        assert.equal(entities(result, "HATCH").length, 1);
+        assert.ok(entities(result, "LWPOLYLINE").length > 0);
+    });
+});
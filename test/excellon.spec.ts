@@ -0,0 +1,126 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as ex from '../excellon';
+import * as pr from '../primitives';
+import * as cv from '../converters';
+
+function near(a:number, b:number):boolean {
+    return Math.abs(a - b) < 1E-9;
+}
+
+describe("Excellon parser tests", () => {
+    it('Wait to init', () => cv.Init);
+    it('Tool table and hits', () => {
+        let parser = new ex.ExcellonParser();
+        parser.parseBlock(
+            "M48\n" +
+            "METRIC,TZ\n" +
+            "T01C0.3\n" +
+            "T02C1.0\n" +
+            "%\n" +
+            "G90\n" +
+            "G05\n" +
+            "T01\n" +
+            "X1.5Y2.25\n" +
+            "X010000Y-002500\n" +
+            "T02\n" +
+            "Y3.\n" +
+            "M30\n");
+        parser.endFile();
+        assert.equal(parser.units, pr.CoordinateUnits.MILIMETERS);
+        assert.equal(parser.tools.length, 2);
+        let primitives = parser.primitives;
+        assert.equal(primitives.length, 3);
+        primitives.forEach(p => assert.ok(p instanceof pr.Flash));
+        let flash1 = primitives[0] as pr.Flash;
+        assert.ok(near(flash1.center.x, 1.5));
+        assert.ok(near(flash1.center.y, 2.25));
+        assert.equal((flash1.aperture as pr.ApertureDefinition).modifiers[0], 0.3);
+        assert.equal(flash1.cmd.lineNo, 9);
+        let flash2 = primitives[1] as pr.Flash;
+        assert.ok(near(flash2.center.x, 10));
+        assert.ok(near(flash2.center.y, -2.5));
+        let flash3 = primitives[2] as pr.Flash;
+        assert.ok(near(flash3.center.x, 10));
+        assert.ok(near(flash3.center.y, 3));
+        assert.equal((flash3.aperture as pr.ApertureDefinition).modifiers[0], 1.0);
+    });
+    it('Leading zeros format', () => {
+        let parser = new ex.ExcellonParser();
+        parser.parseBlock("M48\nINCH,LZ,00.0000\nT1C0.0300\n%\nT1\nX0125Y-01\nM30\n");
+        parser.endFile();
+        assert.equal(parser.units, pr.CoordinateUnits.INCHES);
+        assert.equal(parser.zeros, ex.ExcellonZeros.LEADING);
+        let flash = parser.primitives[0] as pr.Flash;
+        assert.ok(near(flash.center.x, 1.25));
+        assert.ok(near(flash.center.y, -1));
+    });
+    it('Slots and routing', () => {
+        let parser = new ex.ExcellonParser();
+        parser.parseBlock(
+            "M48\n" +
+            "; #@! TF.FileFunction,Plated,1,2,PTH\n" +
+            "METRIC\n" +
+            "T3C0.8\n" +
+            "%\n" +
+            "T3\n" +
+            "X1.0Y1.0G85X3.0Y1.0\n" +
+            "G00X5.0Y5.0\n" +
+            "M15\n" +
+            "G01X7.0Y5.0\n" +
+            "G01X7.0Y8.0\n" +
+            "M16\n" +
+            "G05\n" +
+            "X9.0Y9.0\n" +
+            "M30\n");
+        parser.endFile();
+        assert.equal(parser.isPlated, true);
+        let primitives = parser.primitives;
+        assert.equal(primitives.length, 4);
+        assert.ok(primitives[0] instanceof pr.Line);
+        assert.ok(primitives[1] instanceof pr.Line);
+        assert.ok(primitives[2] instanceof pr.Line);
+        assert.ok(primitives[3] instanceof pr.Flash);
+        let slot = primitives[0] as pr.Line;
+        assert.ok(near(slot.from.x, 1) && near(slot.to.x, 3));
+        let route = primitives[2] as pr.Line;
+        assert.ok(near(route.from.x, 7) && near(route.from.y, 5));
+        assert.ok(near(route.to.x, 7) && near(route.to.y, 8));
+    });
+    it('Undefined tool', () => {
+        let parser = new ex.ExcellonParser();
+        assert.throws(() => parser.parseBlock("M48\nMETRIC\n%\nT5\nX1.0Y1.0\n"));
+    });
+    it('eagle drill file to objects', () => {
+        let folder = "test/Gerber_File_Format_Examples/eagle";
+        fs.readdirSync(folder)
+            .filter(fileName => fileName.match(/\.TXT$/))
+            .forEach(fileName => {
+                let fullFileName = folder + "/" + fileName;
+                let content = fs.readFileSync(fullFileName).toString();
+                let primitives = cv.PrimitiveConverter.ExcellonToPrimitives(content);
+                assert.ok(primitives.length > 0);
+                let result = cv.ExcellonToPolygons(content);
+                assert.ok(result.solids.length > 0);
+            });
+    });
+    it('rambo drill file to SVG', () => {
+        let folder = "test/Gerber_File_Format_Examples/rambo";
+        let content = fs.readFileSync(folder + "/RAMBo.TXT").toString();
+        let primitives = cv.PrimitiveConverter.ExcellonToPrimitives(content);
+        let converter = new cv.SVGConverter();
+        let svg = converter.convert(primitives);
+        let stream = fs.createWriteStream(folder + "/RAMBo.TXT.svg");
+        stream.write(svg.filter(s => s.length > 0).join('\n'));
+        stream.end();
+    }).timeout(10000);
+});
@@ -0,0 +1,85 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as pr from '../primitives';
+import * as fl from '../flatten';
+import {GerberParser} from '../grbparser';
+import {objectsBounds} from '../polygonSet';
+
+const blocks = "%FSLAX26Y26*%\n%MOMM*%\n%ADD10C,0.5*%\n%ADD11R,1X2*%\n"
+    + "%ABD12*%\nD10*\nX0Y0D02*\nX2000000Y0D01*\n"
+    + "D11*\nX2000000Y1000000D03*\n%LPC*%\nD10*\nX0Y0D03*\n%LPD*%\n%AB*%\n"
+    + "D12*\nX10000000Y0D03*\n"
+    + "%LMX*%\n%LR90*%\n%LS2*%\nX20000000Y0D03*\n%LMN*%\n%LR0*%\n%LS1*%\n"
+    + "%LPC*%\nX30000000Y0D03*\n%LPD*%\n"
+    + "%SRX2Y2I5J5*%\nD11*\nX0Y10000000D03*\n%SR*%\n"
+    + "M02*\n";
+
+function execute(content:string):pr.GerberState {
+    let parser = new GerberParser();
+    parser.parseBlock(content);
+    let ctx = new pr.GerberState();
+    parser.execute(ctx);
+    return ctx;
+}
+
+function objects(primitives:Array<pr.GraphicsPrimitive>):pr.GraphicsObjects {
+    let result:pr.GraphicsObjects = [];
+    primitives.forEach(p => result.push(...p.objects));
+    return result;
+}
+
+function assertSameObjects(expected:pr.GraphicsObjects, actual:pr.GraphicsObjects) {
+    assert.deepEqual(actual.map(o => o.polarity), expected.map(o => o.polarity));
+    let expectedBounds = objectsBounds(expected);
+    let actualBounds = objectsBounds(actual);
+    assert.ok(Math.abs(expectedBounds.min.x - actualBounds.min.x) < 1E-6);
+    assert.ok(Math.abs(expectedBounds.min.y - actualBounds.min.y) < 1E-6);
+    assert.ok(Math.abs(expectedBounds.max.x - actualBounds.max.x) < 1E-6);
+    assert.ok(Math.abs(expectedBounds.max.y - actualBounds.max.y) < 1E-6);
+}
+
+describe("Flatten tests", () => {
+    it('Flatten blocks', () => {
+        let ctx = execute(blocks);
+        let result = fl.flattenPrimitives(ctx.primitives);
+        assert.equal(result.length, 13);
+        assert.ok(result.every(p => !(p instanceof pr.Flash) || !(p.aperture instanceof pr.BlockAperture)));
+        ctx.primitives.forEach(p => assertSameObjects(p.objects, objects(fl.flattenPrimitives([p]))));
+        // Mirrored, rotated and scaled block.
+        let line = result[3] as pr.Line;
+        assert.equal(line.to.toString(), "(20.0, -4.0)");
+        let flash = result[4] as pr.Flash;
+        assert.equal(flash.center.toString(), "(18.0, -4.0)");
+        assert.equal(flash.state.mirroring, pr.ObjectMirroring.X_AXIS);
+        assert.equal(flash.state.rotation, 90);
+        assert.equal(flash.state.scale, 2);
+        // The clear flash inverts the block polarity.
+        assert.deepEqual(
+            result.slice(6, 9).map(p => p.state.polarity),
+            [pr.ObjectPolarity.LIGHT, pr.ObjectPolarity.LIGHT, pr.ObjectPolarity.DARK]);
+        assert.deepEqual(
+            result.slice(9).map(p => (p as pr.Flash).center.toString()),
+            ["(0.0, 10.0)", "(0.0, 15.0)", "(5.0, 10.0)", "(5.0, 15.0)"]);
+    });
+    it('Image transformation', () => {
+        let body = "%ADD10C,0.5*%\n%ADD11R,1X2*%\nD10*\nX1000000Y0D02*\nX2000000Y3000000D01*\n"
+            + "G75*\nG03X1000000Y0I-500000J-1500000D01*\n"
+            + "D11*\nX5000000Y1000000D03*\nM02*\n";
+        ["%IR90*%", "%MIA1*%\n%IR270*%", "%ASAYBX*%\n%MIB1*%", "%IPNEG*%\n%OFA1B2*%", "%SFA2B2*%\n%IR180*%"]
+            .forEach(transform => {
+                let ctx = execute("%FSLAX26Y26*%\n%MOMM*%\n" + transform + "\n" + body);
+                let result = fl.flattenPrimitives(ctx.primitives, ctx.imageTransform);
+                assertSameObjects(ctx.primitives[0].objects, objects(result));
+            });
+        let ctx = execute("%FSLAX26Y26*%\n%MOMM*%\n%SFA1B2*%\n" + body);
+        assert.throws(() => fl.flattenPrimitives(ctx.primitives, ctx.imageTransform));
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as pr from '../primitives';
+import * as fc from '../formatconverter';
+import {GerberParser} from '../grbparser';
+import {DiagnosticCode, DiagnosticReport} from '../diagnostics';
+
+const inches = "%FSLAX24Y24*%\n%MOIN*%\n"
+    + "%AMBOX*21,1,$1,0.1,0,0,0*%\n"
+    + "%ADD10C,0.01*%\n%ADD11BOX,0.2*%\n"
+    + "D10*\nX10000Y0D02*\nX20000Y5000D01*\n"
+    + "G75*\nG03X10000Y0I-5000J0D01*\n"
+    + "D11*\nX5000Y5000D03*\n"
+    + "%SRX2Y1I0.5J0*%\nD10*\nX0Y0D03*\n%SR*%\n"
+    + "M02*\n";
+
+function execute(content:string):pr.GerberState {
+    let parser = new GerberParser();
+    parser.parseBlock(content);
+    let ctx = new pr.GerberState();
+    parser.execute(ctx);
+    return ctx;
+}
+
+describe("Format converter tests", () => {
+    it('Inches to millimeters', () => {
+        let diagnostics = new DiagnosticReport();
+        let result = fc.FormatConverter.ConvertFormat(
+            inches, pr.CoordinateUnits.MILIMETERS, 4, 6, 1E-6, diagnostics);
+        assert.ok(result.indexOf("%FSLAX46Y46*%") >= 0);
+        assert.ok(result.indexOf("%MOMM*%") > 0);
+        assert.ok(result.indexOf("%ADD10C,0.254*%") > 0);
+        assert.ok(result.indexOf("X25400000Y0D02*") > 0);
+        assert.ok(result.indexOf("X50800000Y12700000D01*") > 0);
+        assert.ok(result.indexOf("I-12700000J0D01*") > 0);
+        assert.ok(result.indexOf("%SRX2Y1I12.7J0.0*%") > 0);
+        // The macro parameter is scaled in the macro, not in the aperture.
+        assert.ok(result.indexOf("21,1,($1)x25.4,2.54,0.0,0.0,0*%") > 0);
+        assert.ok(result.indexOf("%ADD11BOX,0.2*%") > 0);
+        assert.equal(diagnostics.diagnostics.length, 0);
+        let g70 = fc.FormatConverter.ConvertFormat(
+            inches.replace("%MOIN*%\n", "G70*\n"), pr.CoordinateUnits.MILIMETERS, 4, 6);
+        assert.equal(g70, result);
+
+        let original = execute(inches).primitives;
+        let converted = execute(result).primitives;
+        assert.equal(converted.length, original.length);
+        original.forEach((p, idx) => {
+            let expected = p.bounds;
+            let actual = converted[idx].bounds;
+            assert.ok(Math.abs(expected.min.x * 25.4 - actual.min.x) < 1E-6);
+            assert.ok(Math.abs(expected.min.y * 25.4 - actual.min.y) < 1E-6);
+            assert.ok(Math.abs(expected.max.x * 25.4 - actual.max.x) < 1E-6);
+            assert.ok(Math.abs(expected.max.y * 25.4 - actual.max.y) < 1E-6);
+        });
+    });
+    it('Report precision loss', () => {
+        let converter = new fc.FormatConverter();
+        converter.units = pr.CoordinateUnits.INCHES;
+        converter.integerDigits = 2;
+        converter.decimalDigits = 4;
+        let mm = "%FSLAX46Y46*%\n%MOMM*%\n%ADD10C,0.1*%\nD10*\nX1000000Y0D02*\nX2000000Y0D01*\nM02*\n";
+        let result = converter.convert(mm);
+        assert.ok(result.indexOf("X394Y0D02*") > 0);
+        assert.ok(converter.maxError > 1E-5);
+        let warnings = converter.diagnostics.warnings;
+        assert.equal(warnings.length, 2);
+        assert.equal(warnings[0].code, DiagnosticCode.PRECISION_LOSS);
+        assert.equal(warnings[0].line, 5);
+        // Nothing is reported below the threshold.
+        converter = new fc.FormatConverter();
+        converter.units = pr.CoordinateUnits.INCHES;
+        converter.threshold = 1E-4;
+        converter.convert(mm);
+        assert.equal(converter.diagnostics.warnings.length, 0);
+        assert.throws(() => fc.FormatConverter.ConvertFormat(
+            "%FSLAX24Y24*%\nX0Y0D02*\nM02*\n", pr.CoordinateUnits.MILIMETERS, 4, 6));
+    });
+});
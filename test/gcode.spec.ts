@@ -0,0 +1,103 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as gc from '../gcode';
+import * as cv from '../converters';
+import {Point} from '../point';
+
+const copper = "%FSLAX26Y26*%\n%MOMM*%\n%ADD10C,0.5*%\n%ADD11C,1.6*%\n"
+    + "D11*\nX0Y0D03*\nX10000000Y0D03*\n"
+    + "D10*\nX0Y0D02*\nX10000000Y0D01*\n"
+    + "M02*\n";
+
+const drill = "M48\nMETRIC,TZ\nT1C1.0\nT2C0.8\n%\nT1\nX0.0Y0.0\nT2\nX10.0Y0.0\nX5.0Y5.0\nM30\n";
+
+const outline = "%FSLAX26Y26*%\n%MOMM*%\n%ADD10C,0.1*%\nD10*\n"
+    + "X-5000000Y-5000000D02*\nX15000000Y-5000000D01*\nX15000000Y10000000D01*\n"
+    + "X-5000000Y10000000D01*\nX-5000000Y-5000000D01*\nM02*\n";
+
+interface Move {
+    readonly from:Point;
+    readonly to:Point;
+    readonly z:number;
+    readonly tool:number;
+}
+
+/**
+ * Follows the G-code and collects the moves below the surface.
+ */
+function simulate(gcode:string):Array<Move> {
+    let position = new Point(0, 0);
+    let z = 0;
+    let tool = 0;
+    let result:Array<Move> = [];
+    gcode.split("\n").forEach(line => {
+        let toolMatch = /^T(\d+)/.exec(line);
+        if (toolMatch) {
+            tool = Number.parseInt(toolMatch[1]);
+        }
+        let value = (axis:string, current:number) => {
+            let match = new RegExp(axis + "(-?[\\d.]+)").exec(line);
+            return (match) ? Number.parseFloat(match[1]) : current;
+        };
+        if (!/^G0[01]/.test(line)) {
+            return;
+        }
+        let to = new Point(value("X", position.x), value("Y", position.y));
+        let newZ = value("Z", z);
+        let cuts = newZ < 0 && (newZ < z || to.distance(position) > 0);
+        if (cuts) {
+            assert.ok(line.startsWith("G01"), `Rapid move below the surface: ${line}`);
+            result.push({from:position, to:to, z:newZ, tool:tool});
+        }
+        position = to;
+        z = newZ;
+    });
+    return result;
+}
+
+describe("G-code tests", () => {
+    it('Wait to init', () => cv.Init);
+    it('Drill hits', () => {
+        let router = new gc.IsolationRouter();
+        let paths = router.drill(cv.PrimitiveConverter.ExcellonToPrimitives(drill));
+        // The smaller drill first.
+        assert.deepEqual(paths.map(p => p.toolDiameter), [0.8, 0.8, 1.0]);
+        let gcode = router.write();
+        assert.ok(gcode.startsWith("(Generated by grbparser"));
+        assert.ok(gcode.indexOf("G21\nG90\n") > 0);
+        assert.ok(gcode.indexOf("T1 M06 (Tool 0.8)\n") > 0);
+        assert.ok(gcode.indexOf("T2 M06 (Tool 1.0)\n") > 0);
+        assert.ok(gcode.endsWith("M05\nM30\n"));
+        let plunges = simulate(gcode).filter(m => m.z == -1.8);
+        assert.deepEqual(
+            plunges.map(m => `${m.tool} ${m.to}`),
+            ["1 (10.0, 0.0)", "1 (5.0, 5.0)", "2 (0.0, 0.0)"]);
+    });
+    it('Isolation and cutout', () => {
+        let router = new gc.IsolationRouter();
+        router.passes = 2;
+        let moves = simulate(router.generate(copper, drill, outline));
+        let isolation = moves.filter(m => m.z == -0.1);
+        let maxX = Math.max(...isolation.map(m => m.to.x));
+        let minY = Math.min(...isolation.map(m => m.to.y));
+        // The second pass is half of the tool further away from the pads.
+        assert.ok(Math.abs(maxX - (10.8 + 0.1 + 0.1)) < 0.01);
+        assert.ok(Math.abs(minY - (-0.8 - 0.1 - 0.1)) < 0.01);
+        // Tools 2 and 3 are the drills.
+        let cutout = moves.filter(m => m.tool == 4);
+        assert.ok(Math.abs(Math.max(...cutout.map(m => m.to.x)) - (15 - 0.05 + 0.5)) < 0.01);
+        // Four tabs lift the tool in the last pass.
+        let cuts = cutout.filter(m => m.from.distance(m.to) > 0);
+        let tabs = cuts.filter((m, idx) => idx > 0 && m.z == -1.2 && cuts[idx - 1].z == -1.8);
+        assert.equal(tabs.length, 4);
+        assert.equal(Math.min(...cutout.map(m => m.z)), -1.8);
+    });
+});
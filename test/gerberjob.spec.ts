@@ -0,0 +1,82 @@
+/**
+ * Gerber Parsing Library
+ * 
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ * 
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as gj from '../gerberjob';
+import * as ut from '../gerberutils';
+
+const jobFile = `{
+  "Header": {
+    "GenerationSoftware": {"Vendor": "KiCad", "Application": "Pcbnew", "Version": "5.1"},
+    "CreationDate": "2018-10-18T10:00:00+00:00"
+  },
+  "GeneralSpecs": {
+    "ProjectId": {"Name": "demo", "GUID": "00000000", "Revision": "1"},
+    "Size": {"X": 100.0, "Y": 80.0},
+    "LayerNumber": 2,
+    "BoardThickness": 1.6,
+    "Finish": "ENIG"
+  },
+  "FilesAttributes": [
+    {"Path": "demo-F_Cu.gbr", "FileFunction": "Copper,L1,Top", "FilePolarity": "Positive"},
+    {"Path": "demo-B_Cu.gbr", "FileFunction": "Copper,L2,Bot", "FilePolarity": "Positive"},
+    {"Path": "demo-F_Mask.gbr", "FileFunction": "SolderMask,Top", "FilePolarity": "Negative"},
+    {"Path": "demo-B_Mask.gbr", "FileFunction": "Soldermask,Bot", "FilePolarity": "Negative"},
+    {"Path": "demo-Edge_Cuts.gbr", "FileFunction": "Profile,NP", "FilePolarity": "Positive"}
+  ],
+  "MaterialStackup": [
+    {"Type": "SolderMask", "Thickness": 0.01, "Color": "Green", "Name": "Top Solder Mask"},
+    {"Type": "Copper", "Thickness": 0.035, "Name": "F.Cu"},
+    {"Type": "Dielectric", "Thickness": 1.51, "Material": "FR4", "Name": "F.Cu/B.Cu", "DielectricConstant": 4.5},
+    {"Type": "Copper", "Thickness": 0.035, "Name": "B.Cu"},
+    {"Type": "SolderMask", "Thickness": 0.01, "Color": "Green", "Name": "Bottom Solder Mask"}
+  ]
+}`;
+
+describe("Gerber job file tests", () => {
+    it('Parse stackup', () => {
+        let stackup = gj.GerberJobParser.parse(jobFile);
+        assert.equal(stackup.name, "demo");
+        assert.equal(stackup.boardThickness, 1.6);
+        assert.equal(stackup.layerCount, 2);
+        assert.equal(stackup.finish, "ENIG");
+        assert.equal(stackup.width, 100);
+        assert.equal(stackup.layers.length, 5);
+        assert.ok(Math.abs(stackup.stackupThickness - 1.6) < 1E-9);
+        let copper = stackup.copperLayers;
+        assert.equal(copper.length, 2);
+        assert.ok(Math.abs(copper[0].copperWeight - 1) < 1E-9);
+        assert.equal(copper[0].files[0].path, "demo-F_Cu.gbr");
+        assert.equal(copper[1].files[0].path, "demo-B_Cu.gbr");
+        assert.equal(stackup.layers[0].files[0].path, "demo-F_Mask.gbr");
+        assert.equal(stackup.layers[4].files[0].path, "demo-B_Mask.gbr");
+        assert.equal(stackup.layers[2].dielectricConstant, 4.5);
+        let edge = stackup.getFile("gerbers/demo-edge_cuts.gbr");
+        assert.equal(edge.layer, ut.BoardLayer.Outline);
+        assert.equal(edge.layerInfo.source, ut.LayerInfoSource.JobFile);
+    });
+    it('Stackup from file functions', () => {
+        let stackup = gj.GerberJobParser.parse(`{
+            "FilesAttributes": [
+                {"Path": "b.gbr", "FileFunction": "Copper,L4,Bot"},
+                {"Path": "t.gbr", "FileFunction": "Copper,L1,Top"},
+                {"Path": "tl.gbr", "FileFunction": "Legend,Top"}
+            ]}`);
+        assert.deepEqual(
+            stackup.layers.map(l => l.type),
+            ["Legend", "Copper", "Copper", "Copper", "Copper"]);
+        assert.equal(stackup.layers[0].files[0].path, "tl.gbr");
+        assert.equal(stackup.layers[4].files[0].path, "b.gbr");
+        assert.equal(stackup.stackupThickness, undefined);
+    });
+    it('Invalid job file', () => {
+        assert.throws(() => gj.GerberJobParser.parse("{"));
+        assert.throws(() => gj.GerberJobParser.parse(`{"FilesAttributes": {}}`));
+    });
+});
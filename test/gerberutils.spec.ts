@@ -0,0 +1,69 @@
+/**
+ * Gerber Parsing Library
+ * 
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ * 
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as ut from '../gerberutils';
+
+describe("GerberUtils tests", () => {
+    it('Layer from file function', () => {
+        let info = ut.GerberUtils.determineLayerInfo(
+            "renamed.xyz",
+            "%FSLAX46Y46*%\n%TF.FileFunction,Copper,L2,Inr,Plane*%\n%TF.FilePolarity,Positive*%\n%TF.SameCoordinates,Panel1*%\n");
+        assert.equal(info.side, ut.BoardSide.Internal);
+        assert.equal(info.layer, ut.BoardLayer.Copper);
+        assert.equal(info.copperIndex, 2);
+        assert.equal(info.polarity, ut.FilePolarity.Positive);
+        assert.equal(info.sameCoordinates, "Panel1");
+        assert.equal(info.source, ut.LayerInfoSource.FileAttributes);
+        assert.equal(info.confidence, 1);
+    });
+    it('Layer from comment attributes', () => {
+        let info = ut.GerberUtils.determineLayerInfo(
+            "board.gtl",
+            "G04 #@! TF.FileFunction,Soldermask,Bot*\nG04 #@! TF.FilePolarity,Negative*\n%FSLAX46Y46*%\n");
+        assert.equal(info.side, ut.BoardSide.Bottom);
+        assert.equal(info.layer, ut.BoardLayer.SolderMask);
+        assert.equal(info.copperIndex, undefined);
+        assert.equal(info.polarity, ut.FilePolarity.Negative);
+        assert.equal(info.sameCoordinates, undefined);
+        info = ut.GerberUtils.determineLayerInfo(
+            "drill.txt",
+            "M48\n; #@! TF.FileFunction,NonPlated,1,4,NPTH\n; #@! TF.SameCoordinates\nMETRIC\n");
+        assert.equal(info.layer, ut.BoardLayer.Drill);
+        assert.equal(info.side, ut.BoardSide.Both);
+        assert.equal(info.sameCoordinates, "");
+    });
+    it('Drill plating', () => {
+        let info = ut.GerberUtils.determineLayerInfo(
+            "drill.txt", "M48\n; #@! TF.FileFunction,Plated,1,4,PTH\nMETRIC\n");
+        assert.equal(info.plated, true);
+        assert.deepEqual(info.drillSpan, [1, 4]);
+        info = ut.GerberUtils.determineLayerInfo(
+            "drill.txt", "M48\n; #@! TF.FileFunction,NonPlated,1,4,NPTH\nMETRIC\n");
+        assert.equal(info.plated, false);
+        assert.equal(info.drillSpan, undefined);
+        info = ut.GerberUtils.determineLayerInfo("board.drl", "M48\n;TYPE=NON_PLATED\nMETRIC\n");
+        assert.equal(info.plated, false);
+        info = ut.GerberUtils.determineLayerInfo("board-NPTH.drl", "M48\nMETRIC\n");
+        assert.equal(info.plated, false);
+        info = ut.GerberUtils.determineLayerInfo("board.drl", "M48\nMETRIC\n");
+        assert.equal(info.plated, undefined);
+    });
+    it('Fall back to file name', () => {
+        let info = ut.GerberUtils.determineLayerInfo("board.gtl", "%FSLAX46Y46*%\n");
+        assert.equal(info.side, ut.BoardSide.Top);
+        assert.equal(info.layer, ut.BoardLayer.Copper);
+        assert.equal(info.polarity, ut.FilePolarity.Unknown);
+        assert.equal(info.source, ut.LayerInfoSource.FileName);
+        assert.ok(info.confidence < 1);
+        info = ut.GerberUtils.determineLayerInfo("readme", "%TF.FileFunction,Unknown*%\n");
+        assert.equal(info.source, ut.LayerInfoSource.None);
+        assert.equal(info.confidence, 0);
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as pr from '../primitives';
+import * as gw from '../gerberwriter';
+import {GerberParser} from '../grbparser';
+import {M02Command} from '../commands';
+import {Init} from '../converters';
+
+const copper = "%TF.FileFunction,Copper,L1,Top*%\n%FSLAX26Y26*%\n%MOMM*%\n"
+    + "%ADD10C,0.5*%\n%ADD11R,1X2*%\n%ADD12R,1X2*%\n"
+    + "D10*\nX0Y0D02*\nX10000000Y0D01*\n"
+    + "G75*\nG02X0Y-10000000I-10000000J0D01*\n"
+    + "G01*\nD11*\nX5000000Y5000000D03*\nD12*\nX6000000Y5000000D03*\n"
+    + "%LPC*%\n%LR90*%\nD11*\nX7000000Y5000000D03*\n%LPD*%\n%LR0*%\n"
+    + "%TO.N,GND*%\n"
+    + "G36*\nX20000000Y0D02*\nX30000000Y0D01*\n"
+    + "G03X20000000Y0I-5000000J0D01*\nG37*\n"
+    + "%TD*%\n"
+    + "%SRX2Y3I5J5*%\nD10*\nX40000000Y0D03*\n%SR*%\n"
+    + "M02*\n";
+
+function execute(content:string):pr.GerberState {
+    let parser = new GerberParser();
+    parser.parseBlock(content);
+    let ctx = new pr.GerberState();
+    parser.execute(ctx);
+    if (!ctx.isDone) {
+        ctx.endFile(new M02Command("M02"));
+    }
+    return ctx;
+}
+
+type SimplePrimitive = pr.Line | pr.Circle | pr.Arc | pr.Flash | pr.Region;
+
+function flatten(primitives:Array<pr.GraphicsPrimitive>):Array<SimplePrimitive> {
+    let result:Array<SimplePrimitive> = [];
+    primitives.forEach(p => {
+        if (p instanceof pr.Repeat) {
+            result.push(...flatten(p.primitives));
+        } else {
+            result.push(p);
+        }
+    });
+    return result;
+}
+
+function assertSameBounds(expected:pr.Bounds, actual:pr.Bounds, tolerance:number) {
+    assert.ok(Math.abs(expected.min.x - actual.min.x) < tolerance);
+    assert.ok(Math.abs(expected.min.y - actual.min.y) < tolerance);
+    assert.ok(Math.abs(expected.max.x - actual.max.x) < tolerance);
+    assert.ok(Math.abs(expected.max.y - actual.max.y) < tolerance);
+}
+
+describe("Gerber writer tests", () => {
+    it('Wait to init', () => Init);
+    it('Round trip', () => {
+        let original = execute(copper);
+        let output = gw.GerberWriter.GerberToX2(copper);
+        let result = execute(output);
+        assert.equal(result.coordinateUnits, pr.CoordinateUnits.MILIMETERS);
+        assert.deepEqual(result.fileAttributes[".FileFunction"].fields, ["Copper", "L1", "Top"]);
+        assert.ok(result.fileAttributes[".GenerationSoftware"]);
+        let expected = flatten(original.primitives);
+        let actual = flatten(result.primitives);
+        assert.equal(actual.length, expected.length);
+        expected.forEach((p, idx) => {
+            assert.equal(actual[idx].constructor, p.constructor);
+            // Flashes print the aperture number, it is not kept.
+            if (p instanceof pr.Flash) {
+                assert.equal((actual[idx] as pr.Flash).center.toString(), p.center.toString());
+            } else {
+                assert.equal(actual[idx].toString(), p.toString());
+            }
+            assert.equal(actual[idx].state.polarity, p.state.polarity);
+            assertSameBounds(p.bounds, actual[idx].bounds, 1E-6);
+        });
+        let region = actual.find(p => p instanceof pr.Region);
+        assert.equal(region.attributes[".N"].value, "GND");
+        assert.equal(actual[actual.length - 1].attributes[".N"], undefined);
+    });
+    it('Deduplicate apertures', () => {
+        let output = gw.GerberWriter.GerberToX2(copper);
+        // The two identical rectangles and the rotated one share a size.
+        assert.deepEqual(output.match(/%ADD\d+[^*]*\*%/g), ["%ADD10C,0.5*%", "%ADD11R,1.0X2.0*%", "%ADD12R,2.0X1.0*%"]);
+        assert.equal(output.match(/%SRX2Y3I5.0J5.0\*%/g).length, 1);
+        assert.ok(output.indexOf("%LR") < 0);
+        assert.ok(output.indexOf("%LPC*%") > 0);
+        assert.ok(output.endsWith("M02*\n"));
+    });
+    it('Gerber X1', () => {
+        let blocks = "%ABD13*%\nD10*\nX0Y0D02*\nX2000000Y0D01*\nD11*\nX2000000Y1000000D03*\n%AB*%\n"
+            + "D13*\n%LMX*%\n%LR90*%\n%LS2*%\nX20000000Y0D03*\n";
+        let output = gw.GerberWriter.GerberToX1(copper.replace("M02*\n", blocks + "M02*\n"));
+        assert.equal(output.match(/%(TF|TA|TO|TD|AB|SR|LM|LR|LS)/), undefined);
+        assert.ok(output.indexOf("%ADD10C,0.5*%") > 0);
+        // The block flash is scaled into a new aperture.
+        assert.ok(output.indexOf("%ADD13C,1.0*%") > 0);
+        assert.ok(output.indexOf("%ADD14R,4.0X2.0*%") > 0);
+        assert.ok(output.indexOf("D14*\nX18000000Y-4000000D03*") > 0);
+        // Six copies of the repeated flash.
+        assert.equal(output.match(/^X4\d{7}Y\d+D03\*$/mg).length, 6);
+        let result = execute(output);
+        assert.equal(result.primitives.length, 14);
+    });
+    it('Convert units', () => {
+        let inches = "%FSLAX24Y24*%\n%MOIN*%\n%ADD10C,0.01*%\nD10*\nX10000Y0D02*\nX20000Y0D01*\nM02*\n";
+        let output = gw.GerberWriter.GerberToX2(inches, pr.CoordinateUnits.MILIMETERS);
+        assert.ok(output.indexOf("%MOMM*%") > 0);
+        assert.ok(output.indexOf("%ADD10C,0.254*%") > 0);
+        assert.ok(output.indexOf("X25400000Y0D02*") > 0);
+        assert.ok(output.indexOf("X50800000Y0D01*") > 0);
+        let writer = new gw.GerberWriter();
+        writer.integerDigits = 1;
+        assert.throws(() => writer.write(execute(inches).primitives, pr.CoordinateUnits.INCHES));
+    });
+});
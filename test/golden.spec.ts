@@ -0,0 +1,156 @@
+/**
+ * Gerber Parsing Library
+ * 
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ * 
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as cv from '../converters';
+import * as gp from '../grbparser';
+import * as ic from '../imagecompare';
+import * as pr from '../primitives';
+import * as rs from '../rasterizer';
+import {M02Command} from '../commands';
+import {decodePng} from '../png';
+
+const folder = "test/Gerber_File_Format_Examples";
+
+interface GoldenExample {
+    gerber:string;
+    reference:string;
+    // Resolution of the reference and the pixel position of the Gerber
+    // origin in it, measured from the reference.
+    dpi:number;
+    origin:{x:number, y:number};
+    // Minimum intersection over union of the rendered and reference images.
+    minIoU:number;
+    // Pixel tolerance for edges, the references are screenshots of viewers.
+    tolerance?:number;
+    // Gray level of the dark reference pixels and minimum coverage of the
+    // rendered pixels. Viewers draw lines thinner than a pixel as light
+    // gray single pixel lines.
+    threshold?:number;
+    coverage?:number;
+}
+
+// 4-6-4_Nested_blocks.gbr is not compared, the block flashes in the file are
+// 0.1um apart while its reference shows them spread over the image.
+const examples:Array<GoldenExample> = [
+    {
+        gerber:"2-13-1_Two_square_boxes.gbr",
+        reference:"2-13-1_Two_square_boxes.png",
+        dpi:1157.25,
+        origin:{x:19.2, y:245.8},
+        minIoU:0.8,
+        tolerance:1,
+        threshold:200,
+        coverage:0.1
+    },
+    {
+        gerber:"2-13-2_Polarities_and_Apertures.gbr",
+        reference:"2-13-2_Polarities_and_Apertures.png",
+        dpi:116.48,
+        origin:{x:15.7, y:466.4},
+        minIoU:0.96,
+        tolerance:1
+    },
+    {
+        gerber:"2-13-3_A_drill_file.gbr",
+        reference:"2-13-3_A_drill_file.png",
+        dpi:502.04,
+        origin:{x:143.5, y:224.3},
+        minIoU:0.98,
+        tolerance:1
+    },
+    {
+        gerber:"4-11-6_Block_with_different_orientations.gbr",
+        reference:"4-11-6_Block_with_different_orientations.png",
+        dpi:1131.21,
+        origin:{x:165.9, y:490.2},
+        minIoU:0.99,
+        tolerance:1
+    },
+    {
+        gerber:"SMD_prim_20.gbr",
+        reference:"SMD_prim_20.png",
+        dpi:1390.33,
+        origin:{x:142.5, y:543.9},
+        minIoU:0.99,
+        tolerance:1
+    },
+    {
+        gerber:"SMD_prim_21.gbr",
+        reference:"SMD_prim_21.png",
+        dpi:1390.33,
+        origin:{x:142.5, y:543.9},
+        minIoU:0.99,
+        tolerance:1
+    },
+    {
+        gerber:"sample_macro.gbr",
+        reference:"sample_macro.png",
+        dpi:1583.54,
+        origin:{x:50.5, y:823.4},
+        minIoU:0.98,
+        tolerance:1
+    },
+];
+
+/**
+ * Renders the part of the image under the pixel rectangle of the reference.
+ */
+function renderMask(content:string, example:GoldenExample, rect:ic.PixelRect):ic.ImageMask {
+    let parser = new gp.GerberParser();
+    parser.parseBlock(content);
+    let ctx = new pr.GerberState();
+    parser.execute(ctx);
+    if (!ctx.isDone) {
+        ctx.endFile(new M02Command("M02"));
+    }
+    let image = cv.PrimitivesToPolygons(ctx.primitives);
+    let pixelsPerUnit = (ctx.coordinateUnits == pr.CoordinateUnits.INCHES) ? example.dpi : example.dpi / 25.4;
+    let minx = (rect.x - example.origin.x) / pixelsPerUnit;
+    let maxy = (example.origin.y - rect.y) / pixelsPerUnit;
+    let bounds = {
+        minx:minx,
+        miny:maxy - rect.height / pixelsPerUnit,
+        maxx:minx + rect.width / pixelsPerUnit,
+        maxy:maxy
+    };
+    let rasterizer = new rs.Rasterizer(bounds, example.dpi, ctx.coordinateUnits);
+    let mask = ic.ImageMask.fromCoverage(
+        rasterizer.coverage(image.solids), rasterizer.width, rasterizer.height, example.coverage);
+    // Rounding can add a pixel column or row.
+    return mask.crop({x:0, y:0, width:rect.width, height:rect.height});
+}
+
+describe("Golden image tests", () => {
+    it('Wait to init', () => cv.Init);
+    examples.forEach(example => {
+        it(`render ${example.gerber}`, function () {
+            let reference = decodePng(new Uint8Array(fs.readFileSync(folder + "/" + example.reference)));
+            let expected = ic.ImageMask.fromImage(reference, example.threshold);
+            // Only the empty margin of the reference is cropped, the render
+            // is not scaled or moved to fit it.
+            let rect = expected.bounds;
+            expected = expected.crop(rect);
+            let actual = renderMask(
+                fs.readFileSync(folder + "/" + example.gerber).toString(), example, rect);
+            let comparison = ic.compareMasks(expected, actual, example.tolerance);
+            let diffFileName = `${folder}/${example.gerber}.diff.png`;
+            if (comparison.iou >= example.minIoU) {
+                if (fs.existsSync(diffFileName)) {
+                    fs.unlinkSync(diffFileName);
+                }
+                return;
+            }
+            fs.writeFileSync(diffFileName, Buffer.from(comparison.diffImage().toPng().buffer as ArrayBuffer));
+            assert.fail(
+                `IoU ${comparison.iou.toFixed(3)} is below ${example.minIoU}, see ${diffFileName}`);
+        }).timeout(60000);
+    });
+});
@@ -12,6 +12,8 @@ import * as fs from 'fs';
 import * as gp from '../grbparser';
 import * as pr from '../primitives';
 import * as ps from '../polygonSet';
+import {Point} from '../point';
+import {DiagnosticCode, DiagnosticSeverity} from '../diagnostics';
 
 describe("GerberParser tests", () => {
     it('Wait for Clipper', () => ps.waitClipperLoad());
@@ -113,7 +115,179 @@ G04 Create aperture*
     });
     it('Parsing error', () => {
         let parser = new gp.GerberParser();
-        assert.throws(() => parser.parseBlock("G77*"), "Invalid command");
+        let report = parser.parseBlock("G77*");
+        assert.equal(report.errors.length, 1);
+        assert.equal(parser.parsedCommands.length, 0);
+        assert.throws(() => parser.checkErrors(), "Invalid command");
+        try {
+            parser.checkErrors();
+        } catch (e) {
+            assert.equal(e.line, 1);
+            assert.equal(e.diagnostics, report);
+        }
+    });
+    it('Parsing diagnostics', () => {
+        let parser = new gp.GerberParser();
+        let report = parser.parseBlock("%FSLAX26Y26*%\nG04 comment*\nG77*\nG78*\n%MOMM*%\n");
+        assert.equal(report, parser.diagnostics);
+        assert.ok(report.hasErrors);
+        // Parsing continues after an invalid command.
+        assert.deepEqual(report.errors.map(e => e.line), [3, 4]);
+        assert.equal(parser.parsedCommands.length, 3);
+        let error = report.errors[0];
+        assert.equal(error.severity, DiagnosticSeverity.ERROR);
+        assert.equal(error.code, DiagnosticCode.INVALID_COMMAND);
+        assert.equal(error.line, 3);
+        assert.equal(error.command, "G77");
+        assert.ok(error.suggestion);
+        assert.equal(error.toString().indexOf("line 3 error [invalid-command]"), 0);
+    });
+    it('Parsing warnings', () => {
+        let parser = new gp.GerberParser();
+        let report = parser.parseBlock("%FSLAX26Y26*%\n%FSLAX24Y24*%\nG04 comment%MOMM*%\n");
+        assert.ok(!report.hasErrors);
+        assert.deepEqual(
+            report.warnings.map(w => [w.code, w.line]),
+            [[DiagnosticCode.FORMAT_REDEFINED, 2], [DiagnosticCode.UNTERMINATED_COMMAND, 3]]);
+        assert.equal(report.warnings[1].command, "G04 comment");
+    });
+    it('Execute diagnostics', () => {
+        let parser = new gp.GerberParser();
+        parser.parseBlock(`%FSLAX26Y26*%
+%MOMM*%
+%ADD10C,0.1*%
+%ADD10C,0.2*%
+D10*
+X0Y0D03*
+M02*`);
+        let ctx = new pr.GerberState();
+        let report = parser.execute(ctx);
+        assert.equal(report, parser.diagnostics);
+        assert.equal(report.warnings.length, 1);
+        let warning = report.warnings[0];
+        assert.equal(warning.code, DiagnosticCode.APERTURE_REDEFINED);
+        assert.equal(warning.line, 4);
+        assert.equal(warning.command, "ADD10C,0.2*");
+
+        parser = new gp.GerberParser();
+        parser.parseBlock("%FSLAX26Y26*%\n%MOMM*%\nX0Y0D03*\nM02*");
+        ctx = new pr.GerberState();
+        report = parser.execute(ctx);
+        assert.equal(report.errors.length, 1);
+        assert.equal(report.errors[0].code, DiagnosticCode.EXECUTE_ERROR);
+        assert.equal(report.errors[0].line, 3);
+        // Execution continues after the failed command.
+        assert.ok(ctx.isDone);
+        assert.throws(() => parser.checkErrors());
+    });
+    it('Recovery mode', () => {
+        let content = `%FSLAX26Y26*%
+%MOMM*%
+This line is garbage*
+%ADD10C,0.1*%
+d10*
+X0Y0D03*
+X1000000Y0D01*
+G36*
+X0Y1000000D02*
+X1000000Y1000000D01*
+X1000000Y2000000D01*
+X2000000Y2`;
+        let parser = new gp.GerberParser();
+        assert.ok(parser.parseBlock(content).hasErrors);
+
+        parser = new gp.GerberParser();
+        parser.recoveryMode = true;
+        parser.parseBlock(content);
+        let ctx = new pr.GerberState();
+        let report = parser.execute(ctx);
+        assert.ok(!report.hasErrors);
+        assert.deepEqual(
+            report.warnings.map(w => [w.code, w.line]),
+            [
+                [DiagnosticCode.COMMAND_SKIPPED, 3],
+                [DiagnosticCode.COMMAND_REPAIRED, 5],
+                [DiagnosticCode.TRUNCATED_COMMAND, 12],
+                [DiagnosticCode.MISSING_END, 12],
+            ]);
+        assert.equal(report.warnings[1].suggestion, "Replace the command with 'D10'");
+        assert.ok(ctx.isDone);
+        let primitives = ctx.primitives;
+        assert.equal(primitives.length, 3);
+        assert.ok(primitives[0] instanceof pr.Flash);
+        assert.ok(primitives[1] instanceof pr.Line);
+        assert.ok(primitives[2] instanceof pr.Region);
+    });
+    it('Recovery mode execute errors', () => {
+        let parser = new gp.GerberParser();
+        parser.recoveryMode = true;
+        parser.parseBlock(`%FSLAX26Y26*%
+%MOMM*%
+X0Y0D03*
+%ADD10C,0.1*%
+D10*
+X0Y0D03*
+M02*
+X1000000Y0D03*`);
+        let ctx = new pr.GerberState();
+        let report = parser.execute(ctx);
+        assert.equal(report.warnings.length, 1);
+        assert.equal(report.warnings[0].code, DiagnosticCode.COMMAND_SKIPPED);
+        assert.equal(report.warnings[0].line, 3);
+        assert.equal(ctx.primitives.length, 1);
+    });
+    it('Image transform', () => {
+        let parser = new gp.GerberParser();
+        parser.parseBlock(`%FSLAX23Y23*%
+%MOIN*%
+%ASAYBX*%
+%MIA1B0*%
+%SFA2B1*%
+%IR90*%
+%OFA1B2*%
+%INTest*%
+%LNLevel*%
+%ADD10C,0.010*%
+D10*
+X1000Y0D03*
+M02*`);
+        let ctx = new pr.GerberState();
+        parser.execute(ctx);
+        assert.equal(ctx.imageName, "Test");
+        assert.equal(ctx.levelName, "Level");
+        // AYBX maps (1, 0) to (0, 1), which the mirror, scale and rotation
+        // move to (-1, 0) before the offset.
+        let point = ctx.imageTransform.transformPoint(new Point(1, 0));
+        assert.ok(point.distance(new Point(0, 2)) < 1E-9);
+        let primitives = ctx.primitives;
+        assert.equal(primitives.length, 1);
+        assert.ok(primitives[0] instanceof pr.Repeat);
+        assert.ok(primitives[0].primitives[0] instanceof pr.Flash);
+        let bounds = primitives[0].bounds;
+        assert.ok(Math.abs((bounds.min.x + bounds.max.x) / 2) < 1E-9);
+        assert.ok(Math.abs((bounds.min.y + bounds.max.y) / 2 - 2) < 1E-9);
+        // The circle is scaled along the A axis, which is rotated to Y.
+        assert.ok(Math.abs(bounds.width - 0.01) < 1E-3);
+        assert.ok(Math.abs(bounds.height - 0.02) < 1E-3);
+    });
+    it('Negative image polarity', () => {
+        let parser = new gp.GerberParser();
+        parser.parseBlock(`%FSLAX23Y23*%
+%MOIN*%
+%IPNEG*%
+%ADD10C,0.050*%
+X-1000Y0D02*
+D10*
+X1000Y0D01*
+M02*`);
+        let ctx = new pr.GerberState();
+        parser.execute(ctx);
+        let objects = ctx.primitives[0].objects;
+        assert.equal(objects.length, 2);
+        assert.equal(objects[0].polarity, pr.ObjectPolarity.DARK);
+        assert.equal(objects[1].polarity, pr.ObjectPolarity.LIGHT);
+        let background = ps.polySetBounds(objects[0].polySet);
+        assert.ok(Math.abs(background.width - 2.05) < 1E-3);
     });
     it('parse and reconstruct gerber files', () => {
         let folder = "test/Gerber_File_Format_Examples";
@@ -149,4 +323,46 @@ G04 Create aperture*
                 parser.execute(ctx);
             });
     });
+    it('execute attributes', () => {
+        let parser = new gp.GerberParser();
+        parser.parseBlock(`%FSLAX26Y26*%
+%MOMM*%
+%TF.FileFunction,Copper,L1,Top*%
+%TA.AperFunction,ComponentPad*%
+%ADD10C,1*%
+%TA.AperFunction,Conductor*%
+%ADD11C,0.2*%
+%TO.N,GND*%
+%TO.P,U1,1*%
+D10*
+X0Y0D03*
+%TD.P*%
+D11*
+X1000000Y0D01*
+%TD*%
+G36*
+X0Y0D02*
+X1000000Y0D01*
+X1000000Y1000000D01*
+G37*
+M02*`);
+        let ctx = new pr.GerberState();
+        parser.execute(ctx);
+        assert.equal(ctx.fileAttributes[".FileFunction"].value, "Copper,L1,Top");
+        assert.equal(Object.keys(ctx.apertureAttributes).length, 0);
+        assert.equal(Object.keys(ctx.objectAttributes).length, 0);
+        let primitives = ctx.primitives;
+        assert.equal(primitives.length, 3);
+        let flash = primitives[0] as pr.Flash;
+        assert.equal(flash.attributes[".AperFunction"].value, "ComponentPad");
+        assert.equal(flash.attributes[".N"].value, "GND");
+        assert.deepEqual(flash.attributes[".P"].fields, ["U1", "1"]);
+        let line = primitives[1] as pr.Line;
+        assert.equal(line.attributes[".AperFunction"].value, "Conductor");
+        assert.equal(line.attributes[".N"].value, "GND");
+        assert.equal(line.attributes[".P"], undefined);
+        assert.equal(line.translate(new Point(1, 1)).attributes, line.attributes);
+        let region = primitives[2] as pr.Region;
+        assert.equal(Object.keys(region.attributes).length, 0);
+    });
 });
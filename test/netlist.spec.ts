@@ -0,0 +1,92 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as nl from '../netlist';
+import * as cv from '../converters';
+
+const top = "%FSLAX26Y26*%\n%MOMM*%\n%ADD10C,0.5*%\n%ADD11R,1.5X1.5*%\n"
+    + "%TO.N,GND*%\n%TO.P,U1,1*%\nD11*\nX0Y0D03*\n%TD.P*%\n"
+    + "D10*\nX0Y0D02*\nX5000000Y0D01*\n"
+    + "%TO.P,R1,1*%\nD11*\nX5000000Y0D03*\n%TD*%\n"
+    + "%TO.N,VCC*%\n%TO.P,U1,2*%\nX0Y3000000D03*\n%TD.P*%\n"
+    + "D10*\nX0Y3000000D02*\nX5000000Y3000000D01*\n"
+    + "%TO.P,R1,2*%\nD11*\nX5000000Y3000000D03*\n%TD*%\n"
+    + "%TO.N,SIG*%\nD10*\nX0Y6000000D02*\nX10000000Y6000000D01*\n%TD*%\n"
+    // The clear pad cuts the SIG track in two.
+    + "%LPC*%\nD11*\nX5000000Y6000000D03*\n%LPD*%\n"
+    + "M02*\n";
+
+const bottom = "%FSLAX26Y26*%\n%MOMM*%\n%ADD10C,0.5*%\n%ADD11C,1.5*%\n"
+    + "D11*\nX5000000Y0D03*\nX5000000Y3000000D03*\n"
+    + "D10*\nX5000000Y0D02*\nX5000000Y3000000D01*\n"
+    + "M02*\n";
+
+const drill = "M48\nMETRIC,TZ\nT1C0.8\n%\nT1\nX5.0Y0.0\nX5.0Y3.0\nX20.0Y20.0\nM30\n";
+
+function layer(name:string, content:string, copperIndex:number):nl.NetlistLayer {
+    return {
+        name:name,
+        primitives:cv.PrimitiveConverter.GerberToPrimitives(content),
+        copperIndex:copperIndex
+    };
+}
+
+describe("Netlist tests", () => {
+    it('Wait to init', () => cv.Init);
+    it('Copper islands', () => {
+        let netlist = nl.Netlist.Extract([layer("top", top, 1)]);
+        assert.equal(netlist.nets.length, 4);
+        let gnd = netlist.findNet("GND");
+        assert.equal(gnd.members.length, 3);
+        assert.deepEqual(gnd.names, ["GND"]);
+        assert.deepEqual(gnd.pads.map(p => `${p.reference}.${p.pin}`).sort(), ["R1.1", "U1.1"]);
+        let pad = gnd.pads.find(p => p.reference == "R1");
+        assert.equal(pad.center.toString(), "(5.0, 0.0)");
+        assert.equal(pad.layer, "top");
+        assert.equal(netlist.findNet("VCC").members.length, 3);
+        // The cut track is in both nets.
+        assert.deepEqual(netlist.opens, ["SIG"]);
+        let sig = netlist.nets.filter(net => net.name == "SIG");
+        assert.equal(sig.length, 2);
+        assert.equal(sig[0].members.length, 1);
+        assert.equal(sig[0].members[0].primitive, sig[1].members[0].primitive);
+        assert.equal(netlist.shorts.length, 0);
+    });
+    it('Drills join layers', () => {
+        let layers = [layer("top", top, 1), layer("bottom", bottom, 2)];
+        let drills = [{name:"drill", primitives:cv.PrimitiveConverter.ExcellonToPrimitives(drill)}];
+        let netlist = nl.Netlist.Extract(layers, drills);
+        // The bottom track shorts GND and VCC, the unconnected hole is left out.
+        assert.equal(netlist.nets.length, 3);
+        let shorts = netlist.shorts;
+        assert.equal(shorts.length, 1);
+        assert.deepEqual(shorts[0].names.slice().sort(), ["GND", "VCC"]);
+        assert.deepEqual(shorts[0].layers.slice().sort(), ["bottom", "top"]);
+        assert.equal(shorts[0].drills.length, 2);
+        assert.equal(shorts[0].pads.length, 4);
+        // Holes outside of the span do not join the layers.
+        netlist = nl.Netlist.Extract(layers, [{name:"drill", primitives:drills[0].primitives, span:[3, 4]}]);
+        assert.equal(netlist.nets.length, 5);
+        assert.equal(netlist.shorts.length, 0);
+    });
+    it('Image transformation', () => {
+        let offset = cv.PrimitiveConverter.GerberToPrimitiveResult(
+            "%FSLAX26Y26*%\n%MOMM*%\n%OFA5.0B0*%\n%ADD10C,1.5*%\nD10*\nX0Y0D03*\nM02*\n");
+        let layers = [
+            {name:"top", primitives:offset.primitives, copperIndex:1, imageTransform:offset.imageTransform},
+            layer("bottom", bottom, 2)];
+        let drills = [{name:"drill", primitives:cv.PrimitiveConverter.ExcellonToPrimitives(drill)}];
+        let netlist = nl.Netlist.Extract(layers, drills);
+        let net = netlist.nets.find(n => n.layers.indexOf("top") >= 0);
+        assert.deepEqual(net.layers.slice().sort(), ["bottom", "top"]);
+        let pad = net.members.find(m => m.layer == "top").primitive;
+        assert.equal(pad.bounds.min.midPoint(pad.bounds.max).toString(), "(5.0, 0.0)");
+    });
+});
@@ -39,6 +39,10 @@ function circleToPolygon(
     return result;
 }
 
+function area(polygonSet:ps.PolygonSet):number {
+    return Math.abs(polygonSet.reduce((sum, poly) => sum + ps.polygonArea(poly), 0));
+}
+
 function rectPolygon(x:number, y:number, w:number, h:number):Float64Array {
     return Float64Array.of(
         x, y,
@@ -77,4 +81,38 @@ describe("PolygonSet tests", () => {
         saveSVGPolygons(result.polygonSet, 'subtract_test1.svg');
         //console.log(result);
     });
+    it('Intersect and XOR Tests', () => {
+        let poly1 = rectPolygon(0, 0, 10, 10);
+        let poly2 = rectPolygon(5, 0, 10, 10);
+        assert.ok(Math.abs(area(ps.intersectPolygonSet([poly1], [poly2]).polygonSet) - 50) < 1E-6);
+        assert.ok(Math.abs(area(ps.xorPolygonSet([poly1], [poly2]).polygonSet) - 100) < 1E-6);
+        assert.ok(Math.abs(area(ps.xorPolygonSet([poly1], []).polygonSet) - 100) < 1E-6);
+    });
+    it('Area Tests', () => {
+        let square = rectPolygon(0, 0, 10, 10);
+        let hole = rectPolygon(3, 3, 4, 4);
+        let island = rectPolygon(4, 4, 2, 2);
+        // The area does not depend on the orientation of the holes.
+        assert.equal(ps.polygonSetArea([square, hole, island]), 100 - 16 + 4);
+        reversePolygon(hole);
+        assert.equal(ps.polygonSetArea([square, hole, island]), 88);
+        assert.equal(ps.polygonSetArea([]), 0);
+    });
+    it('Offset Tests', () => {
+        let square = rectPolygon(0, 0, 10, 10);
+        let grown = ps.offsetPolygonSet([square], 1, ps.JoinType.MITER);
+        assert.ok(Math.abs(area(grown.polygonSet) - 144) < 1E-6);
+        grown = ps.offsetPolygonSet([square], 1, ps.JoinType.SQUARE);
+        assert.ok(Math.abs(area(grown.polygonSet) - (140 + 4 * 0.8284)) < 1E-3);
+        grown = ps.offsetPolygonSet([square], 1, ps.JoinType.ROUND, 2, 0.001);
+        assert.ok(Math.abs(area(grown.polygonSet) - (140 + Math.PI)) < 1E-2);
+        let shrunk = ps.offsetPolygonSet([square], -1);
+        assert.ok(Math.abs(area(shrunk.polygonSet) - 64) < 1E-6);
+        // The hole shrinks when the copper grows.
+        let hole = rectPolygon(3, 3, 4, 4);
+        reversePolygon(hole);
+        grown = ps.offsetPolygonSet([square, hole], 1, ps.JoinType.MITER);
+        assert.ok(Math.abs(area(grown.polygonSet) - 140) < 1E-6);
+        assert.equal(ps.offsetPolygonSet([square], -6).polygonSet.length, 0);
+    });
 });
\ No newline at end of file
@@ -9,6 +9,8 @@
 
 import * as assert from 'assert';
 import * as pt from '../polygonTools';
+import {polygonArea, polySetBounds} from '../polygonSet';
+import {Point} from '../point';
 
 describe("PolygonTools tests", () => {
     it('Reverse Polygon Test', () => {
@@ -33,4 +35,71 @@ describe("PolygonTools tests", () => {
         assert.equal(polygon3[4], 5);
         assert.equal(polygon3[5], 10);
     });
-});
\ No newline at end of file
+    it('Arc steps with a chord tolerance', () => {
+        assert.equal(pt.arcSteps(100), pt.NUMSTEPS);
+        assert.equal(pt.arcSteps(0.005, 0.001), 5);
+        assert.equal(pt.arcSteps(0.005, 1), 4);
+        assert.equal(pt.arcSteps(0.005, 1, Math.PI / 4), 1);
+        let radius = 50;
+        let tolerance = 0.001;
+        let circle = pt.circleToPolygon(radius, pt.arcSteps(radius, tolerance));
+        assert.ok(circle.length / 2 > pt.NUMSTEPS);
+        // The chord midpoints are the furthest from the circle.
+        for (let idx = 2; idx < circle.length; idx += 2) {
+            let mx = (circle[idx - 2] + circle[idx]) / 2;
+            let my = (circle[idx - 1] + circle[idx + 1]) / 2;
+            assert.ok(radius - Math.sqrt(mx * mx + my * my) <= tolerance);
+        }
+        let arc = pt.arcToPolygon(new Point(radius, 0), new Point(0, radius), new Point(0, 0), true, true, tolerance);
+        assert.equal(arc.length / 2, pt.arcSteps(radius, tolerance, Math.PI / 2) + 1);
+        assert.equal(arc[arc.length - 2], 0);
+        assert.equal(arc[arc.length - 1], radius);
+        assert.equal(pt.arcToPolygon(new Point(radius, 0), new Point(0, radius), new Point(0, 0)).length, pt.NUMSTEPS * 2);
+        let obround = pt.obroundToPolygon(0.01, 0.02, 0.001);
+        assert.ok(obround.length < pt.obroundToPolygon(0.01, 0.02).length);
+        assert.ok(Math.abs(obround[0] - obround[obround.length - 2]) < 1E-9);
+        assert.ok(Math.abs(obround[1] - obround[obround.length - 1]) < 1E-9);
+    });
+    it('Convex hull', () => {
+        let hull = pt.convexHull(Float64Array.of(0, 0, 2, 0, 1, 1, 2, 2, 0, 2, 1, 0));
+        assert.equal(hull.length, 10);
+        assert.equal(hull[0], hull[8]);
+        assert.equal(hull[1], hull[9]);
+        assert.equal(polygonArea(hull), 4);
+    });
+    it('Sweep line', () => {
+        let square = pt.rectangleToPolygon(2, 2);
+        assert.ok(Math.abs(polygonArea(pt.sweepLine(square, new Point(0, 0), new Point(10, 0))) - 24) < 1E-9);
+        let diamond = Float64Array.of(1, 0, 0, 1, -1, 0, 0, -1, 1, 0);
+        let swept = pt.sweepLine(diamond, new Point(0, 0), new Point(10, 0));
+        assert.ok(Math.abs(polygonArea(swept) - 22) < 1E-9);
+        swept = pt.sweepLine(diamond, new Point(0, 0), new Point(10, 10));
+        assert.ok(Math.abs(polygonArea(swept) - 22) < 1E-9);
+    });
+    it('Sweep arc', () => {
+        let square = pt.rectangleToPolygon(2, 2);
+        let swept = pt.sweepArc(square, new Point(10, 0), new Point(0, 10), new Point(0, 0));
+        let bounds = polySetBounds([swept]);
+        assert.ok(Math.abs(bounds.min.x + 1) < 1E-9);
+        assert.ok(Math.abs(bounds.min.y + 1) < 1E-9);
+        assert.ok(Math.abs(bounds.max.x - 11) < 1E-9);
+        assert.ok(Math.abs(bounds.max.y - 11) < 1E-9);
+        let area = polygonArea(swept);
+        // Between the quarter annulus of the square width and of its diagonal.
+        assert.ok(area > Math.PI / 4 * (11 * 11 - 9 * 9));
+        assert.ok(area < Math.PI / 4 * (11.5 * 11.5 - 8.5 * 8.5) + 4);
+    });
+    it('Sweep circle', () => {
+        let square = pt.rectangleToPolygon(2, 2);
+        let swept = pt.sweepCircle(square, new Point(5, 5), 10);
+        assert.equal(swept.length, 2);
+        let outer = polygonArea(swept[0]);
+        let inner = polygonArea(swept[1]);
+        assert.ok(outer > Math.PI * 11 * 11 * 0.99 && outer < Math.PI * 11.5 * 11.5);
+        assert.ok(inner < 0);
+        assert.ok(-inner > Math.PI * 8.5 * 8.5 && -inner < Math.PI * 9 * 9);
+        let bounds = polySetBounds(swept);
+        assert.ok(Math.abs(bounds.min.x + 6) < 1E-9);
+        assert.ok(Math.abs(bounds.max.x - 16) < 1E-9);
+    });
+});
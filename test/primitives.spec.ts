@@ -183,6 +183,76 @@ describe("Primitives tests", () => {
             new Point(7.071, 7.071), new Point(10, 0), new Point(17.1,7.071), defaultState);
         saveSVGPolygons([result2.polygon, result3.polygon], "arc_draw_rectangle.svg");
     });
+    it('Draw with rotated and mirrored apertures', () => {
+        let rotated = new pr.ObjectState(ObjectPolarity.DARK, pr.ObjectMirroring.NONE, 1, 45);
+        let aperture = new pr.ApertureDefinition(10, "R", [2, 2]);
+        let line = aperture.generateLineDraw(new Point(0, 0), new Point(10, 0), rotated);
+        assert.ok(line.is_solid);
+        let bounds = ps.polySetBounds([line.polygon]);
+        assert.ok(Math.abs(bounds.max.x - 10 - Math.SQRT2) < 1E-9);
+        assert.ok(Math.abs(bounds.max.y - Math.SQRT2) < 1E-9);
+        assert.ok(Math.abs(ps.polygonArea(line.polygon) - 4 - 20 * Math.SQRT2) < 1E-9);
+
+        let mirrored = new pr.ObjectState(ObjectPolarity.DARK, pr.ObjectMirroring.X_AXIS, 2, 90);
+        aperture = new pr.ApertureDefinition(11, "O", [4, 1]);
+        let arc = aperture.generateArcDraw(new Point(10, 0), new Point(0, 10), new Point(0, 0), mirrored);
+        bounds = ps.polySetBounds([arc.polygon]);
+        // The obround is 8 tall after the rotation and scale.
+        assert.ok(Math.abs(bounds.max.y - 14) < 1E-9);
+        assert.ok(Math.abs(bounds.min.y + 4) < 1E-9);
+
+        aperture = new pr.ApertureDefinition(12, "P", [2, 6]);
+        let circle = aperture.generateCircleDraw(new Point(0, 0), 10, defaultState);
+        assert.equal(circle.polygonSet.length, 2);
+        bounds = ps.polySetBounds(circle.polygonSet);
+        assert.ok(Math.abs(bounds.max.x - 11) < 1E-9);
+
+        let flash = aperture.generateLineDraw(new Point(1, 1), new Point(1, 1), defaultState);
+        assert.equal(flash.polygon.length, 14);
+    });
+    it('Draw with a chord tolerance', () => {
+        let fine = new pr.ObjectState(ObjectPolarity.DARK, pr.ObjectMirroring.NONE, 1, 0, 0.0001);
+        let coarse = new pr.ObjectState(ObjectPolarity.DARK, pr.ObjectMirroring.NONE, 1, 0, 0.01);
+        let aperture = new pr.ApertureDefinition(10, "C", [0.2]);
+        let via = aperture.objects(ObjectPolarity.DARK, undefined, coarse.chordTolerance);
+        assert.ok(via[0].polySet[0].length < NUMSTEPS * 2 + 2);
+        assert.equal(aperture.objects(ObjectPolarity.DARK, undefined)[0].polySet[0].length, NUMSTEPS * 2 + 2);
+        let outline = aperture.generateArcDraw(new Point(100, 0), new Point(0, 100), new Point(0, 0), fine);
+        let defaultOutline = aperture.generateArcDraw(new Point(100, 0), new Point(0, 100), new Point(0, 0), defaultState);
+        assert.ok(outline.polygon.length > defaultOutline.polygon.length);
+        let line = aperture.generateLineDraw(new Point(0, 0), new Point(10, 0), coarse);
+        assert.equal(line.polygon[0], line.polygon[line.polygon.length - 2]);
+        assert.equal(line.polygon[1], line.polygon[line.polygon.length - 1]);
+        assert.ok(line.polygon.length < NUMSTEPS * 4 + 2);
+        let scaled = new pr.ObjectState(ObjectPolarity.DARK, pr.ObjectMirroring.NONE, 10, 0, 0.01);
+        assert.ok(Math.abs(scaled.unscaledTolerance - 0.001) < 1E-12);
+        assert.equal(defaultState.unscaledTolerance, undefined);
+    });
+    it('Scale primitives', () => {
+        assert.equal(pr.unitsFactor(pr.CoordinateUnits.INCHES, pr.CoordinateUnits.MILIMETERS), 25.4);
+        assert.equal(pr.unitsFactor(pr.CoordinateUnits.MILIMETERS, pr.CoordinateUnits.INCHES), 1 / 25.4);
+        assert.equal(pr.unitsFactor(pr.CoordinateUnits.INCHES, pr.CoordinateUnits.INCHES), 1);
+        let aperture = new pr.ApertureDefinition(10, "C", [0.1]);
+        let line = new pr.Line(new Point(0, 0), new Point(1, 0), aperture, defaultState, undefined);
+        let scaled = line.scale(25.4);
+        assert.equal(scaled.to.x, 25.4);
+        assert.equal(scaled.state.scale, 25.4);
+        let bounds = scaled.bounds;
+        assert.ok(Math.abs(bounds.min.x + 1.27) < 1E-2);
+        assert.ok(Math.abs(bounds.max.x - 26.67) < 1E-2);
+        assert.ok(Math.abs(bounds.max.y - 1.27) < 1E-9);
+        let flash = new pr.Flash(new Point(1, 1), aperture, defaultState, undefined).scale(10);
+        assert.ok(Math.abs(flash.bounds.max.x - 10.5) < 1E-9);
+        let region = new pr.Region([[
+            new pr.LineSegment(new Point(0, 0), new Point(1, 0), undefined),
+            new pr.ArcSegment(new Point(0, 0), 1, new Point(1, 0), new Point(-1, 0), true, undefined),
+            new pr.LineSegment(new Point(-1, 0), new Point(0, 0), undefined)]],
+            defaultState, undefined).scale(2);
+        let arc = region.contours[0][1] as pr.ArcSegment;
+        assert.equal(arc.radius, 2);
+        assert.equal(arc.end.x, -2);
+        assert.equal(region.bounds.max.x, 2);
+    });
     it('Aperture macro - circles', () => {
         let aperture = new pr.ApertureMacro("MACRO", [
             new pr.Primitive(1, perseExpressions(["1", "1", "5", "0", "0"])),
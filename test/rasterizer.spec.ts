@@ -0,0 +1,93 @@
+/**
+ * Gerber Parsing Library
+ * 
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ * 
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as zlib from 'zlib';
+import * as pr from '../primitives';
+import * as rs from '../rasterizer';
+import * as png from '../png';
+import {reversePolygon} from '../polygonTools';
+
+function square(x:number, y:number, size:number):Float64Array {
+    return Float64Array.of(x, y, x + size, y, x + size, y + size, x, y + size);
+}
+
+describe("Rasterizer tests", () => {
+    it('Fill square', () => {
+        // 1 inch square at 10 DPI
+        let r = new rs.Rasterizer({minx:0, miny:0, maxx:2, maxy:2}, 10, pr.CoordinateUnits.INCHES);
+        assert.equal(r.width, 20);
+        assert.equal(r.height, 20);
+        let coverage = r.coverage([square(0, 1, 1)]);
+        let total = 0;
+        coverage.forEach(c => total += c);
+        assert.ok(Math.abs(total - 100) < 1E-3);
+        // Top left quadrant is filled, y goes down in the raster
+        assert.equal(coverage[0], 1);
+        assert.equal(coverage[9 * 20 + 9], 1);
+        assert.equal(coverage[10 * 20 + 10], 0);
+    });
+    it('Anti-aliased edges', () => {
+        let r = new rs.Rasterizer({minx:0, miny:0, maxx:4, maxy:4}, 1, pr.CoordinateUnits.INCHES, 4);
+        let coverage = r.coverage([square(0.5, 0.5, 3)]);
+        assert.ok(Math.abs(coverage[0] - 0.25) < 1E-6);
+        assert.ok(Math.abs(coverage[1] - 0.5) < 1E-6);
+        assert.ok(Math.abs(coverage[5] - 1) < 1E-6);
+    });
+    it('Non-zero fill rule', () => {
+        let r = new rs.Rasterizer({minx:0, miny:0, maxx:30, maxy:30}, 25.4, pr.CoordinateUnits.MILIMETERS, 1);
+        let hole = square(10, 10, 10);
+        reversePolygon(hole);
+        let coverage = r.coverage([square(0, 0, 30), hole]);
+        assert.equal(coverage[15 * 30 + 15], 0);
+        assert.equal(coverage[5 * 30 + 5], 1);
+        // Overlapping polygons with the same orientation stay filled
+        coverage = r.coverage([square(0, 0, 30), square(10, 10, 10)]);
+        assert.equal(coverage[15 * 30 + 15], 1);
+    });
+    it('Layer compositing and PNG output', () => {
+        let r = new rs.Rasterizer({minx:0, miny:0, maxx:10, maxy:10}, 25.4);
+        let image = r.render([
+            new rs.RasterLayer([square(0, 0, 10)], 0x0000ff),
+            new rs.RasterLayer([square(0, 0, 5)], 0xff0000, 0.5)]);
+        let bottomLeft = (9 * 10) * 4;
+        assert.deepEqual(
+            Array.from(image.pixels.subarray(bottomLeft, bottomLeft + 4)),
+            [128, 0, 128, 255]);
+        assert.deepEqual(Array.from(image.pixels.subarray(0, 4)), [0, 0, 255, 255]);
+        let data = image.toPng();
+        assert.deepEqual(Array.from(data.subarray(0, 8)), [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+        let view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        assert.equal(view.getUint32(16), 10);
+        assert.equal(view.getUint32(20), 10);
+        assert.equal(view.getUint32(29), png.crc32(data, 12, 29));
+        let idatLength = view.getUint32(33);
+        let raw = zlib.inflateSync(Buffer.from(Array.from(data.subarray(41, 41 + idatLength))));
+        assert.equal(raw.length, (10 * 4 + 1) * 10);
+        assert.equal(raw[0], 0);
+        assert.equal(raw[1 + 2], 255);
+    });
+    it('PNG round trip', () => {
+        let r = new rs.Rasterizer({minx:0, miny:0, maxx:300, maxy:200}, 25.4);
+        let image = r.render([new rs.RasterLayer([square(10, 10, 100)], 0x336699, 0.75)]);
+        let decoded = png.decodePng(image.toPng());
+        assert.equal(decoded.width, 300);
+        assert.equal(decoded.height, 200);
+        assert.deepEqual(Array.from(decoded.pixels), Array.from(image.pixels));
+        let compressed = zlib.deflateSync(Buffer.from([1, 2, 3, 1, 2, 3, 1, 2, 3, 4]));
+        assert.deepEqual(
+            Array.from(png.inflate(new Uint8Array(compressed))),
+            [1, 2, 3, 1, 2, 3, 1, 2, 3, 4]);
+    });
+    it('Checksums', () => {
+        let data = Uint8Array.from("123456789".split("").map(c => c.charCodeAt(0)));
+        assert.equal(png.crc32(data), 0xcbf43926);
+        assert.equal(png.adler32(data), 0x091e01de);
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * Gerber Parsing Library
+ *
+ * Author: Venelin Efremov
+ * Copyright: Copyright (c) Venelin Efremov 2018
+ *
+ * License: MIT License, see LICENSE.txt
+ */
+
+import * as assert from 'assert';
+import * as si from '../spatialindex';
+import * as pr from '../primitives';
+import {PrimitiveConverter} from '../converters';
+import {Point} from '../point';
+
+function grid():string {
+    let result = "%FSLAX26Y26*%\n%MOMM*%\n%ADD10R,1X1*%\n%ADD11C,0.5*%\n%TA.AperFunction,SMDPad,CuDef*%\n%ADD12C,2*%\n%TD*%\nD10*\n";
+    for (let x = 0; x < 10; x++) {
+        for (let y = 0; y < 10; y++) {
+            result += `X${x * 2000000}Y${y * 2000000}D03*\n`;
+        }
+    }
+    return result
+        + "%TO.N,GND*%\nD11*\nX0Y0D02*\nX18000000Y0D01*\n%TD*%\n"
+        + "%LPC*%\nD12*\nX10000000Y0D03*\n%LPD*%\n"
+        + "M02*\n";
+}
+
+describe("Spatial index tests", () => {
+    let primitives = PrimitiveConverter.GerberToPrimitives(grid());
+    let index = new si.PrimitiveIndex(primitives, 4);
+    it('Hit test', () => {
+        let hits = index.hitTest(new Point(4.3, 6.2));
+        assert.equal(hits.length, 1);
+        assert.equal((hits[0].primitive as pr.Flash).center.toString(), "(4.0, 6.0)");
+        assert.equal(hits[0].lineNo, 32);
+        assert.equal(index.hitTest(new Point(5, 5)).length, 0);
+        assert.equal(index.hitTest(new Point(5, 5), 0.75).length, 4);
+    });
+    it('Polarity', () => {
+        // The track is on top of the pad.
+        let hits = index.hitTest(new Point(2.1, 0));
+        assert.equal(hits.length, 2);
+        assert.ok(hits[0].primitive instanceof pr.Line);
+        assert.equal(hits[0].attributes[".N"].value, "GND");
+        assert.equal(hits[1].attributes[".N"], undefined);
+        // The clear flash hides the track and the pad.
+        assert.equal(index.hitTest(new Point(10.2, 0)).length, 0);
+        assert.equal(index.hitTest(new Point(11.2, 0)).length, 1);
+    });
+    it('Search bounds', () => {
+        let box = new pr.Bounds(new Point(1.4, 1.4), new Point(6.4, 4.6));
+        assert.equal(index.searchBounds(box).length, 6);
+        assert.equal(index.searchBounds(box, true).length, 4);
+        // Only the clear flash is in the box.
+        box = new pr.Bounds(new Point(10.2, 0.7), new Point(10.3, 0.8));
+        assert.equal(index.searchBounds(box).length, 0);
+    });
+    it('Image transformation', () => {
+        let result = PrimitiveConverter.GerberToPrimitiveResult(
+            "%FSLAX26Y26*%\n%MOMM*%\n%OFA5.0B0*%\n%ADD10C,1*%\nD10*\nX0Y0D03*\nM02*\n");
+        let transformed = new si.PrimitiveIndex(result.primitives, 16, result.imageTransform);
+        let hits = transformed.hitTest(new Point(5.2, 0));
+        assert.equal(hits.length, 1);
+        assert.equal((hits[0].primitive as pr.Flash).center.toString(), "(5.0, 0.0)");
+        assert.equal((hits[0].source as pr.Flash).center.toString(), "(5.0, 0.0)");
+        assert.equal(transformed.hitTest(new Point(0, 0)).length, 0);
+    });
+    it('Same as linear search', () => {
+        let linear = new si.PrimitiveIndex(primitives, primitives.length);
+        let seed = 1;
+        let random = () => {
+            seed = (seed * 16807) % 2147483647;
+            return seed / 2147483647;
+        };
+        for (let idx = 0; idx < 200; idx++) {
+            let point = new Point(random() * 22 - 2, random() * 22 - 2);
+            let expected = linear.hitTest(point, 0.1).map(hit => hit.primitive);
+            let actual = index.hitTest(point, 0.1).map(hit => hit.primitive);
+            assert.deepEqual(actual, expected);
+        }
+    });
+});